@@ -0,0 +1,143 @@
+// Access rules: which roles and consent scopes let a caller act on a record.
+// Callers resolve principals and stored grants; the decisions live here
+
+export type RoleName = "Admin" | "Doctor" | "Patient" | "Staff" | "Pharmacy";
+
+// The holder has at least one of the required roles
+export function holdsRole(held: RoleName[], required: RoleName[]): boolean {
+  return held.some((role) => required.includes(role));
+}
+
+// Roles after granting one; granting a held role changes nothing
+export function withRole(held: RoleName[], role: RoleName): RoleName[] {
+  return held.includes(role) ? held : [...held, role];
+}
+
+export function withoutRole(held: RoleName[], role: RoleName): RoleName[] {
+  return held.filter((name) => name !== role);
+}
+
+// The canister always keeps at least one admin
+export function canRevokeRole(role: RoleName, adminCount: number): boolean {
+  return role !== "Admin" || adminCount > 1;
+}
+
+export type ConsentScopeName =
+  | "Demographics"
+  | "Medications"
+  | "Labs"
+  | "FullRecord";
+
+// A consent grant as the access rules read it
+export type ConsentTerms = {
+  patient_id: string;
+  grantee: { Doctor?: string; Department?: string };
+  scopes: ConsentScopeName[];
+  expires_at: bigint;
+  revoked: boolean;
+};
+
+// Emergency access of a doctor to a patient's full record
+export type EmergencyAccess = {
+  patient_id: string;
+  doctor_id: string;
+  expires_at: bigint;
+};
+
+export function isActiveConsent(
+  grant: { expires_at: bigint; revoked: boolean },
+  now: bigint
+): boolean {
+  return !grant.revoked && grant.expires_at > now;
+}
+
+// Scopes the patient's active grants give the doctor, directly or through
+// the doctor's department
+export function consentedScopes(
+  grants: ConsentTerms[],
+  patientId: string,
+  doctor: { id: string; department_id: string },
+  now: bigint
+): ConsentScopeName[] {
+  return grants
+    .filter(
+      (grant) =>
+        grant.patient_id === patientId &&
+        isActiveConsent(grant, now) &&
+        (grant.grantee.Doctor === doctor.id ||
+          grant.grantee.Department === doctor.department_id)
+    )
+    .flatMap((grant) => grant.scopes);
+}
+
+export function inEmergency(
+  accesses: EmergencyAccess[],
+  patientId: string,
+  doctorId: string,
+  now: bigint
+): boolean {
+  return accesses.some(
+    (access) =>
+      access.patient_id === patientId &&
+      access.doctor_id === doctorId &&
+      access.expires_at > now
+  );
+}
+
+export function hasScope(
+  scopes: ConsentScopeName[],
+  scope: ConsentScopeName
+): boolean {
+  return scopes.includes("FullRecord") || scopes.includes(scope);
+}
+
+// Consultations describe the patient's problems, so reading one needs the
+// full record unless the caller is the doctor handling it
+export function canReadConsultation(
+  scopes: ConsentScopeName[],
+  handledByCaller: boolean
+): boolean {
+  return handledByCaller || hasScope(scopes, "FullRecord");
+}
+
+// Patient profile restricted to the given scopes
+export function patientView<
+  P extends {
+    allergies: string[];
+    current_medications: string[];
+    medical_history: string[];
+  }
+>(patient: P, scopes: ConsentScopeName[]): P {
+  const medications = hasScope(scopes, "Medications");
+
+  return {
+    ...patient,
+    allergies: medications ? patient.allergies : [],
+    current_medications: medications ? patient.current_medications : [],
+    medical_history: hasScope(scopes, "FullRecord")
+      ? patient.medical_history
+      : [],
+  };
+}
+
+// Medical record restricted to the given scopes
+export function medicalRecordView<
+  R extends {
+    clinical_notes: unknown[];
+    prescriptions: unknown[];
+    lab_results: unknown[];
+    immunizations: unknown[];
+  }
+>(medicalRecord: R, scopes: ConsentScopeName[]): R {
+  const fullRecord = hasScope(scopes, "FullRecord");
+
+  return {
+    ...medicalRecord,
+    clinical_notes: fullRecord ? medicalRecord.clinical_notes : [],
+    prescriptions: hasScope(scopes, "Medications")
+      ? medicalRecord.prescriptions
+      : [],
+    lab_results: hasScope(scopes, "Labs") ? medicalRecord.lab_results : [],
+    immunizations: fullRecord ? medicalRecord.immunizations : [],
+  };
+}
@@ -0,0 +1,70 @@
+// Audit log chain: every entry carries the hash of the entry before it, so
+// changing or removing an entry breaks the chain from that entry on
+import { sha256 } from "js-sha256";
+
+// Previous hash of the first audit entry
+export const GENESIS_HASH = "0".repeat(64);
+
+export type AuditOutcomeName = "Success" | "Denied" | "Failed";
+
+// Fields an entry's hash covers
+export type AuditContent = {
+  sequence: bigint;
+  caller: string; // Principal text
+  method: string;
+  target_ids: string[];
+  outcome: AuditOutcomeName;
+  timestamp: bigint;
+  previous_hash: string;
+};
+
+export function auditHash(entry: AuditContent): string {
+  return sha256(
+    [
+      entry.previous_hash,
+      entry.sequence,
+      entry.caller,
+      entry.method,
+      entry.target_ids.join(","),
+      entry.outcome,
+      entry.timestamp,
+    ].join("|")
+  );
+}
+
+// Calls rejected with Unauthorized are denied; other errors failed
+export function auditOutcomeName(result: unknown): AuditOutcomeName {
+  if (!result || typeof result !== "object" || !("Err" in result)) {
+    return "Success";
+  }
+
+  const error = result.Err;
+
+  return error && typeof error === "object" && "Unauthorized" in error
+    ? "Denied"
+    : "Failed";
+}
+
+// Sequence of the first entry of the range that does not continue the chain
+// from previousHash, if any
+export function firstBrokenLink(
+  entries: (AuditContent & { hash: string })[],
+  start: bigint,
+  previousHash: string | undefined
+): bigint | undefined {
+  for (const [index, entry] of entries.entries()) {
+    const { hash, ...content } = entry;
+
+    if (
+      entry.sequence !== start + BigInt(index) ||
+      entry.previous_hash !== previousHash ||
+      auditHash(content) !== hash
+    ) {
+      return start + BigInt(index);
+    }
+
+    previousHash = hash;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,186 @@
+// Clinical calculators: inputs arrive as decimals with explicit units, are
+// converted to the units each formula expects, and results are plain numbers
+
+export type MassUnit = "Kg" | "G" | "Lb";
+export type LengthUnit = "Cm" | "M" | "In";
+export type CreatinineUnit = "MgPerDl" | "UmolPerL";
+export type Sex = "Female" | "Male";
+
+export type BloodPressureCategory =
+  | "Normal"
+  | "Elevated"
+  | "Hypertension1"
+  | "Hypertension2"
+  | "HypertensiveCrisis";
+
+export type KidneyStage = "G1" | "G2" | "G3a" | "G3b" | "G4" | "G5";
+
+const KILOGRAMS_PER: { [unit in MassUnit]: number } = {
+  Kg: 1,
+  G: 0.001,
+  Lb: 0.45359237,
+};
+
+const CENTIMETERS_PER: { [unit in LengthUnit]: number } = {
+  Cm: 1,
+  M: 100,
+  In: 2.54,
+};
+
+const UMOL_PER_L_PER_MG_PER_DL = 88.42;
+
+export function toKilograms(value: number, unit: MassUnit): number {
+  return value * KILOGRAMS_PER[unit];
+}
+
+export function toCentimeters(value: number, unit: LengthUnit): number {
+  return value * CENTIMETERS_PER[unit];
+}
+
+export function toMgPerDl(value: number, unit: CreatinineUnit): number {
+  return unit === "MgPerDl" ? value : value / UMOL_PER_L_PER_MG_PER_DL;
+}
+
+// Results are reported to two decimals
+export function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function bmi(weightKg: number, heightCm: number): number {
+  const heightM = heightCm / 100;
+
+  return weightKg / (heightM * heightM);
+}
+
+// WHO adult categories
+export function bmiCategory(value: number): string {
+  if (value < 18.5) {
+    return "Underweight";
+  }
+
+  if (value < 25) {
+    return "Normal Weight";
+  }
+
+  return value < 30 ? "Overweight" : "Obese";
+}
+
+// Body surface area in m², Mosteller formula
+export function bodySurfaceArea(weightKg: number, heightCm: number): number {
+  return Math.sqrt((weightKg * heightCm) / 3600);
+}
+
+// eGFR in mL/min/1.73 m², CKD-EPI 2021 creatinine equation
+export function egfr(creatinineMgPerDl: number, age: number, sex: Sex): number {
+  const kappa = sex === "Female" ? 0.7 : 0.9;
+  const alpha = sex === "Female" ? -0.241 : -0.302;
+  const ratio = creatinineMgPerDl / kappa;
+
+  return (
+    142 *
+    Math.pow(Math.min(ratio, 1), alpha) *
+    Math.pow(Math.max(ratio, 1), -1.2) *
+    Math.pow(0.9938, age) *
+    (sex === "Female" ? 1.012 : 1)
+  );
+}
+
+// KDIGO GFR categories
+export function kidneyStage(egfrValue: number): KidneyStage {
+  if (egfrValue >= 90) {
+    return "G1";
+  }
+
+  if (egfrValue >= 60) {
+    return "G2";
+  }
+
+  if (egfrValue >= 45) {
+    return "G3a";
+  }
+
+  if (egfrValue >= 30) {
+    return "G3b";
+  }
+
+  return egfrValue >= 15 ? "G4" : "G5";
+}
+
+// Creatinine clearance in mL/min, Cockcroft-Gault equation
+export function creatinineClearance(
+  creatinineMgPerDl: number,
+  age: number,
+  weightKg: number,
+  sex: Sex
+): number {
+  return (
+    (((140 - age) * weightKg) / (72 * creatinineMgPerDl)) *
+    (sex === "Female" ? 0.85 : 1)
+  );
+}
+
+// ACC/AHA 2017 categories; the higher category of the two readings wins
+export function bloodPressureCategory(
+  systolic: number,
+  diastolic: number
+): BloodPressureCategory {
+  if (systolic > 180 || diastolic > 120) {
+    return "HypertensiveCrisis";
+  }
+
+  if (systolic >= 140 || diastolic >= 90) {
+    return "Hypertension2";
+  }
+
+  if (systolic >= 130 || diastolic >= 80) {
+    return "Hypertension1";
+  }
+
+  return systolic >= 120 ? "Elevated" : "Normal";
+}
+
+export type WeightBasedDose = {
+  singleDose: number;
+  dailyDose: number;
+  capped: boolean; // Set when a ceiling lowered the weight-based dose
+};
+
+// Weight-based dose, lowered to the single-dose ceiling and then so that the
+// doses of a day stay within the daily ceiling
+export function weightBasedDose(
+  weightKg: number,
+  dosePerKg: number,
+  dosesPerDay: number,
+  maxSingleDose: number | undefined,
+  maxDailyDose: number | undefined
+): WeightBasedDose {
+  const weightDose = weightKg * dosePerKg;
+  const singleDose = Math.min(
+    weightDose,
+    maxSingleDose ?? Infinity,
+    (maxDailyDose ?? Infinity) / dosesPerDay
+  );
+
+  return {
+    singleDose,
+    dailyDose: singleDose * dosesPerDay,
+    capped: singleDose < weightDose,
+  };
+}
+
+// Weighted screening score of age, BMI and systolic pressure
+export function healthRiskScore(
+  age: number,
+  bmiValue: number,
+  systolic: number
+): number {
+  return age * 0.3 + bmiValue * 0.5 + systolic * 0.2;
+}
+
+export function healthRiskLevel(score: number): string {
+  if (score < 20) {
+    return "Low Risk";
+  }
+
+  return score < 30 ? "Moderate Risk" : "High Risk";
+}
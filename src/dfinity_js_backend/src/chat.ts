@@ -0,0 +1,81 @@
+// Read receipts of patient-doctor conversations: how sending, reading and
+// deleting messages move the unread counts of each side
+
+export type ChatSide = "Patient" | "Doctor";
+
+export type UnreadCounts = {
+  patient_unread_count: number;
+  doctor_unread_count: number;
+};
+
+// A message from one side is unread for the other side
+export function countSent<C extends UnreadCounts>(
+  conversation: C,
+  side: ChatSide
+): C {
+  return {
+    ...conversation,
+    patient_unread_count:
+      conversation.patient_unread_count + (side === "Doctor" ? 1 : 0),
+    doctor_unread_count:
+      conversation.doctor_unread_count + (side === "Patient" ? 1 : 0),
+  };
+}
+
+// Reading the conversation clears the reader's unread messages
+export function countRead<C extends UnreadCounts>(
+  conversation: C,
+  side: ChatSide
+): C {
+  return {
+    ...conversation,
+    patient_unread_count:
+      side === "Patient" ? 0 : conversation.patient_unread_count,
+    doctor_unread_count:
+      side === "Doctor" ? 0 : conversation.doctor_unread_count,
+  };
+}
+
+// A deleted unread message no longer counts for its recipient
+export function countDeleted<C extends UnreadCounts>(
+  conversation: C,
+  side: ChatSide
+): C {
+  return {
+    ...conversation,
+    patient_unread_count:
+      side === "Doctor"
+        ? Math.max(conversation.patient_unread_count - 1, 0)
+        : conversation.patient_unread_count,
+    doctor_unread_count:
+      side === "Patient"
+        ? Math.max(conversation.doctor_unread_count - 1, 0)
+        : conversation.doctor_unread_count,
+  };
+}
+
+// Positions of the messages the side received and has not read yet. Unread
+// messages always sit at the end of the conversation, so the scan stops at
+// the newest received message that was read
+export function unreadReceived(
+  messages: { from_doctor: boolean; read: boolean }[],
+  side: ChatSide
+): number[] {
+  const unread: number[] = [];
+
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const message = messages[index];
+
+    if (message.from_doctor === (side === "Doctor")) {
+      continue;
+    }
+
+    if (message.read) {
+      break;
+    }
+
+    unread.push(index);
+  }
+
+  return unread;
+}
@@ -0,0 +1,89 @@
+import { Principal } from "@dfinity/principal";
+
+// Change history of patient profiles and medical records: every stored version
+// carries the field-level differences to the version before it
+
+export type FieldChange = {
+  field: string; // e.g. "allergies" or "lab_results[<entry id>]"
+  before: string;
+  after: string;
+};
+
+// JSON text of a stored value; nat64 and principals become strings. Principals
+// are read from the holder, as their toJSON runs before the replacer
+export function describeValue(value: unknown): string {
+  return JSON.stringify(
+    value,
+    function (this: { [key: string]: unknown }, key: string, item: unknown) {
+      const original = this[key];
+
+      if (typeof original === "bigint") {
+        return original.toString();
+      }
+
+      if (original instanceof Principal) {
+        return original.toText();
+      }
+
+      return item;
+    }
+  );
+}
+
+export type Fields = { [field: string]: unknown };
+
+// A non-empty list of records with ids, e.g. the lab results of a record
+function isEntryList(value: unknown): value is { id: string }[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    typeof value[0] === "object" &&
+    value[0] !== null &&
+    "id" in value[0]
+  );
+}
+
+// Field-level differences; lists of entries with ids are compared per entry
+export function fieldDiffs(
+  before: Fields | undefined,
+  after: Fields
+): FieldChange[] {
+  const diffs: FieldChange[] = [];
+
+  for (const field of Object.keys(after)) {
+    const previous = before?.[field];
+    const current = after[field];
+
+    if (isEntryList(current)) {
+      const previousEntries = isEntryList(previous) ? previous : [];
+
+      for (const entry of current) {
+        const previousEntry = previousEntries.find(
+          (candidate) => candidate.id === entry.id
+        );
+        const beforeText =
+          previousEntry === undefined ? "" : describeValue(previousEntry);
+        const afterText = describeValue(entry);
+
+        if (beforeText !== afterText) {
+          diffs.push({
+            field: `${field}[${entry.id}]`,
+            before: beforeText,
+            after: afterText,
+          });
+        }
+      }
+
+      continue;
+    }
+
+    const beforeText = previous === undefined ? "" : describeValue(previous);
+    const afterText = describeValue(current);
+
+    if (beforeText !== afterText) {
+      diffs.push({ field, before: beforeText, after: afterText });
+    }
+  }
+
+  return diffs;
+}
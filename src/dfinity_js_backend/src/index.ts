@@ -16,20 +16,189 @@ import {
   ic,
   Principal,
   Opt,
+  nat8,
+  nat16,
+  nat32,
   nat64,
+  float64,
   Duration,
   Result,
   bool,
   Canister,
+  init,
+  postUpgrade,
+  CandidType,
+  Callback,
+  Tuple,
 } from "azle";
 import {
   Address,
   Ledger,
+  Operation,
   binaryAddressFromAddress,
   binaryAddressFromPrincipal,
   hexAddressFromPrincipal,
 } from "azle/canisters/ledger";
-import { v4 as uuidv4 } from "uuid";
+import { v4 as uuidv4, validate as isUuid } from "uuid";
+import {
+  Schema,
+  recordField,
+  validatePayload,
+  validateChanges,
+  listOf,
+  required,
+  maxLength,
+  email,
+  phoneNumber,
+  httpsUrl,
+  uuid,
+  oneOf,
+  between,
+  positive,
+  finite,
+  maxItems,
+  nonEmptyList,
+  eachItem,
+  optional,
+  MAX_NAME_LENGTH,
+  MAX_TEXT_LENGTH,
+  MAX_LIST_LENGTH,
+  GENDERS,
+  RELATIONSHIPS,
+  PAYMENT_METHODS,
+} from "./validation";
+import {
+  Migration,
+  applyMigration,
+  countOutdated,
+  DoctorV0,
+  PatientV0,
+  ConsultationV0,
+  ChatV0,
+  AppointmentV0,
+  PrescriptionV0,
+  PaymentV0,
+  MedicalRecordV0,
+} from "./migrations";
+import {
+  Format,
+  Row,
+  Table,
+  cell,
+  cells,
+  parseRows,
+  formatRows,
+  DEPARTMENT_TABLE,
+  DOCTOR_TABLE,
+  PATIENT_TABLE,
+} from "./interchange";
+import {
+  MassUnit as MassUnitName,
+  LengthUnit as LengthUnitName,
+  CreatinineUnit as CreatinineUnitName,
+  Sex as SexName,
+  BloodPressureCategory as BloodPressureCategoryName,
+  toKilograms,
+  toCentimeters,
+  toMgPerDl,
+  round,
+  bmi,
+  bmiCategory,
+  bodySurfaceArea,
+  egfr,
+  kidneyStage,
+  creatinineClearance,
+  bloodPressureCategory,
+  weightBasedDose,
+  healthRiskScore,
+  healthRiskLevel,
+} from "./calculators";
+import {
+  RoleName,
+  holdsRole,
+  withRole,
+  withoutRole,
+  canRevokeRole,
+  ConsentScopeName,
+  ConsentTerms,
+  isActiveConsent,
+  consentedScopes,
+  inEmergency,
+  hasScope,
+  canReadConsultation,
+  patientView,
+  medicalRecordView,
+} from "./access";
+import {
+  sameAddress,
+  isExpectedTransfer,
+  isSettledStatus,
+  reservationExpiresAt,
+  settlementRefusal,
+} from "./ledger";
+import {
+  NANOS_PER_MINUTE,
+  NANOS_PER_DAY,
+  conflictsWithBooking,
+  workingHoursProblem,
+  openSlots,
+} from "./scheduling";
+import {
+  AppointmentStatusName,
+  APPOINTMENT_TRANSITIONS,
+  beforeCancellationDeadline,
+  canStartAppointment,
+  ConsultationStatusName,
+  CONSULTATION_TRANSITIONS,
+  PrescriptionStatusName,
+  isFillableStatus,
+  effectiveStatus,
+  dispensedStatus,
+  refillLimitReached,
+  PaymentStatusName,
+  PAYMENT_TRANSITIONS,
+  isRefundableStatus,
+  refundableAmount,
+  refundedStatus,
+} from "./lifecycles";
+import { countSent, countRead, countDeleted, unreadReceived } from "./chat";
+import { amendsExistingEntry, referenceRangeProblem } from "./records";
+import {
+  GENESIS_HASH,
+  AuditOutcomeName,
+  AuditContent,
+  auditHash,
+  auditOutcomeName,
+  firstBrokenLink,
+} from "./audit";
+import {
+  SafetyFinding,
+  normalizeTerm,
+  interactionKey,
+  prescriptionSafety,
+} from "./prescribing";
+import { PageableMap, readPage } from "./pagination";
+import {
+  addToIndex,
+  indexedIds,
+  lookupIndexed,
+  removeFromIndex,
+} from "./indexing";
+import { describeReferences } from "./integrity";
+import { retainUntil, retentionElapsed } from "./retention";
+import { applyListPatch, presentFields } from "./patches";
+import { fieldDiffs } from "./history";
+import { AssignmentStrategyName, compareQueued, pickCandidate } from "./triage";
+import { splitCost, splitLines, uninsuredCost } from "./insurance";
+import { priceLines } from "./pricing";
+import {
+  ScheduledKind,
+  isDueKey,
+  noticeScheduleKey,
+  parseScheduleEntry,
+  scheduleEntry,
+  timeBefore,
+} from "./notices";
 
 const Department = Record({
   id: text,
@@ -43,6 +212,16 @@ const Doctor = Record({
   name: text,
   department_id: text,
   image: text,
+  available: bool, // Whether the doctor currently accepts new bookings
+  deleted_at: Opt(nat64), // Set when the profile is archived
+  deleted_by: Opt(Principal),
+  version: nat32, // Incremented on every change
+});
+
+const EmergencyContact = Record({
+  name: text,
+  phone_number: text,
+  relationship: text, // "Parent", "Spouse"
 });
 
 const Patient = Record({
@@ -54,14 +233,37 @@ const Patient = Record({
   phone_number: text,
   email: text,
   address: text,
-  emergency_contact: Record({
-    name: text,
-    phone_number: text,
-    relationship: text, // "Parent", "Spouse"
-  }),
+  emergency_contact: EmergencyContact,
   allergies: Vec(text), // List of allergies (e.g., ["Peanuts", "Penicillin"])
   current_medications: Vec(text), // List of current medications
   medical_history: Vec(text), // List of past medical conditions or surgeries
+  deleted_at: Opt(nat64), // Set when the profile is archived
+  deleted_by: Opt(Principal),
+  version: nat32, // Incremented on every change
+});
+
+const Urgency = Variant({
+  Critical: Null,
+  High: Null,
+  Medium: Null,
+  Low: Null,
+});
+
+// Open consultations wait in their department's queue until a doctor takes them
+const ConsultationStatus = Variant({
+  Open: Null,
+  Assigned: Null,
+  InProgress: Null,
+  Resolved: Null,
+});
+
+// Outcome of a consultation and the records it produced
+const ConsultationResolution = Record({
+  summary: text,
+  resolved_at: nat64,
+  appointment_id: Opt(text), // Follow-up appointment booked with the doctor
+  prescription_id: Opt(text), // Prescription issued during the consultation
+  clinical_note_id: Opt(text), // Note added to the patient's medical record
 });
 
 const Consultation = Record({
@@ -69,14 +271,63 @@ const Consultation = Record({
   patient_id: text,
   problem: text,
   department_id: text,
+  urgency: Urgency,
+  status: ConsultationStatus,
+  doctor_id: Opt(text), // Doctor handling the consultation
+  created_at: nat64,
+  assigned_at: Opt(nat64),
+  resolution: Opt(ConsultationResolution),
 });
 
-const Chat = Record({
+// How a department hands new consultations to its doctors
+const AssignmentStrategy = Variant({
+  Manual: Null, // Doctors claim consultations from the queue
+  RoundRobin: Null, // Doctors take turns in id order
+  LeastLoaded: Null, // The doctor with the fewest active consultations
+});
+
+const DepartmentRouting = Record({
+  strategy: AssignmentStrategy,
+  last_assigned_doctor_id: Opt(text),
+});
+
+// Thread of messages between a patient and a doctor
+const Conversation = Record({
   id: text,
   patient_id: text,
   doctor_id: text,
+  consultation_id: Opt(text),
+  appointment_id: Opt(text),
+  created_at: nat64,
+  last_message_at: Opt(nat64),
+  patient_unread_count: nat32,
+  doctor_unread_count: nat32,
+});
+
+// A single message of a conversation
+const Chat = Record({
+  id: text,
+  conversation_id: text,
+  sender: Principal,
+  from_doctor: bool,
   message: text,
-  timestamp: text,
+  timestamp: nat64, // Server time the message was sent
+  edited_at: Opt(nat64),
+  deleted: bool,
+  read_at: Opt(nat64), // Read receipt of the recipient
+});
+
+const ChatPage = Record({
+  items: Vec(Chat),
+  next_cursor: Opt(nat32),
+});
+
+const AppointmentStatus = Variant({
+  Scheduled: Null,
+  InProgress: Null,
+  Completed: Null,
+  Canceled: Null,
+  NoShow: Null,
 });
 
 const Appointment = Record({
@@ -84,917 +335,10072 @@ const Appointment = Record({
   patient_id: text,
   doctor_id: text,
   reason: text,
-  appointment_time: text,
-  status: text, // "scheduled", "canceled", "completed"
+  appointment_time: nat64, // Slot start in nanoseconds since epoch
+  end_time: nat64, // Slot end in nanoseconds since epoch
+  status: AppointmentStatus,
   video_link: Opt(text), // Optional link for video conferencing
+  paid: bool, // Set once a payment for the appointment is settled on the ledger
+});
+
+// Catalog entry used for allergy and interaction checks
+const Medication = Record({
+  id: text,
+  name: text,
+  active_ingredients: Vec(text),
+  contraindication_classes: Vec(text), // Drug classes, e.g. "Penicillins", "NSAIDs"
+});
+
+const InteractionSeverity = Variant({
+  Minor: Null,
+  Moderate: Null,
+  Major: Null, // Blocks a prescription unless overridden
+});
+
+const DrugInteraction = Record({
+  medication_id: text,
+  interacting_medication_id: text,
+  severity: InteractionSeverity,
+  description: text,
+});
+
+const AdministrationRoute = Variant({
+  Oral: Null,
+  Sublingual: Null,
+  Topical: Null,
+  Inhaled: Null,
+  Intravenous: Null,
+  Intramuscular: Null,
+  Subcutaneous: Null,
+  Rectal: Null,
+});
+
+const PrescriptionLine = Record({
+  medication_id: text,
+  dose_amount: float64,
+  dose_unit: text, // e.g. "mg", "ml"
+  route: AdministrationRoute,
+  frequency: text, // e.g. "every 8 hours"
+  duration_days: nat16,
+});
+
+const PrescriptionStatus = Variant({
+  Active: Null, // The current fill can be dispensed
+  PartiallyDispensed: Null, // Some lines of the current fill were dispensed
+  Dispensed: Null, // Every authorized fill was dispensed
+  Expired: Null,
+  Canceled: Null,
 });
 
 const Prescription = Record({
   id: text,
   patient_id: text,
   doctor_id: text,
-  medications: Vec(text), // List of medication names/dosages
+  lines: Vec(PrescriptionLine),
   instructions: text,
   issued_at: text, // Date of issuance
+  warnings: Vec(text), // Allergy and interaction findings at issue time
+  override_reason: Opt(text), // Why the doctor prescribed despite blocking findings
+  status: PrescriptionStatus,
+  expires_at: nat64,
+  fills_authorized: nat8, // Original fill plus approved refills
+  fills_completed: nat8,
+  current_fill_dispensed: Vec(text), // Medication ids dispensed in the current fill
+  cancel_reason: Opt(text),
 });
 
-const Payment = Record({
+// Medications a pharmacy handed out against a prescription
+const DispensingEvent = Record({
   id: text,
-  appointment_id: text,
-  patient_id: text,
-  amount: nat64,
-  status: text, //  "pending", "completed", "failed"
-  payment_method: text, // "credit_card", "paypal"
+  prescription_id: text,
+  fill_number: nat8,
+  medication_ids: Vec(text),
+  notes: text,
+  dispensed_by: Principal,
+  dispensed_at: nat64,
 });
 
-const MedicalRecord = Record({
-  patient_id: text,
-  consultation_notes: Vec(text),
-  prescriptions: Vec(Prescription),
-  lab_results: Vec(text), // Could be a more complex structure
-  immunizations: Vec(text),
+const RefillRequestStatus = Variant({
+  Pending: Null,
+  Approved: Null,
+  Denied: Null,
 });
 
-// Message Struct
-const Message = Variant({
-  Success: text,
-  Error: text,
-  NotFound: text,
-  InvalidPayload: text,
-  PaymentFailed: text,
-  PaymentCompleted: text,
+const RefillRequest = Record({
+  id: text,
+  prescription_id: text,
+  note: text,
+  requested_by: Principal,
+  requested_at: nat64,
+  status: RefillRequestStatus,
+  decided_at: Opt(nat64),
+  decision_note: Opt(text),
 });
 
-// Payloads
-const CreateDepartmentPayload = Record({
+const ServiceKind = Variant({
+  Consultation: Null,
+  FollowUp: Null,
+  VideoVisit: Null,
+  Procedure: Null,
+});
+
+// Priced entry of a department's fee schedule
+const Service = Record({
+  id: text,
+  department_id: text,
+  code: text, // Unique within the department; insurance coverage rules name it
   name: text,
+  kind: ServiceKind,
+  price: nat64, // Amount in e8s
+  tax_percent: nat8,
+  active: bool, // Inactive services cannot be invoiced
+});
+
+// Service prices are copied into the line, so later price changes leave
+// existing invoices alone
+const InvoiceLine = Record({
+  service_id: text,
+  code: text,
   description: text,
+  quantity: nat32,
+  unit_price: nat64,
+  discount: nat64,
+  tax: nat64, // Charged on the discounted amount
+  total: nat64,
 });
 
-const CreateDoctorPayload = Record({
-  name: text,
+const InvoiceStatus = Variant({
+  Draft: Null,
+  Issued: Null,
+  Paid: Null,
+  Void: Null,
+});
+
+const Invoice = Record({
+  id: text,
+  appointment_id: text,
+  patient_id: text,
   department_id: text,
-  image: text,
+  lines: Vec(InvoiceLine),
+  subtotal: nat64,
+  discount_total: nat64,
+  tax_total: nat64,
+  total: nat64, // Amount in e8s
+  status: InvoiceStatus,
+  created_at: nat64,
+  issued_at: Opt(nat64),
+  paid_at: Opt(nat64),
+  voided_at: Opt(nat64),
+  void_reason: Opt(text),
 });
 
-const CreatePatientPayload = Record({
+const PaymentStatus = Variant({
+  Pending: Null,
+  Completed: Null,
+  Failed: Null,
+  Refunded: Null,
+  PartiallyRefunded: Null,
+});
+
+const Payment = Record({
+  id: text,
+  appointment_id: text,
+  patient_id: text,
+  payer: Principal, // Owner of the patient profile, who sends the ledger transfer
+  amount: nat64, // Amount in e8s
+  refunded_amount: nat64, // Sum of the refunds sent back to the payer
+  status: PaymentStatus,
+  payment_method: text, // "icp"
+  memo: nat64, // Memo the ledger transfer must carry
+  refund_eligible: bool, // Set when the appointment is canceled in time
+  block: Opt(nat64), // Ledger block of the settling transfer
+  created_at: nat64,
+  paid_at: Opt(nat64),
+  claim_id: Opt(text), // Insurance claim covering the rest of the appointment cost
+  invoice_id: Opt(text), // None for payments made before itemized invoices
+});
+
+const Insurer = Record({
+  id: text,
   name: text,
-  age: nat64,
-  gender: text,
-  phone_number: text,
-  email: text,
-  address: text,
-  emergency_contact: Record({
-    name: text,
-    phone_number: text,
-    relationship: text,
-  }),
-  allergies: Vec(text),
-  current_medications: Vec(text),
-  medical_history: Vec(text),
+  contact: text,
 });
 
-const CreateConsultationPayload = Record({
+// Coverage of the services matching the rule; a rule naming a service beats one
+// naming only a department
+const CoverageRule = Record({
+  department_id: Opt(text), // Any department when none
+  service_code: Opt(text), // Any service when none
+  percent: nat8,
+});
+
+// Deductible and annual cap apply per calendar year, in e8s
+const InsurancePolicy = Record({
+  id: text,
   patient_id: text,
-  problem: text,
-  department_id: text,
+  insurer_id: text,
+  member_id: text,
+  coverage: Vec(CoverageRule),
+  default_percent: nat8, // Coverage of services no rule matches
+  deductible: nat64,
+  annual_cap: nat64, // Most the insurer pays in a year
+  expires_at: nat64,
+  created_at: nat64,
 });
 
-const CreateChatPayload = Record({
+// How a bill splits between the insurer and the patient
+const CostEstimate = Record({
+  billed_amount: nat64,
+  policy_id: Opt(text), // None when the patient has no active policy
+  coverage_percent: nat8,
+  deductible_applied: nat64,
+  covered_amount: nat64,
+  patient_amount: nat64,
+  deductible_remaining: nat64, // Left for the year after this bill
+  cap_remaining: nat64,
+});
+
+const ClaimStatus = Variant({
+  Submitted: Null,
+  Approved: Null,
+  PartiallyApproved: Null,
+  Denied: Null,
+});
+
+const InsuranceClaim = Record({
+  id: text,
+  policy_id: text,
   patient_id: text,
-  doctor_id: text,
-  message: text,
-  timestamp: text,
+  appointment_id: text,
+  invoice_id: Opt(text), // None for claims made before itemized invoices
+  service_code: Opt(text),
+  service_date: nat64, // Appointment time; sets the year the claim counts towards
+  billed_amount: nat64,
+  estimate: CostEstimate, // Split when the claim was submitted
+  status: ClaimStatus,
+  approved_amount: Opt(nat64), // Amount the insurer pays once decided
+  submitted_at: nat64,
+  decided_at: Opt(nat64),
+  decision_note: Opt(text),
 });
 
-const CreateAppointmentPayload = Record({
+// Parts of a patient's data a consent grant opens up
+const ConsentScope = Variant({
+  Demographics: Null, // Patient profile without clinical lists
+  Medications: Null, // Allergies, current medications and prescriptions
+  Labs: Null, // Lab results
+  FullRecord: Null, // Everything, including clinical notes and immunizations
+});
+
+const ConsentGrantee = Variant({
+  Doctor: text, // Doctor id
+  Department: text, // Department id; covers every doctor of the department
+});
+
+const ConsentGrant = Record({
+  id: text,
+  patient_id: text,
+  grantee: ConsentGrantee,
+  scopes: Vec(ConsentScope),
+  granted_at: nat64,
+  expires_at: nat64,
+  revoked_at: Opt(nat64),
+});
+
+// Emergency access to a patient's full record, granted without consent
+const BreakGlassAccess = Record({
+  id: text,
   patient_id: text,
   doctor_id: text,
+  accessed_by: Principal,
   reason: text,
-  appointment_time: text,
+  granted_at: nat64,
+  expires_at: nat64,
 });
 
-const CreatePrescriptionPayload = Record({
-  patient_id: text,
+// One status change of an appointment; reschedules keep the Scheduled status
+const AppointmentTransition = Record({
+  from: AppointmentStatus,
+  to: AppointmentStatus,
+  changed_by: Principal,
+  changed_at: nat64,
+  reason: text,
+});
+
+// Weekly working hours in UTC, e.g. Monday 09:00-17:00
+const WorkingHours = Record({
+  day_of_week: nat8, // 0 = Sunday ... 6 = Saturday
+  start_minute: nat16, // Minutes since midnight
+  end_minute: nat16,
+});
+
+const TimeOff = Record({
+  id: text,
+  start_time: nat64,
+  end_time: nat64,
+  reason: text,
+});
+
+const DoctorSchedule = Record({
   doctor_id: text,
-  medications: Vec(text),
-  instructions: text,
+  slot_duration_minutes: nat16,
+  working_hours: Vec(WorkingHours),
+  time_off: Vec(TimeOff),
 });
 
-const CreatePaymentPayload = Record({
-  patient_id: text,
-  appointment_id: text,
+const TimeSlot = Record({
+  start_time: nat64,
+  end_time: nat64,
+});
+
+// Returned by initiatePayment: where and how to send the ledger transfer
+const PaymentReservation = Record({
+  payment_id: text,
   amount: nat64,
-  payment_method: text,
+  memo: nat64,
+  clinic_address: text,
+  expires_at: nat64,
 });
 
-// Storage
-const Departments = StableBTreeMap(0, text, Department);
-const Doctors = StableBTreeMap(1, text, Doctor);
-const Patients = StableBTreeMap(2, text, Patient);
-const Consultations = StableBTreeMap(3, text, Consultation);
-const Chats = StableBTreeMap(4, text, Chat);
-const Appointments = StableBTreeMap(5, text, Appointment);
-const Prescriptions = StableBTreeMap(6, text, Prescription);
-const Payments = StableBTreeMap(7, text, Payment);
-const MedicalRecords = StableBTreeMap(8, text, MedicalRecord);
+const RefundStatus = Variant({
+  Requested: Null,
+  Processing: Null, // Ledger transfer in flight
+  Refunded: Null,
+  Rejected: Null,
+});
 
-export default Canister({
-  // FUnction to create a Department
-  createDepartment: update(
-    [CreateDepartmentPayload],
-    Result(Department, Message),
-    (payload) => {
-      // Validate the payload
-      if (!payload.name) {
-        return Err({ InvalidPayload: "Missing required fields" });
-      }
+const Refund = Record({
+  id: text,
+  payment_id: text,
+  patient_id: text,
+  amount: nat64, // Amount in e8s; the clinic pays the ledger fee
+  reason: text,
+  memo: nat64, // Memo of the ledger transfer back to the payer
+  status: RefundStatus,
+  requested_by: Principal,
+  requested_at: nat64,
+  reviewed_by: Opt(Principal),
+  reviewed_at: Opt(nat64),
+  review_note: Opt(text),
+  block: Opt(nat64), // Ledger block of the refund transfer
+});
 
-      // Ensure that the department name is unique
-      const existingDepartments = Departments.values();
+const MismatchKind = Variant({
+  AmountMismatch: Null, // Ledger amount differs from the recorded one
+  UnrecordedTransfer: Null, // Transfer for a payment or refund not marked settled
+  DuplicateTransfer: Null, // Another transfer for an already settled entry
+  MissingTransfer: Null, // Settled entry whose block holds no such transfer
+  UnknownTransfer: Null, // Clinic transfer with no payment or refund memo
+});
 
-      for (const department of existingDepartments) {
-        if (department.name === payload.name) {
-          return Err({ InvalidPayload: "Department name must be unique" });
-        }
-      }
+const PaymentMismatch = Record({
+  kind: MismatchKind,
+  block: Opt(nat64),
+  payment_id: Opt(text),
+  refund_id: Opt(text),
+  recorded_amount: Opt(nat64),
+  ledger_amount: Opt(nat64),
+});
 
-      // Assuming validation passes, proceed to create the department
-      const departmentId = uuidv4();
-      const department = {
-        id: departmentId,
-        ...payload,
-      };
+const ReconciliationReport = Record({
+  first_block: nat64,
+  block_count: nat64, // Blocks checked
+  archived_blocks: nat64, // Blocks of the range held by archive canisters, not checked
+  matched: nat32,
+  mismatches: Vec(PaymentMismatch),
+});
 
-      Departments.insert(departmentId, department);
-      return Ok(department); // Successfully return the created department
-    }
-  ),
+// Medical record entries are append-only; a correction is a new entry whose
+// `amends` field points at the entry it replaces
+const ClinicalNote = Record({
+  id: text,
+  author_doctor_id: text,
+  encounter_id: Opt(text), // Consultation or appointment the note belongs to
+  note: text,
+  amends: Opt(text),
+  recorded_at: nat64,
+});
 
-  // Function to get a Department by ID
-  getDepartmentById: query(
-    [text],
-    Result(Department, Message),
-    (departmentId) => {
-      const departmentOpt = Departments.get(departmentId);
+const ReferenceRange = Record({
+  low: Opt(float64),
+  high: Opt(float64),
+});
 
-      if ("None" in departmentOpt) {
-        return Err({
-          NotFound: `Department with id=${departmentId} not found`,
-        });
-      }
+const LabResult = Record({
+  id: text,
+  test_code: text, // e.g. LOINC code
+  test_name: text,
+  value: float64,
+  unit: text,
+  reference_range: ReferenceRange,
+  collected_at: nat64,
+  amends: Opt(text),
+  recorded_by: Principal,
+  recorded_at: nat64,
+});
 
-      return Ok(departmentOpt.Some);
-    }
-  ),
+const Immunization = Record({
+  id: text,
+  vaccine: text,
+  dose_number: nat8,
+  administered_at: nat64,
+  amends: Opt(text),
+  recorded_by: Principal,
+  recorded_at: nat64,
+});
 
-  // Function to get all Departments
-  getAllDepartments: query([], Result(Vec(Department), Message), () => {
-    const departments = Departments.values();
+const MedicalRecord = Record({
+  patient_id: text,
+  clinical_notes: Vec(ClinicalNote),
+  prescriptions: Vec(Prescription),
+  lab_results: Vec(LabResult),
+  immunizations: Vec(Immunization),
+});
 
-    if (departments.length === 0) {
-      return Err({ NotFound: "No departments found" });
-    }
+const MassUnit = Variant({
+  Kg: Null,
+  G: Null,
+  Lb: Null,
+});
 
-    return Ok(departments);
-  }),
+const LengthUnit = Variant({
+  Cm: Null,
+  M: Null,
+  In: Null,
+});
 
-  // Create a Doctor
-  createDoctor: update(
-    [CreateDoctorPayload],
-    Result(Doctor, Message),
-    (payload) => {
-      // Validate the payload
-      if (!payload.name || !payload.department_id || !payload.image) {
-        return Err({ InvalidPayload: "Missing required fields" });
-      }
+const CreatinineUnit = Variant({
+  MgPerDl: Null,
+  UmolPerL: Null,
+});
 
-      // Validate the department
-      const departmentOpt = Departments.get(payload.department_id);
+const Mass = Record({
+  value: float64,
+  unit: MassUnit,
+});
 
-      if ("None" in departmentOpt) {
-        return Err({
-          InvalidPayload: `Department with id=${payload.department_id} not found`,
-        });
-      }
+const Length = Record({
+  value: float64,
+  unit: LengthUnit,
+});
 
-      // Assuming validation passes, proceed to create the doctor profile
-      const doctorId = uuidv4();
-      const doctor = {
-        id: doctorId,
-        ...payload,
-        owner: ic.caller(),
-      };
+const SerumCreatinine = Record({
+  value: float64,
+  unit: CreatinineUnit,
+});
 
-      Doctors.insert(doctorId, doctor);
-      return Ok(doctor); // Successfully return the created doctor profile
-    }
-  ),
+// Sex the kidney function equations were fitted for
+const Sex = Variant({
+  Female: Null,
+  Male: Null,
+});
 
-  // Function to get a Doctor by ID
-  getDoctorById: query([text], Result(Doctor, Message), (doctorId) => {
-    const doctorOpt = Doctors.get(doctorId);
+const BloodPressureCategory = Variant({
+  Normal: Null,
+  Elevated: Null,
+  Hypertension1: Null,
+  Hypertension2: Null,
+  HypertensiveCrisis: Null,
+});
 
-    if ("None" in doctorOpt) {
-      return Err({
-        NotFound: `Doctor with id=${doctorId} not found`,
-      });
-    }
+const BmiResult = Record({
+  bmi: float64, // kg/m²
+  category: text,
+});
 
-    return Ok(doctorOpt.Some);
-  }),
+const KidneyFunctionResult = Record({
+  egfr: float64, // mL/min/1.73 m²
+  stage: text, // KDIGO GFR category, e.g. "G3a"
+  creatinine_clearance: Opt(float64), // mL/min; needs the weight
+});
 
-  // Function to get a Doctor Profile by Owner Principal using filter
-  getDoctorByOwner: query([], Result(Doctor, Message), () => {
-    const doctorProfiles = Doctors.values().filter((doctor) => {
-      return doctor.owner.toText() === ic.caller().toText();
-    });
+const DosageResult = Record({
+  single_dose: float64,
+  daily_dose: float64,
+  dose_unit: text,
+  capped: bool, // Set when a ceiling lowered the weight-based dose
+});
 
-    if (doctorProfiles.length === 0) {
-      return Err({
-        NotFound: `Doctor profile for owner=${ic.caller()} not found`,
-      });
-    }
+const HealthRiskResult = Record({
+  score: float64,
+  level: text,
+});
 
-    return Ok(doctorProfiles[0]);
+const VitalKind = Variant({
+  Weight: Null, // kg
+  Height: Null, // cm
+  Bmi: Null, // kg/m²
+  BodySurfaceArea: Null, // m²
+  SystolicPressure: Null, // mmHg
+  DiastolicPressure: Null, // mmHg
+  Creatinine: Null, // mg/dL
+  Egfr: Null, // mL/min/1.73 m²
+});
+
+// Measurements are stored in the canonical unit of their kind
+const Vital = Record({
+  id: text,
+  patient_id: text,
+  kind: VitalKind,
+  value: float64,
+  unit: text,
+  measured_at: nat64,
+  recorded_by: Principal,
+  recorded_at: nat64,
+});
+
+const VitalTrend = Record({
+  kind: VitalKind,
+  unit: text,
+  readings: Vec(Vital), // Oldest first
+  latest: Opt(float64),
+  change: Opt(float64), // Latest reading less the first one of the range
+});
+
+const AuditOutcome = Variant({
+  Success: Null,
+  Denied: Null, // Rejected with Unauthorized
+  Failed: Null, // Rejected with any other error
+});
+
+// Entries are hash-chained: each hash covers the entry and the previous hash
+const AuditEntry = Record({
+  sequence: nat64,
+  caller: Principal,
+  method: text,
+  target_ids: Vec(text),
+  outcome: AuditOutcome,
+  timestamp: nat64,
+  previous_hash: text,
+  hash: text,
+});
+
+const AuditPage = Record({
+  items: Vec(AuditEntry),
+  next_cursor: Opt(nat64),
+});
+
+const AuditChainReport = Record({
+  checked: nat64,
+  valid: bool,
+  first_invalid_sequence: Opt(nat64),
+  head_hash: text,
+});
+
+// One field that differs between two versions, with both values as JSON text
+const FieldChange = Record({
+  field: text, // e.g. "allergies" or "lab_results[<entry id>]"
+  before: text,
+  after: text,
+});
+
+const PatientVersion = Record({
+  version: nat32,
+  change: text, // Method that made the change, e.g. "updatePatient"
+  changed_by: Principal,
+  changed_at: nat64,
+  diffs: Vec(FieldChange),
+  snapshot: Patient,
+});
+
+const MedicalRecordVersion = Record({
+  version: nat32,
+  change: text,
+  changed_by: Principal,
+  changed_at: nat64,
+  diffs: Vec(FieldChange),
+  snapshot: MedicalRecord,
+});
+
+const PatientHistory = Record({
+  profile: Vec(PatientVersion),
+  medical_record: Vec(MedicalRecordVersion),
+});
+
+// What was recorded about a patient at a point in time
+const PatientSnapshot = Record({
+  patient: Patient,
+  medical_record: Opt(MedicalRecord),
+});
+
+// Clinical data of a deleted patient, kept until the end of the retention
+// period the current policy sets from archived_at
+const PatientArchive = Record({
+  patient_id: text,
+  medical_record: Opt(MedicalRecord),
+  consultations: Vec(Consultation),
+  appointments: Vec(Appointment),
+  prescriptions: Vec(Prescription),
+  payments: Vec(Payment),
+  conversations: Vec(Conversation),
+  chats: Vec(Chat),
+  archived_at: nat64,
+  archived_by: Principal,
+  anonymized_at: Opt(nat64), // Set once personal details were stripped
+});
+
+// What the retention sweep does with patient data past its retention period
+const RetentionAction = Variant({
+  Purge: Null, // Delete the profile and the archived clinical data
+  Anonymize: Null, // Strip personal details and messages, keep clinical data
+});
+
+const RetentionPolicy = Record({
+  retention_days: nat32, // Days archived data is kept after deletion
+  action: RetentionAction,
+});
+
+const NotificationKind = Variant({
+  AppointmentReminder: Null,
+  PrescriptionExpiring: Null,
+  PaymentDue: Null, // Unpaid upcoming appointment or payment awaiting its transfer
+  NewMessage: Null,
+});
+
+// An entry of a principal's inbox
+const Notification = Record({
+  id: text,
+  recipient: Principal,
+  kind: NotificationKind,
+  subject_id: text, // Appointment, prescription, payment or conversation id
+  message: text,
+  created_at: nat64,
+  read_at: Opt(nat64),
+});
+
+// Which notifications a principal receives; appointment reminders are sent the
+// given numbers of minutes before the appointment
+const NotificationPreferences = Record({
+  appointment_reminders: bool,
+  reminder_offsets_minutes: Vec(nat32),
+  prescription_notices: bool,
+  payment_notices: bool,
+  message_notices: bool,
+});
+
+// A migration step the stored data has not gone through yet
+const PendingMigration = Record({
+  version: nat32,
+  description: text,
+  records: nat32, // Records the step would rewrite
+});
+
+const MigrationReport = Record({
+  schema_version: nat32, // Version the stored data is at
+  target_version: nat32, // Version this canister code expects
+  pending: Vec(PendingMigration),
+});
+
+// List queries return a page of items and the cursor of the next page
+const DepartmentPage = Record({
+  items: Vec(Department),
+  next_cursor: Opt(text),
+});
+
+const DoctorPage = Record({
+  items: Vec(Doctor),
+  next_cursor: Opt(text),
+});
+
+const PatientPage = Record({
+  items: Vec(Patient),
+  next_cursor: Opt(text),
+});
+
+const ConsultationPage = Record({
+  items: Vec(Consultation),
+  next_cursor: Opt(text),
+});
+
+const AppointmentPage = Record({
+  items: Vec(Appointment),
+  next_cursor: Opt(text),
+});
+
+const PaymentPage = Record({
+  items: Vec(Payment),
+  next_cursor: Opt(text),
+});
+
+// Ids of the records an import chunk created, in row order
+const ImportResult = Record({
+  ids: Vec(text),
+});
+
+const ExportChunk = Record({
+  data: text,
+  next_cursor: Opt(text), // cursor of the next chunk, none on the last one
+});
+
+// Roles a principal can hold; a principal may hold several at once
+const Role = Variant({
+  Admin: Null,
+  Doctor: Null,
+  Patient: Null,
+  Staff: Null,
+  Pharmacy: Null,
+});
+
+// A payload field that failed validation and why
+const FieldError = Record({
+  field: text, // Path of the field, e.g. "emergency_contact.phone_number"
+  reason: text,
+});
+
+// A row of an import chunk that failed validation, numbered from 1
+const RowError = Record({
+  row: nat32,
+  errors: Vec(FieldError),
+});
+
+// Message Struct
+const Message = Variant({
+  Success: text,
+  Error: text,
+  NotFound: text,
+  InvalidPayload: text,
+  PaymentFailed: text,
+  PaymentCompleted: text,
+  Unauthorized: text,
+  SafetyCheckFailed: text,
+  Conflict: text, // The entity is still referenced and cannot be deleted
+  InvalidFields: Vec(FieldError),
+  InvalidRows: Vec(RowError), // Nothing of the import chunk was stored
+});
+
+// Payloads
+const SortOrder = Variant({
+  Ascending: Null,
+  Descending: Null,
+});
+
+// Matches items whose field equals the value, e.g. { field: "status", value: "Scheduled" }
+const PageFilter = Record({
+  field: text,
+  value: text,
+});
+
+const PageRequest = Record({
+  cursor: Opt(text), // next_cursor of the previous page
+  limit: nat32,
+  sort: SortOrder, // Order of the item ids
+  filters: Vec(PageFilter), // Every filter must match
+});
+
+// Csv has a header row; Json is a FHIR-style Bundle of resources
+const DataFormat = Variant({
+  Csv: Null,
+  Json: Null,
+});
+
+const ImportChunk = Record({
+  format: DataFormat,
+  data: text,
+});
+
+const ExportRequest = Record({
+  format: DataFormat,
+  cursor: Opt(text), // next_cursor of the previous chunk
+  limit: nat32, // Records per chunk, at most 100
+});
+
+const CreateDepartmentPayload = Record({
+  name: text,
+  description: text,
+});
+
+const CreateDoctorPayload = Record({
+  name: text,
+  department_id: text,
+  image: text,
+});
+
+const CreatePatientPayload = Record({
+  name: text,
+  age: nat64,
+  gender: text,
+  phone_number: text,
+  email: text,
+  address: text,
+  emergency_contact: EmergencyContact,
+  allergies: Vec(text),
+  current_medications: Vec(text),
+  medical_history: Vec(text),
+});
+
+// Items to add to and remove from a list field
+const ListPatch = Record({
+  add: Vec(text),
+  remove: Vec(text),
+});
+
+// Only the fields that are Some change; expected_version must match the stored version
+const UpdatePatientPayload = Record({
+  expected_version: nat32,
+  name: Opt(text),
+  age: Opt(nat64),
+  gender: Opt(text),
+  phone_number: Opt(text),
+  email: Opt(text),
+  address: Opt(text),
+  emergency_contact: Opt(EmergencyContact),
+  allergies: Opt(ListPatch),
+  current_medications: Opt(ListPatch),
+  medical_history: Opt(ListPatch),
+});
+
+const UpdateDoctorPayload = Record({
+  expected_version: nat32,
+  name: Opt(text),
+  department_id: Opt(text),
+  image: Opt(text),
+});
+
+const CreateConsultationPayload = Record({
+  patient_id: text,
+  problem: text,
+  department_id: text,
+  urgency: Urgency,
+});
+
+// Each optional part produces a record linked from the resolution
+const ResolveConsultationPayload = Record({
+  summary: text,
+  follow_up_time: Opt(nat64), // Start of one of the doctor's open slots
+  prescription_id: Opt(text), // Prescription the doctor issued for the patient
+  clinical_note: Opt(text),
+});
+
+const CreateClinicalNotePayload = Record({
+  encounter_id: Opt(text),
+  note: text,
+  amends: Opt(text),
+});
+
+const CreateLabResultPayload = Record({
+  test_code: text,
+  test_name: text,
+  value: float64,
+  unit: text,
+  reference_range: ReferenceRange,
+  collected_at: nat64,
+  amends: Opt(text),
+});
+
+const CreateImmunizationPayload = Record({
+  vaccine: text,
+  dose_number: nat8,
+  administered_at: nat64,
+  amends: Opt(text),
+});
+
+const CreateConsentPayload = Record({
+  grantee: ConsentGrantee,
+  scopes: Vec(ConsentScope),
+  expires_at: nat64,
+});
+
+const CreateConversationPayload = Record({
+  patient_id: text,
+  doctor_id: text,
+  consultation_id: Opt(text),
+  appointment_id: Opt(text),
+});
+
+const CreateChatPayload = Record({
+  conversation_id: text,
+  message: text,
+});
+
+const CreateAppointmentPayload = Record({
+  patient_id: text,
+  doctor_id: text,
+  reason: text,
+  appointment_time: nat64, // Start of one of the slots from getAvailableSlots
+});
+
+const SetDoctorSchedulePayload = Record({
+  slot_duration_minutes: nat16,
+  working_hours: Vec(WorkingHours),
+});
+
+const CreateTimeOffPayload = Record({
+  start_time: nat64,
+  end_time: nat64,
+  reason: text,
+});
+
+const DateRange = Record({
+  start_time: nat64,
+  end_time: nat64,
+});
+
+const CreatePrescriptionPayload = Record({
+  patient_id: text,
+  doctor_id: text,
+  lines: Vec(PrescriptionLine),
+  instructions: text,
+  override_reason: Opt(text),
+  refills: nat8, // Fills allowed after the original one
+  valid_days: nat16, // Days until the prescription expires
+});
+
+const CreateDispensingPayload = Record({
+  medication_ids: Vec(text),
+  notes: text,
+});
+
+const CreateMedicationPayload = Record({
+  name: text,
+  active_ingredients: Vec(text),
+  contraindication_classes: Vec(text),
+});
+
+// Payments add up to the invoice total less what insurance pays
+const CreatePaymentPayload = Record({
+  invoice_id: text,
+  amount: Opt(nat64), // Part of the balance; the whole balance when none
+  payment_method: text,
+});
+
+const RequestRefundPayload = Record({
+  amount: nat64,
+  reason: text,
+});
+
+const ReviewRefundPayload = Record({
+  approve: bool,
+  note: text,
+});
+
+const CreateServicePayload = Record({
+  department_id: text,
+  code: text,
+  name: text,
+  kind: ServiceKind,
+  price: nat64,
+  tax_percent: nat8,
+  active: bool,
+});
+
+const InvoiceLinePayload = Record({
+  service_id: text,
+  quantity: nat32,
+  discount_percent: nat8,
+});
+
+const CreateInsurerPayload = Record({
+  name: text,
+  contact: text,
+});
+
+const CreateInsurancePolicyPayload = Record({
+  patient_id: text,
+  insurer_id: text,
+  member_id: text,
+  coverage: Vec(CoverageRule),
+  default_percent: nat8,
+  deductible: nat64,
+  annual_cap: nat64,
+  expires_at: nat64,
+});
+
+const EstimateCostPayload = Record({
+  patient_id: text,
+  department_id: text,
+  service_code: Opt(text),
+  billed_amount: nat64,
+});
+
+// The claim bills the invoice total under the code of its first line
+const SubmitClaimPayload = Record({
+  invoice_id: text,
+});
+
+// The insurer's answer; a partial approval carries the amount it pays
+const ClaimDecision = Variant({
+  Approved: Null,
+  PartiallyApproved: nat64,
+  Denied: Null,
+});
+
+const ReviewClaimPayload = Record({
+  decision: ClaimDecision,
+  note: text,
+});
+
+const KidneyFunctionPayload = Record({
+  creatinine: SerumCreatinine,
+  age: float64, // Years
+  sex: Sex,
+  weight: Opt(Mass), // Needed for the creatinine clearance
+});
+
+// Weight-based dosing with optional ceilings, e.g. for pediatric doses
+const DosagePayload = Record({
+  weight: Mass,
+  dose_per_kg: float64,
+  dose_unit: text, // Unit of the dose and the ceilings, e.g. "mg"
+  doses_per_day: nat8,
+  max_single_dose: Opt(float64),
+  max_daily_dose: Opt(float64),
+});
+
+const HealthRiskPayload = Record({
+  age: float64, // Years
+  bmi: float64,
+  systolic: float64, // mmHg
+});
+
+// Derived vitals (BMI, body surface area, eGFR) are recorded along with the
+// measurements they are computed from
+const RecordVitalsPayload = Record({
+  measured_at: nat64,
+  weight: Opt(Mass),
+  height: Opt(Length),
+  systolic: Opt(float64), // mmHg
+  diastolic: Opt(float64), // mmHg
+  creatinine: Opt(SerumCreatinine),
+});
+
+const VitalTrendRequest = Record({
+  kind: VitalKind,
+  from: Opt(nat64),
+  to: Opt(nat64),
+});
+
+// Storage
+const Departments = StableBTreeMap<text, typeof Department.tsType>(
+  0,
+  text,
+  Department
+);
+const Doctors = StableBTreeMap<text, typeof Doctor.tsType>(1, text, Doctor);
+const Patients = StableBTreeMap<text, typeof Patient.tsType>(2, text, Patient);
+const Consultations = StableBTreeMap<text, typeof Consultation.tsType>(
+  3,
+  text,
+  Consultation
+);
+const Chats = StableBTreeMap<text, typeof Chat.tsType>(4, text, Chat);
+const Appointments = StableBTreeMap<text, typeof Appointment.tsType>(
+  5,
+  text,
+  Appointment
+);
+const Prescriptions = StableBTreeMap<text, typeof Prescription.tsType>(
+  6,
+  text,
+  Prescription
+);
+const Payments = StableBTreeMap<text, typeof Payment.tsType>(7, text, Payment);
+const MedicalRecords = StableBTreeMap<text, typeof MedicalRecord.tsType>(
+  8,
+  text,
+  MedicalRecord
+);
+const UserRoles = StableBTreeMap(9, Principal, Vec(Role));
+const SettledBlocks = StableBTreeMap(10, nat64, text); // ledger block -> payment id
+const DoctorSchedules = StableBTreeMap<text, typeof DoctorSchedule.tsType>(
+  11,
+  text,
+  DoctorSchedule
+); // doctor id -> schedule
+const AppointmentHistory = StableBTreeMap(12, text, Vec(AppointmentTransition)); // appointment id -> transitions
+const Conversations = StableBTreeMap<text, typeof Conversation.tsType>(
+  13,
+  text,
+  Conversation
+);
+const ConversationMessages = StableBTreeMap(14, text, Vec(text)); // conversation id -> chat ids in send order
+const ConsentGrants = StableBTreeMap<text, typeof ConsentGrant.tsType>(
+  15,
+  text,
+  ConsentGrant
+);
+const BreakGlassLog = StableBTreeMap<text, typeof BreakGlassAccess.tsType>(
+  16,
+  text,
+  BreakGlassAccess
+);
+const AuditLog = StableBTreeMap(17, nat64, AuditEntry); // sequence -> entry
+const PatientAccessLog = StableBTreeMap(18, text, Vec(nat64)); // patient id -> audit sequences
+const Medications = StableBTreeMap<text, typeof Medication.tsType>(
+  19,
+  text,
+  Medication
+);
+const DrugInteractions = StableBTreeMap<text, typeof DrugInteraction.tsType>(
+  20,
+  text,
+  DrugInteraction
+); // interaction key -> interaction
+const Dispensings = StableBTreeMap<text, typeof DispensingEvent.tsType>(
+  21,
+  text,
+  DispensingEvent
+);
+const RefillRequests = StableBTreeMap<text, typeof RefillRequest.tsType>(
+  22,
+  text,
+  RefillRequest
+);
+
+// Secondary indexes, kept in sync with the maps above
+const DoctorsByOwner = StableBTreeMap(23, Principal, text); // owner -> doctor id
+const PatientsByOwner = StableBTreeMap(24, Principal, text); // owner -> patient id
+const DoctorsByDepartment = StableBTreeMap(25, text, Vec(text)); // department id -> doctor ids
+const ConsultationsByPatient = StableBTreeMap(26, text, Vec(text)); // patient id -> consultation ids
+const AppointmentsByPatient = StableBTreeMap(27, text, Vec(text)); // patient id -> appointment ids
+const PrescriptionsByPatient = StableBTreeMap(28, text, Vec(text)); // patient id -> prescription ids
+const PaymentsByPatient = StableBTreeMap(29, text, Vec(text)); // patient id -> payment ids
+const PatientArchives = StableBTreeMap<text, typeof PatientArchive.tsType>(
+  30,
+  text,
+  PatientArchive
+); // patient id -> archive
+const RetentionPolicyStore = StableBTreeMap(31, nat8, RetentionPolicy); // single entry at key 0
+const PatientVersionHeads = StableBTreeMap(32, text, nat32); // patient id -> latest recorded version
+const MedicalRecordVersionHeads = StableBTreeMap(33, text, nat32); // patient id -> latest recorded version
+const ConsultationQueues = StableBTreeMap(34, text, Vec(text)); // department id -> open consultation ids
+const ConsultationsByDoctor = StableBTreeMap(35, text, Vec(text)); // doctor id -> assigned consultation ids
+const DepartmentRoutings = StableBTreeMap<
+  text,
+  typeof DepartmentRouting.tsType
+>(36, text, DepartmentRouting); // department id -> routing
+const SchemaVersionStore = StableBTreeMap(37, nat8, nat32); // single entry at key 0
+const Notifications = StableBTreeMap<text, typeof Notification.tsType>(
+  38,
+  text,
+  Notification
+);
+const NotificationsByRecipient = StableBTreeMap(39, text, Vec(text)); // principal text -> notification ids, oldest first
+const NotificationPreferencesStore = StableBTreeMap(
+  40,
+  Principal,
+  NotificationPreferences
+);
+const SentNotices = StableBTreeMap(41, text, nat64); // notice key -> time after which it is forgotten
+const Insurers = StableBTreeMap<text, typeof Insurer.tsType>(42, text, Insurer);
+const InsurancePolicies = StableBTreeMap<text, typeof InsurancePolicy.tsType>(
+  43,
+  text,
+  InsurancePolicy
+);
+const InsuranceClaims = StableBTreeMap<text, typeof InsuranceClaim.tsType>(
+  44,
+  text,
+  InsuranceClaim
+);
+const PoliciesByPatient = StableBTreeMap(45, text, Vec(text)); // patient id -> policy ids
+const ClaimsByPatient = StableBTreeMap(46, text, Vec(text)); // patient id -> claim ids
+const Services = StableBTreeMap<text, typeof Service.tsType>(47, text, Service);
+const Invoices = StableBTreeMap<text, typeof Invoice.tsType>(48, text, Invoice);
+const InvoicesByPatient = StableBTreeMap(49, text, Vec(text)); // patient id -> invoice ids
+const Refunds = StableBTreeMap<text, typeof Refund.tsType>(50, text, Refund);
+const RefundsByPatient = StableBTreeMap(51, text, Vec(text)); // patient id -> refund ids
+const Vitals = StableBTreeMap<text, typeof Vital.tsType>(52, text, Vital);
+const VitalsByPatient = StableBTreeMap(53, text, Vec(text)); // patient id -> vital ids
+const AppointmentsByDoctor = StableBTreeMap(54, text, Vec(text)); // doctor id -> appointment ids
+const PatientVersions = StableBTreeMap<
+  [text, nat32],
+  typeof PatientVersion.tsType
+>(55, Tuple(text, nat32), PatientVersion); // (patient id, version) -> version
+const MedicalRecordVersions = StableBTreeMap<
+  [text, nat32],
+  typeof MedicalRecordVersion.tsType
+>(56, Tuple(text, nat32), MedicalRecordVersion); // (patient id, version) -> version
+const NoticeSchedule = StableBTreeMap(57, text, Vec(text)); // due time as 20 digits -> "<kind>:<subject>" entries
+const ConversationsByPatient = StableBTreeMap(58, text, Vec(text)); // patient id -> conversation ids
+const ConversationsByDoctor = StableBTreeMap(59, text, Vec(text)); // doctor id -> conversation ids
+const PrescriptionsByDoctor = StableBTreeMap(60, text, Vec(text)); // doctor id -> prescription ids
+const DispensingsByPrescription = StableBTreeMap(61, text, Vec(text)); // prescription id -> dispensing ids
+const RefillRequestsByPrescription = StableBTreeMap(62, text, Vec(text)); // prescription id -> refill request ids
+const ConsultationsByDepartment = StableBTreeMap(63, text, Vec(text)); // department id -> consultation ids
+const ServicesByDepartment = StableBTreeMap(64, text, Vec(text)); // department id -> service ids
+const ConsentGrantsByPatient = StableBTreeMap(65, text, Vec(text)); // patient id -> consent grant ids
+
+// Ledger canister deployed by deploy-local-ledger.sh (and on mainnet)
+const icpCanister = Ledger(Principal.fromText("ryjl3-tyaaa-aaaaa-aaaba-cai"));
+
+// Longest range getAvailableSlots computes in a single call
+const MAX_SLOT_RANGE = 31n * NANOS_PER_DAY;
+
+const AppointmentStatuses: {
+  [name in AppointmentStatusName]: typeof AppointmentStatus.tsType;
+} = {
+  Scheduled: { Scheduled: null },
+  InProgress: { InProgress: null },
+  Completed: { Completed: null },
+  Canceled: { Canceled: null },
+  NoShow: { NoShow: null },
+};
+
+const ConsultationStatuses: {
+  [name in ConsultationStatusName]: typeof ConsultationStatus.tsType;
+} = {
+  Open: { Open: null },
+  Assigned: { Assigned: null },
+  InProgress: { InProgress: null },
+  Resolved: { Resolved: null },
+};
+
+const DEFAULT_DEPARTMENT_ROUTING: typeof DepartmentRouting.tsType = {
+  strategy: { Manual: null },
+  last_assigned_doctor_id: None,
+};
+
+// How long after sending a message can still be edited or deleted
+const CHAT_EDIT_WINDOW = 15n * NANOS_PER_MINUTE;
+const CHAT_DELETE_WINDOW = 60n * NANOS_PER_MINUTE;
+
+const MAX_CHAT_PAGE_SIZE = 100;
+
+// Applied until an admin sets a retention policy
+const DEFAULT_RETENTION_POLICY: typeof RetentionPolicy.tsType = {
+  retention_days: 3_650,
+  action: { Anonymize: null },
+};
+
+// Storage migrations in the order they run; data stored before the schema
+// version was tracked is at version 0
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Doctors: add availability, soft delete and version fields",
+    memoryId: 1,
+    from: DoctorV0,
+    to: Doctor,
+    upgrade: upgradeDoctorV0,
+  },
+  {
+    version: 2,
+    description: "Patients: add soft delete and version fields",
+    memoryId: 2,
+    from: PatientV0,
+    to: Patient,
+    upgrade: upgradePatientV0,
+    finish: recordPatientBaselines,
+  },
+  {
+    version: 3,
+    description:
+      "Consultations: open in the department queue at medium urgency",
+    memoryId: 3,
+    from: ConsultationV0,
+    to: Consultation,
+    upgrade: upgradeConsultationV0,
+  },
+  {
+    version: 4,
+    description:
+      "Payments: add the payer, ledger memo, settlement and refund fields, parse the status",
+    memoryId: 7,
+    from: PaymentV0,
+    to: Payment,
+    upgrade: upgradePaymentV0,
+  },
+  {
+    version: 5,
+    description: "Appointments: parse times and the status, add the slot end",
+    memoryId: 5,
+    from: AppointmentV0,
+    to: Appointment,
+    prepare: collectPaidAppointments,
+    upgrade: upgradeAppointmentV0,
+    finish: () => legacyPaidAppointments.clear(),
+  },
+  {
+    version: 6,
+    description: "Prescriptions: keep free-text medications as expired records",
+    memoryId: 6,
+    from: PrescriptionV0,
+    to: Prescription,
+    upgrade: upgradePrescriptionV0,
+    finish: scheduleStoredNotices,
+  },
+  {
+    version: 7,
+    description: "Medical records: turn free-text entries into clinical notes",
+    memoryId: 8,
+    from: MedicalRecordV0,
+    to: MedicalRecord,
+    upgrade: upgradeMedicalRecordV0,
+    finish: recordMedicalRecordBaselines,
+  },
+  {
+    version: 8,
+    description: "Chats: group messages into patient-doctor conversations",
+    memoryId: 4,
+    from: ChatV0,
+    to: Chat,
+    prepare: collectConversations,
+    upgrade: upgradeChatV0,
+    finish: () => legacyConversations.clear(),
+  },
+];
+
+const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Version 0 appointments had no slot length
+const LEGACY_APPOINTMENT_DURATION = 30n * NANOS_PER_MINUTE;
+
+const LEGACY_PAYMENT_STATUSES: { [status: string]: PaymentStatusName } = {
+  pending: "Pending",
+  completed: "Completed",
+  failed: "Failed",
+};
+
+const LEGACY_APPOINTMENT_STATUSES: { [status: string]: AppointmentStatusName } =
+  {
+    scheduled: "Scheduled",
+    canceled: "Canceled",
+    completed: "Completed",
+  };
+
+type NotificationKindName =
+  | "AppointmentReminder"
+  | "PrescriptionExpiring"
+  | "PaymentDue"
+  | "NewMessage";
+
+const NotificationKinds: {
+  [name in NotificationKindName]: typeof NotificationKind.tsType;
+} = {
+  AppointmentReminder: { AppointmentReminder: null },
+  PrescriptionExpiring: { PrescriptionExpiring: null },
+  PaymentDue: { PaymentDue: null },
+  NewMessage: { NewMessage: null },
+};
+
+// Applied until a principal sets its own preferences
+const DEFAULT_NOTIFICATION_PREFERENCES: typeof NotificationPreferences.tsType =
+  {
+    appointment_reminders: true,
+    reminder_offsets_minutes: Uint32Array.from([1_440, 60]),
+    prescription_notices: true,
+    payment_notices: true,
+    message_notices: true,
+  };
+
+// How often the notification sweep runs
+const NOTIFICATION_SWEEP_INTERVAL: Duration = 300n; // seconds
+
+// How long before a prescription expires the expiry notice is sent
+const PRESCRIPTION_EXPIRY_NOTICE = 3n * NANOS_PER_DAY;
+
+// Oldest notifications are dropped beyond this many per inbox
+const MAX_INBOX_SIZE = 200;
+
+const MAX_REMINDER_OFFSETS = 5;
+const MAX_REMINDER_OFFSET_MINUTES = 10_080; // One week
+
+// Schedule slots the notification sweep handles per run; the rest wait for the next
+const NOTICE_SWEEP_BATCH = 100;
+
+type ClaimStatusName =
+  | "Submitted"
+  | "Approved"
+  | "PartiallyApproved"
+  | "Denied";
+
+const ClaimStatuses: {
+  [name in ClaimStatusName]: typeof ClaimStatus.tsType;
+} = {
+  Submitted: { Submitted: null },
+  Approved: { Approved: null },
+  PartiallyApproved: { PartiallyApproved: null },
+  Denied: { Denied: null },
+};
+
+const PaymentStatuses: {
+  [name in PaymentStatusName]: typeof PaymentStatus.tsType;
+} = {
+  Pending: { Pending: null },
+  Completed: { Completed: null },
+  Failed: { Failed: null },
+  Refunded: { Refunded: null },
+  PartiallyRefunded: { PartiallyRefunded: null },
+};
+
+type RefundStatusName = "Requested" | "Processing" | "Refunded" | "Rejected";
+
+const RefundStatuses: {
+  [name in RefundStatusName]: typeof RefundStatus.tsType;
+} = {
+  Requested: { Requested: null },
+  Processing: { Processing: null },
+  Refunded: { Refunded: null },
+  Rejected: { Rejected: null },
+};
+
+// Fee of an ICP ledger transfer, in e8s
+const LEDGER_FEE = 10_000n;
+
+// Most ledger blocks one reconciliation call reads
+const MAX_RECONCILE_BLOCKS = 1_000n;
+
+type VitalKindName =
+  | "Weight"
+  | "Height"
+  | "Bmi"
+  | "BodySurfaceArea"
+  | "SystolicPressure"
+  | "DiastolicPressure"
+  | "Creatinine"
+  | "Egfr";
+
+const VitalKinds: { [name in VitalKindName]: typeof VitalKind.tsType } = {
+  Weight: { Weight: null },
+  Height: { Height: null },
+  Bmi: { Bmi: null },
+  BodySurfaceArea: { BodySurfaceArea: null },
+  SystolicPressure: { SystolicPressure: null },
+  DiastolicPressure: { DiastolicPressure: null },
+  Creatinine: { Creatinine: null },
+  Egfr: { Egfr: null },
+};
+
+const BloodPressureCategories: {
+  [name in BloodPressureCategoryName]: typeof BloodPressureCategory.tsType;
+} = {
+  Normal: { Normal: null },
+  Elevated: { Elevated: null },
+  Hypertension1: { Hypertension1: null },
+  Hypertension2: { Hypertension2: null },
+  HypertensiveCrisis: { HypertensiveCrisis: null },
+};
+
+const VITAL_UNITS: { [kind in VitalKindName]: string } = {
+  Weight: "kg",
+  Height: "cm",
+  Bmi: "kg/m²",
+  BodySurfaceArea: "m²",
+  SystolicPressure: "mmHg",
+  DiastolicPressure: "mmHg",
+  Creatinine: "mg/dL",
+  Egfr: "mL/min/1.73 m²",
+};
+
+// Plausible measurements, in the canonical units; anything outside is taken to
+// be a typo or a wrong unit
+const VITAL_RANGES: { [kind: string]: [number, number, string] } = {
+  Weight: [0.2, 650, "kg"],
+  Height: [20, 280, "cm"],
+  SystolicPressure: [40, 300, "mmHg"],
+  DiastolicPressure: [20, 200, "mmHg"],
+  Creatinine: [0.05, 30, "mg/dL"],
+  Age: [0, 130, "years"],
+};
+
+type InvoiceStatusName = "Draft" | "Issued" | "Paid" | "Void";
+
+const InvoiceStatuses: {
+  [name in InvoiceStatusName]: typeof InvoiceStatus.tsType;
+} = {
+  Draft: { Draft: null },
+  Issued: { Issued: null },
+  Paid: { Paid: null },
+  Void: { Void: null },
+};
+
+// Drafts are edited until issued; an issued invoice is paid or voided
+const INVOICE_TRANSITIONS: {
+  [from in InvoiceStatusName]: InvoiceStatusName[];
+} = {
+  Draft: ["Issued", "Void"],
+  Issued: ["Paid", "Void"],
+  Paid: [],
+  Void: [],
+};
+
+// How often the retention sweep runs
+const RETENTION_SWEEP_INTERVAL: Duration = 86_400n;
+
+// Most rows a single import chunk may hold
+const MAX_IMPORT_ROWS = 100;
+
+// How long emergency access to a patient's record lasts
+const BREAK_GLASS_PERIOD = 60n * NANOS_PER_MINUTE;
+
+// Limits on what a single prescription may authorize
+const MAX_PRESCRIPTION_REFILLS = 12;
+const MAX_PRESCRIPTION_VALID_DAYS = 365;
+
+const PrescriptionStatuses: {
+  [name in PrescriptionStatusName]: typeof PrescriptionStatus.tsType;
+} = {
+  Active: { Active: null },
+  PartiallyDispensed: { PartiallyDispensed: null },
+  Dispensed: { Dispensed: null },
+  Expired: { Expired: null },
+  Canceled: { Canceled: null },
+};
+
+const AuditOutcomes: {
+  [name in AuditOutcomeName]: typeof AuditOutcome.tsType;
+} = {
+  Success: { Success: null },
+  Denied: { Denied: null },
+  Failed: { Failed: null },
+};
+
+const MAX_AUDIT_PAGE_SIZE = 100;
+
+// Newest entries kept in a patient's access log
+const MAX_ACCESS_LOG_ENTRIES = 1_000;
+const MAX_AUDIT_VERIFY_RANGE = 1_000;
+
+// How long a payment reservation stays open before it is marked as failed
+const PAYMENT_RESERVATION_PERIOD: Duration = 600n; // seconds
+
+// Payload Schemas
+const CreateDepartmentSchema: Schema = {
+  name: [required, maxLength(MAX_NAME_LENGTH)],
+  description: [maxLength(MAX_TEXT_LENGTH)],
+};
+
+const CreateDoctorSchema: Schema = {
+  name: [required, maxLength(MAX_NAME_LENGTH)],
+  department_id: [uuid],
+  image: [httpsUrl],
+};
+
+const CreatePatientSchema: Schema = {
+  name: [required, maxLength(MAX_NAME_LENGTH)],
+  age: [between(0, 150)],
+  gender: [oneOf(GENDERS)],
+  phone_number: [phoneNumber],
+  email: [email, maxLength(MAX_NAME_LENGTH)],
+  address: [required, maxLength(MAX_TEXT_LENGTH)],
+  emergency_contact: {
+    name: [required, maxLength(MAX_NAME_LENGTH)],
+    phone_number: [phoneNumber],
+    relationship: [oneOf(RELATIONSHIPS)],
+  },
+  allergies: [
+    maxItems(MAX_LIST_LENGTH),
+    eachItem(required, maxLength(MAX_NAME_LENGTH)),
+  ],
+  current_medications: [
+    maxItems(MAX_LIST_LENGTH),
+    eachItem(required, maxLength(MAX_NAME_LENGTH)),
+  ],
+  medical_history: [
+    maxItems(MAX_LIST_LENGTH),
+    eachItem(required, maxLength(MAX_TEXT_LENGTH)),
+  ],
+};
+
+const CreateConsultationSchema: Schema = {
+  patient_id: [uuid],
+  problem: [required, maxLength(MAX_TEXT_LENGTH)],
+  department_id: [uuid],
+};
+
+const NotificationPreferencesSchema: Schema = {
+  reminder_offsets_minutes: [
+    maxItems(MAX_REMINDER_OFFSETS),
+    eachItem(between(1, MAX_REMINDER_OFFSET_MINUTES)),
+  ],
+};
+
+const CreateInsurerSchema: Schema = {
+  name: [required, maxLength(MAX_NAME_LENGTH)],
+  contact: [maxLength(MAX_TEXT_LENGTH)],
+};
+
+const CreateInsurancePolicySchema: Schema = {
+  patient_id: [uuid],
+  insurer_id: [uuid],
+  member_id: [required, maxLength(MAX_NAME_LENGTH)],
+  coverage: listOf(
+    {
+      department_id: [optional(uuid)],
+      service_code: [optional(required, maxLength(MAX_NAME_LENGTH))],
+      percent: [between(0, 100)],
+    },
+    maxItems(MAX_LIST_LENGTH)
+  ),
+  default_percent: [between(0, 100)],
+};
+
+const EstimateCostSchema: Schema = {
+  patient_id: [uuid],
+  department_id: [uuid],
+  service_code: [optional(required, maxLength(MAX_NAME_LENGTH))],
+  billed_amount: [positive],
+};
+
+const SubmitClaimSchema: Schema = {
+  invoice_id: [uuid],
+};
+
+const ReviewClaimSchema: Schema = {
+  note: [maxLength(MAX_TEXT_LENGTH)],
+};
+
+const ResolveConsultationSchema: Schema = {
+  summary: [required, maxLength(MAX_TEXT_LENGTH)],
+  prescription_id: [optional(uuid)],
+  clinical_note: [optional(required, maxLength(MAX_TEXT_LENGTH))],
+};
+
+const CreateClinicalNoteSchema: Schema = {
+  encounter_id: [optional(uuid)],
+  note: [required, maxLength(MAX_TEXT_LENGTH)],
+  amends: [optional(uuid)],
+};
+
+const CreateLabResultSchema: Schema = {
+  test_code: [required, maxLength(MAX_NAME_LENGTH)],
+  test_name: [required, maxLength(MAX_NAME_LENGTH)],
+  value: [finite],
+  unit: [required, maxLength(MAX_NAME_LENGTH)],
+  reference_range: {
+    low: [optional(finite)],
+    high: [optional(finite)],
+  },
+  amends: [optional(uuid)],
+};
+
+const MeasurementSchema: Schema = {
+  value: [positive],
+};
+
+const BodyMeasurementsSchema: Schema = {
+  weight: MeasurementSchema,
+  height: MeasurementSchema,
+};
+
+const KidneyFunctionSchema: Schema = {
+  creatinine: MeasurementSchema,
+  age: [finite],
+};
+
+const DosageSchema: Schema = {
+  weight: MeasurementSchema,
+  dose_per_kg: [positive],
+  dose_unit: [required, maxLength(MAX_NAME_LENGTH)],
+  doses_per_day: [between(1, 24)],
+  max_single_dose: [optional(positive)],
+  max_daily_dose: [optional(positive)],
+};
+
+const HealthRiskSchema: Schema = {
+  age: [finite],
+  bmi: [between(5, 100)],
+  systolic: [finite],
+};
+
+const RecordVitalsSchema: Schema = {
+  weight: [optional(recordField("value", positive))],
+  height: [optional(recordField("value", positive))],
+  systolic: [optional(finite)],
+  diastolic: [optional(finite)],
+  creatinine: [optional(recordField("value", positive))],
+};
+
+const CreateImmunizationSchema: Schema = {
+  vaccine: [required, maxLength(MAX_NAME_LENGTH)],
+  dose_number: [between(1, 20)],
+  amends: [optional(uuid)],
+};
+
+const CreateConsentSchema: Schema = {
+  scopes: [nonEmptyList],
+};
+
+const CreateConversationSchema: Schema = {
+  patient_id: [uuid],
+  doctor_id: [uuid],
+  consultation_id: [optional(uuid)],
+  appointment_id: [optional(uuid)],
+};
+
+const CreateChatSchema: Schema = {
+  conversation_id: [uuid],
+  message: [required, maxLength(MAX_TEXT_LENGTH)],
+};
+
+const CreateAppointmentSchema: Schema = {
+  patient_id: [uuid],
+  doctor_id: [uuid],
+  reason: [required, maxLength(MAX_TEXT_LENGTH)],
+};
+
+const CreateTimeOffSchema: Schema = {
+  reason: [maxLength(MAX_TEXT_LENGTH)],
+};
+
+const CreatePrescriptionSchema: Schema = {
+  patient_id: [uuid],
+  doctor_id: [uuid],
+  lines: listOf(
+    {
+      medication_id: [uuid],
+      dose_amount: [positive],
+      dose_unit: [required, maxLength(MAX_NAME_LENGTH)],
+      frequency: [required, maxLength(MAX_NAME_LENGTH)],
+      duration_days: [between(1, 365)],
+    },
+    nonEmptyList,
+    maxItems(MAX_LIST_LENGTH)
+  ),
+  instructions: [required, maxLength(MAX_TEXT_LENGTH)],
+  override_reason: [optional(required, maxLength(MAX_TEXT_LENGTH))],
+  refills: [between(0, MAX_PRESCRIPTION_REFILLS)],
+  valid_days: [between(1, MAX_PRESCRIPTION_VALID_DAYS)],
+};
+
+const CreateDispensingSchema: Schema = {
+  medication_ids: [nonEmptyList, maxItems(MAX_LIST_LENGTH), eachItem(uuid)],
+  notes: [maxLength(MAX_TEXT_LENGTH)],
+};
+
+const CreateMedicationSchema: Schema = {
+  name: [required, maxLength(MAX_NAME_LENGTH)],
+  active_ingredients: [
+    nonEmptyList,
+    maxItems(MAX_LIST_LENGTH),
+    eachItem(required, maxLength(MAX_NAME_LENGTH)),
+  ],
+  contraindication_classes: [
+    maxItems(MAX_LIST_LENGTH),
+    eachItem(required, maxLength(MAX_NAME_LENGTH)),
+  ],
+};
+
+const CreatePaymentSchema: Schema = {
+  invoice_id: [uuid],
+  amount: [optional(positive)],
+  payment_method: [oneOf(PAYMENT_METHODS)],
+};
+
+const RequestRefundSchema: Schema = {
+  amount: [positive],
+  reason: [required, maxLength(MAX_TEXT_LENGTH)],
+};
+
+const ReviewRefundSchema: Schema = {
+  note: [maxLength(MAX_TEXT_LENGTH)],
+};
+
+const CreateServiceSchema: Schema = {
+  department_id: [uuid],
+  code: [required, maxLength(MAX_NAME_LENGTH)],
+  name: [required, maxLength(MAX_NAME_LENGTH)],
+  price: [positive],
+  tax_percent: [between(0, 100)],
+};
+
+const InvoiceLinesSchema: Schema = {
+  lines: listOf(
+    {
+      service_id: [uuid],
+      quantity: [positive],
+      discount_percent: [between(0, 100)],
+    },
+    nonEmptyList,
+    maxItems(MAX_LIST_LENGTH)
+  ),
+};
+
+const VoidInvoiceSchema: Schema = {
+  reason: [required, maxLength(MAX_TEXT_LENGTH)],
+};
+
+// Pagination Helpers
+// Text form of a field value: Opt contents, principal text or variant name
+function fieldText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  if (typeof value === "object") {
+    if ("Some" in value) {
+      return fieldText(value.Some);
+    }
+
+    if ("None" in value) {
+      return "";
+    }
+
+    if (value instanceof Principal) {
+      return value.toText();
+    }
+
+    return Object.keys(value)[0] ?? "";
+  }
+
+  return String(value);
+}
+
+// Read a page of a map in key order, keeping the values that match the filters
+function paginate<Value extends { [field: string]: unknown }>(
+  map: PageableMap<Value>,
+  request: typeof PageRequest.tsType,
+  filterFields: string[],
+  visible: (value: Value) => boolean = () => true
+) {
+  const unknownFilter = request.filters.find(
+    (filter) => !filterFields.includes(filter.field)
+  );
+
+  if (unknownFilter) {
+    return Err({
+      InvalidPayload: `Cannot filter by '${
+        unknownFilter.field
+      }'; filterable fields are: ${filterFields.join(", ")}`,
+    });
+  }
+
+  const page = readPage(map, {
+    limit: request.limit,
+    descending: "Descending" in request.sort,
+    cursor: request.cursor.Some,
+    matches: (value) =>
+      request.filters.every(
+        (filter) => fieldText(value[filter.field]) === filter.value
+      ) && visible(value),
+  });
+
+  return Ok({
+    items: page.items,
+    next_cursor: page.nextCursor === undefined ? None : Some(page.nextCursor),
+  });
+}
+
+// Index Helpers
+type IdIndex = typeof DoctorsByDepartment;
+type TextKeyedMap<V> = ReturnType<typeof StableBTreeMap<text, V>>;
+
+function clearIndex(index: typeof DoctorsByOwner | IdIndex) {
+  for (const key of index.keys()) {
+    index.remove(key);
+  }
+}
+
+// Rebuild every secondary index from the stored records
+function rebuildAllIndexes() {
+  for (const index of [
+    DoctorsByOwner,
+    PatientsByOwner,
+    DoctorsByDepartment,
+    ConsultationsByPatient,
+    AppointmentsByPatient,
+    AppointmentsByDoctor,
+    ConversationsByPatient,
+    ConversationsByDoctor,
+    PrescriptionsByPatient,
+    PrescriptionsByDoctor,
+    DispensingsByPrescription,
+    RefillRequestsByPrescription,
+    PaymentsByPatient,
+    ConsultationQueues,
+    ConsultationsByDepartment,
+    ServicesByDepartment,
+    ConsentGrantsByPatient,
+    ConsultationsByDoctor,
+    NotificationsByRecipient,
+    PoliciesByPatient,
+    ClaimsByPatient,
+    InvoicesByPatient,
+    RefundsByPatient,
+    VitalsByPatient,
+  ]) {
+    clearIndex(index);
+  }
+
+  // Archived doctors keep their department; owners only map to live profiles
+  for (const doctor of Doctors.values()) {
+    if (!isDeleted(doctor)) {
+      DoctorsByOwner.insert(doctor.owner, doctor.id);
+    }
+
+    addToIndex(DoctorsByDepartment, doctor.department_id, doctor.id);
+  }
+
+  for (const patient of Patients.values()) {
+    if (!isDeleted(patient)) {
+      PatientsByOwner.insert(patient.owner, patient.id);
+    }
+  }
+
+  for (const consultation of Consultations.values()) {
+    indexConsultation(consultation);
+  }
+
+  for (const service of Services.values()) {
+    addToIndex(ServicesByDepartment, service.department_id, service.id);
+  }
+
+  for (const [index, map] of [
+    [AppointmentsByPatient, Appointments],
+    [ConversationsByPatient, Conversations],
+    [PrescriptionsByPatient, Prescriptions],
+    [PaymentsByPatient, Payments],
+    [PoliciesByPatient, InsurancePolicies],
+    [ClaimsByPatient, InsuranceClaims],
+    [InvoicesByPatient, Invoices],
+    [RefundsByPatient, Refunds],
+    [VitalsByPatient, Vitals],
+    [ConsentGrantsByPatient, ConsentGrants],
+  ]) {
+    for (const value of map.values()) {
+      addToIndex(index, value.patient_id, value.id);
+    }
+  }
+
+  for (const appointment of Appointments.values()) {
+    addToIndex(AppointmentsByDoctor, appointment.doctor_id, appointment.id);
+  }
+
+  for (const conversation of Conversations.values()) {
+    addToIndex(ConversationsByDoctor, conversation.doctor_id, conversation.id);
+  }
+
+  for (const prescription of Prescriptions.values()) {
+    addToIndex(PrescriptionsByDoctor, prescription.doctor_id, prescription.id);
+  }
+
+  for (const [index, map] of [
+    [DispensingsByPrescription, Dispensings],
+    [RefillRequestsByPrescription, RefillRequests],
+  ]) {
+    for (const value of map.values()) {
+      addToIndex(index, value.prescription_id, value.id);
+    }
+  }
+
+  // Inboxes list their notifications oldest first
+  const notifications = Notifications.values().sort((left, right) =>
+    left.created_at < right.created_at ? -1 : 1
+  );
+
+  for (const notification of notifications) {
+    addToIndex(
+      NotificationsByRecipient,
+      notification.recipient.toText(),
+      notification.id
+    );
+  }
+}
+
+// Referential Integrity Helpers
+// Doctors, consultations and services keep pointing at their department
+function departmentReferences(departmentId: text): string[] {
+  return describeReferences([
+    ["doctors", indexedIds(DoctorsByDepartment, departmentId).length],
+    [
+      "consultations",
+      indexedIds(ConsultationsByDepartment, departmentId).length,
+    ],
+    ["services", indexedIds(ServicesByDepartment, departmentId).length],
+  ]);
+}
+
+// Upcoming work that must be reassigned before a doctor profile is deleted
+function doctorBlockers(doctorId: text): string[] {
+  return describeReferences([
+    [
+      "active appointments",
+      lookupIndexed(Appointments, AppointmentsByDoctor, doctorId).filter(
+        isActiveAppointment
+      ).length,
+    ],
+    ["active consultations", activeConsultations(doctorId).length],
+  ]);
+}
+
+// Open business that must be settled before a patient profile is deleted
+function patientBlockers(patientId: text): string[] {
+  return describeReferences([
+    [
+      "active appointments",
+      lookupIndexed(Appointments, AppointmentsByPatient, patientId).filter(
+        isActiveAppointment
+      ).length,
+    ],
+    [
+      "pending payments",
+      lookupIndexed(Payments, PaymentsByPatient, patientId).filter(
+        (payment) => "Pending" in payment.status
+      ).length,
+    ],
+    [
+      "open refund requests",
+      lookupIndexed(Refunds, RefundsByPatient, patientId).filter(
+        (refund) =>
+          "Requested" in refund.status || "Processing" in refund.status
+      ).length,
+    ],
+    [
+      "submitted insurance claims",
+      lookupIndexed(InsuranceClaims, ClaimsByPatient, patientId).filter(
+        (claim) => "Submitted" in claim.status
+      ).length,
+    ],
+    [
+      "open invoices",
+      lookupIndexed(Invoices, InvoicesByPatient, patientId).filter(
+        (invoice) => "Draft" in invoice.status || "Issued" in invoice.status
+      ).length,
+    ],
+  ]);
+}
+
+// Move the patient's clinical data out of the live maps into the archive
+function archivePatient(patientId: text): typeof PatientArchive.tsType {
+  const conversations = lookupIndexed(
+    Conversations,
+    ConversationsByPatient,
+    patientId
+  );
+  const chats = conversations.flatMap((conversation) =>
+    conversationMessageIds(conversation.id)
+      .map((chatId) => Chats.get(chatId))
+      .filter((chatOpt) => "Some" in chatOpt)
+      .map((chatOpt) => chatOpt.Some!)
+  );
+  const archive = {
+    patient_id: patientId,
+    medical_record: MedicalRecords.get(patientId),
+    consultations: lookupIndexed(
+      Consultations,
+      ConsultationsByPatient,
+      patientId
+    ),
+    appointments: lookupIndexed(Appointments, AppointmentsByPatient, patientId),
+    prescriptions: lookupIndexed(
+      Prescriptions,
+      PrescriptionsByPatient,
+      patientId
+    ),
+    payments: lookupIndexed(Payments, PaymentsByPatient, patientId),
+    conversations,
+    chats,
+    archived_at: ic.time(),
+    archived_by: ic.caller(),
+    anonymized_at: None,
+  };
+
+  PatientArchives.insert(patientId, archive);
+
+  // Archive: clinical data leaves the live maps
+  MedicalRecords.remove(patientId);
+  for (const consultation of archive.consultations) {
+    unindexConsultation(consultation);
+  }
+
+  for (const appointment of archive.appointments) {
+    removeFromIndex(
+      AppointmentsByDoctor,
+      appointment.doctor_id,
+      appointment.id
+    );
+  }
+
+  for (const prescription of archive.prescriptions) {
+    removeFromIndex(
+      PrescriptionsByDoctor,
+      prescription.doctor_id,
+      prescription.id
+    );
+  }
+
+  for (const [map, index] of [
+    [Consultations, ConsultationsByPatient],
+    [Appointments, AppointmentsByPatient],
+    [Prescriptions, PrescriptionsByPatient],
+    [Payments, PaymentsByPatient],
+  ]) {
+    for (const id of indexedIds(index, patientId)) {
+      map.remove(id);
+    }
+
+    index.remove(patientId);
+  }
+
+  for (const conversation of conversations) {
+    Conversations.remove(conversation.id);
+    ConversationMessages.remove(conversation.id);
+    removeFromIndex(
+      ConversationsByDoctor,
+      conversation.doctor_id,
+      conversation.id
+    );
+  }
+
+  ConversationsByPatient.remove(patientId);
+
+  for (const chat of chats) {
+    Chats.remove(chat.id);
+  }
+
+  // Cascade: access grants and open refill requests end with the profile
+  for (const grantId of indexedIds(ConsentGrantsByPatient, patientId)) {
+    ConsentGrants.remove(grantId);
+  }
+
+  ConsentGrantsByPatient.remove(patientId);
+
+  const refillRequests = archive.prescriptions.flatMap((prescription) =>
+    lookupIndexed(RefillRequests, RefillRequestsByPrescription, prescription.id)
+  );
+
+  for (const request of refillRequests) {
+    if ("Pending" in request.status) {
+      RefillRequests.insert(request.id, {
+        ...request,
+        status: { Denied: null },
+        decided_at: Some(ic.time()),
+        decision_note: Some("Patient profile deleted"),
+      });
+    }
+  }
+
+  return archive;
+}
+
+function restoreIndexed<V extends { id: text; patient_id: text }>(
+  map: TextKeyedMap<V>,
+  index: IdIndex,
+  values: V[]
+) {
+  for (const value of values) {
+    map.insert(value.id, value);
+    addToIndex(index, value.patient_id, value.id);
+  }
+}
+
+// Put archived clinical data back into the live maps
+function restorePatientArchive(archive: typeof PatientArchive.tsType) {
+  const patientId = archive.patient_id;
+
+  if ("Some" in archive.medical_record) {
+    MedicalRecords.insert(patientId, archive.medical_record.Some!);
+  }
+
+  restoreIndexed(Consultations, ConsultationsByPatient, archive.consultations);
+  restoreIndexed(Appointments, AppointmentsByPatient, archive.appointments);
+  restoreIndexed(Prescriptions, PrescriptionsByPatient, archive.prescriptions);
+  restoreIndexed(Payments, PaymentsByPatient, archive.payments);
+
+  for (const consultation of archive.consultations) {
+    indexConsultation(consultation);
+  }
+
+  for (const appointment of archive.appointments) {
+    addToIndex(AppointmentsByDoctor, appointment.doctor_id, appointment.id);
+  }
+
+  for (const prescription of archive.prescriptions) {
+    addToIndex(PrescriptionsByDoctor, prescription.doctor_id, prescription.id);
+  }
+
+  for (const conversation of archive.conversations) {
+    const chats = archive.chats
+      .filter((chat) => chat.conversation_id === conversation.id)
+      .sort((left, right) => (left.timestamp < right.timestamp ? -1 : 1));
+
+    Conversations.insert(conversation.id, conversation);
+    addToIndex(ConversationsByPatient, patientId, conversation.id);
+    addToIndex(ConversationsByDoctor, conversation.doctor_id, conversation.id);
+    ConversationMessages.insert(
+      conversation.id,
+      chats.map((chat) => chat.id)
+    );
+
+    for (const chat of chats) {
+      Chats.insert(chat.id, chat);
+    }
+  }
+
+  PatientArchives.remove(patientId);
+}
+
+// History Helpers
+type VersionMap<Version> = ReturnType<
+  typeof StableBTreeMap<[text, nat32], Version>
+>;
+type VersionHeads = typeof PatientVersionHeads;
+
+function latestVersion(heads: VersionHeads, patientId: text): nat32 {
+  const headOpt = heads.get(patientId);
+
+  return "None" in headOpt ? 0 : headOpt.Some;
+}
+
+// Recorded versions of a patient, oldest first; history may start above 1
+function recordedVersions<Version>(
+  versions: VersionMap<Version>,
+  heads: VersionHeads,
+  patientId: text
+): Version[] {
+  const recorded: Version[] = [];
+
+  for (let number = 1; number <= latestVersion(heads, patientId); number++) {
+    const versionOpt = versions.get([patientId, number]);
+
+    if ("Some" in versionOpt) {
+      recorded.push(versionOpt.Some!);
+    }
+  }
+
+  return recorded;
+}
+
+// Latest snapshot recorded at or before the given time, read newest first
+function snapshotAsOf<Snapshot>(
+  versions: VersionMap<{ changed_at: nat64; snapshot: Snapshot }>,
+  heads: VersionHeads,
+  patientId: text,
+  time: nat64
+): Snapshot | undefined {
+  for (let number = latestVersion(heads, patientId); number > 0; number--) {
+    const versionOpt = versions.get([patientId, number]);
+
+    if ("Some" in versionOpt && versionOpt.Some!.changed_at <= time) {
+      return versionOpt.Some!.snapshot;
+    }
+  }
+
+  return undefined;
+}
+
+function removeVersions<Version>(
+  versions: VersionMap<Version>,
+  heads: VersionHeads,
+  patientId: text
+) {
+  for (let number = 1; number <= latestVersion(heads, patientId); number++) {
+    versions.remove([patientId, number]);
+  }
+
+  heads.remove(patientId);
+}
+
+function savePatientVersion(
+  patient: typeof Patient.tsType,
+  previous: typeof Patient.tsType | undefined,
+  change: string
+) {
+  PatientVersions.insert([patient.id, patient.version], {
+    version: patient.version,
+    change,
+    changed_by: ic.caller(),
+    changed_at: ic.time(),
+    diffs: fieldDiffs(previous, patient),
+    snapshot: patient,
+  });
+  PatientVersionHeads.insert(patient.id, patient.version);
+}
+
+function saveMedicalRecordVersion(
+  medicalRecord: typeof MedicalRecord.tsType,
+  previous: typeof MedicalRecord.tsType | undefined,
+  change: string
+) {
+  const patientId = medicalRecord.patient_id;
+  const version = latestVersion(MedicalRecordVersionHeads, patientId) + 1;
+
+  MedicalRecordVersions.insert([patientId, version], {
+    version,
+    change,
+    changed_by: ic.caller(),
+    changed_at: ic.time(),
+    diffs: fieldDiffs(previous, medicalRecord),
+    snapshot: medicalRecord,
+  });
+  MedicalRecordVersionHeads.insert(patientId, version);
+}
+
+// Store a patient profile and record the change in its history
+function savePatient(patient: typeof Patient.tsType, change: string) {
+  const previousOpt = Patients.insert(patient.id, patient);
+
+  savePatientVersion(
+    patient,
+    "None" in previousOpt ? undefined : previousOpt.Some,
+    change
+  );
+}
+
+// Store a medical record and record the change in its history
+function saveMedicalRecord(
+  medicalRecord: typeof MedicalRecord.tsType,
+  change: string
+) {
+  const previousOpt = MedicalRecords.insert(
+    medicalRecord.patient_id,
+    medicalRecord
+  );
+
+  saveMedicalRecordVersion(
+    medicalRecord,
+    "None" in previousOpt ? undefined : previousOpt.Some,
+    change
+  );
+}
+
+// Patch Helpers
+function staleVersion(entity: string, currentVersion: nat32) {
+  return Err({
+    Conflict: `${entity} was changed in the meantime and is now at version ${currentVersion}; reload it and retry`,
+  });
+}
+
+// Soft Delete Helpers
+function isDeleted(
+  entity: typeof Patient.tsType | typeof Doctor.tsType
+): boolean {
+  return "Some" in entity.deleted_at;
+}
+
+// Patient profile by id, hiding archived profiles
+function livePatient(patientId: text): Opt<typeof Patient.tsType> {
+  const patientOpt = Patients.get(patientId);
+
+  return "Some" in patientOpt && isDeleted(patientOpt.Some!)
+    ? None
+    : patientOpt;
+}
+
+// Doctor profile by id, hiding archived profiles
+function liveDoctor(doctorId: text): Opt<typeof Doctor.tsType> {
+  const doctorOpt = Doctors.get(doctorId);
+
+  return "Some" in doctorOpt && isDeleted(doctorOpt.Some!) ? None : doctorOpt;
+}
+
+function retentionPolicy(): typeof RetentionPolicy.tsType {
+  const policyOpt = RetentionPolicyStore.get(0);
+
+  return "None" in policyOpt ? DEFAULT_RETENTION_POLICY : policyOpt.Some;
+}
+
+// Purge or anonymize the data of profiles deleted longer than the retention period
+function applyRetentionPolicy() {
+  const now = ic.time();
+  const policy = retentionPolicy();
+
+  for (const archive of PatientArchives.values()) {
+    if (
+      !retentionElapsed(archive.archived_at, policy.retention_days, now) ||
+      "Some" in archive.anonymized_at
+    ) {
+      continue;
+    }
+
+    const patientOpt = Patients.get(archive.patient_id);
+
+    if ("Purge" in policy.action) {
+      Patients.remove(archive.patient_id);
+      removeVersions(PatientVersions, PatientVersionHeads, archive.patient_id);
+      removeVersions(
+        MedicalRecordVersions,
+        MedicalRecordVersionHeads,
+        archive.patient_id
+      );
+      PatientAccessLog.remove(archive.patient_id);
+
+      // Payments are financial records and are kept past the clinical data
+      if (archive.payments.length > 0) {
+        PatientArchives.insert(archive.patient_id, {
+          ...archive,
+          medical_record: None,
+          consultations: [],
+          appointments: [],
+          prescriptions: [],
+          conversations: [],
+          chats: [],
+          anonymized_at: Some(now),
+        });
+      } else {
+        PatientArchives.remove(archive.patient_id);
+      }
+
+      for (const vital of patientVitals(archive.patient_id)) {
+        Vitals.remove(vital.id);
+      }
+
+      VitalsByPatient.remove(archive.patient_id);
+
+      for (const appointment of archive.appointments) {
+        AppointmentHistory.remove(appointment.id);
+      }
+
+      for (const prescription of archive.prescriptions) {
+        for (const dispensingId of indexedIds(
+          DispensingsByPrescription,
+          prescription.id
+        )) {
+          Dispensings.remove(dispensingId);
+        }
+
+        for (const requestId of indexedIds(
+          RefillRequestsByPrescription,
+          prescription.id
+        )) {
+          RefillRequests.remove(requestId);
+        }
+
+        DispensingsByPrescription.remove(prescription.id);
+        RefillRequestsByPrescription.remove(prescription.id);
+      }
+
+      continue;
+    }
+
+    if ("Some" in patientOpt) {
+      Patients.insert(archive.patient_id, {
+        ...patientOpt.Some!,
+        version: patientOpt.Some!.version + 1,
+        owner: Principal.anonymous(),
+        name: "Anonymized patient",
+        phone_number: "",
+        email: "",
+        address: "",
+        emergency_contact: { name: "", phone_number: "", relationship: "" },
+      });
+    }
+
+    // Past versions hold the personal details
+    removeVersions(PatientVersions, PatientVersionHeads, archive.patient_id);
+
+    PatientArchives.insert(archive.patient_id, {
+      ...archive,
+      chats: [],
+      anonymized_at: Some(now),
+    });
+  }
+
+  // Doctors stay referenced by clinical data, so they are always anonymized;
+  // an anonymous owner marks an already anonymized profile
+  for (const doctor of Doctors.values()) {
+    if (
+      "Some" in doctor.deleted_at &&
+      retentionElapsed(doctor.deleted_at.Some!, policy.retention_days, now) &&
+      !doctor.owner.isAnonymous()
+    ) {
+      Doctors.insert(doctor.id, {
+        ...doctor,
+        version: doctor.version + 1,
+        owner: Principal.anonymous(),
+        name: "Former doctor",
+        image: "",
+      });
+    }
+  }
+}
+
+function startRetentionTimer() {
+  ic.setTimerInterval(RETENTION_SWEEP_INTERVAL, applyRetentionPolicy);
+}
+
+// Interchange Helpers
+type ImportedRow<Value> = { Ok: Value } | { Err: (typeof FieldError.tsType)[] };
+
+function dataFormat(format: typeof DataFormat.tsType): Format {
+  return Object.keys(format)[0] as Format;
+}
+
+// Convert and validate every row of a chunk and store the rows only if all of
+// them are valid; rows accepted so far are passed on for duplicate checks
+function importRows<Value extends { id: text }>(
+  table: Table,
+  chunk: typeof ImportChunk.tsType,
+  toValue: (row: Row, accepted: Value[]) => ImportedRow<Value>,
+  store: (value: Value) => void
+) {
+  const rows = parseRows(table, dataFormat(chunk.format), chunk.data);
+
+  if ("Err" in rows) {
+    return Err({ InvalidPayload: rows.Err });
+  }
+
+  if (rows.Ok.length > MAX_IMPORT_ROWS) {
+    return Err({
+      InvalidPayload: `An import chunk holds at most ${MAX_IMPORT_ROWS} rows`,
+    });
+  }
+
+  const accepted: Value[] = [];
+  const rowErrors: (typeof RowError.tsType)[] = [];
+
+  for (const [index, row] of rows.Ok.entries()) {
+    const value = toValue(row, accepted);
+
+    if ("Err" in value) {
+      rowErrors.push({ row: index + 1, errors: value.Err });
+    } else {
+      accepted.push(value.Ok);
+    }
+  }
+
+  if (rowErrors.length > 0) {
+    return Err({ InvalidRows: rowErrors });
+  }
+
+  for (const value of accepted) {
+    store(value);
+  }
+
+  return Ok({ ids: accepted.map((value) => value.id) });
+}
+
+// A page of the map in the requested format, in id order
+function exportRows<Value extends { [field: string]: unknown }>(
+  table: Table,
+  map: PageableMap<Value>,
+  request: typeof ExportRequest.tsType,
+  toRow: (value: Value) => Row,
+  visible: (value: Value) => boolean = () => true
+) {
+  const page = paginate(
+    map,
+    {
+      cursor: request.cursor,
+      limit: request.limit,
+      sort: { Ascending: null },
+      filters: [],
+    },
+    [],
+    visible
+  );
+
+  if ("Err" in page) {
+    return page;
+  }
+
+  return Ok({
+    data: formatRows(
+      table,
+      dataFormat(request.format),
+      page.Ok.items.map(toRow)
+    ),
+    next_cursor: page.Ok.next_cursor,
+  });
+}
+
+// Ids given in a row are kept, so references survive moving between deployments
+function importedId(
+  row: Row,
+  map: { containsKey(key: text): boolean },
+  accepted: { id: text }[],
+  errors: (typeof FieldError.tsType)[]
+): text {
+  const id = cell(row, "id");
+
+  if (id.length === 0) {
+    return uuidv4();
+  }
+
+  if (!isUuid(id)) {
+    errors.push({ field: "id", reason: "must be a valid id" });
+  } else if (map.containsKey(id) || accepted.some((value) => value.id === id)) {
+    errors.push({ field: "id", reason: "is already in use" });
+  }
+
+  return id;
+}
+
+// Principal that owns an imported profile; it may own only one live profile
+function importedOwner(
+  row: Row,
+  ownerIndex: typeof DoctorsByOwner,
+  accepted: { owner: Principal }[],
+  errors: (typeof FieldError.tsType)[]
+): Principal {
+  let owner;
+
+  try {
+    owner = Principal.fromText(cell(row, "owner"));
+  } catch {
+    errors.push({ field: "owner", reason: "must be a valid principal" });
+    return Principal.anonymous();
+  }
+
+  if (owner.isAnonymous()) {
+    errors.push({ field: "owner", reason: "must not be anonymous" });
+  } else if (
+    ownerIndex.containsKey(owner) ||
+    accepted.some((value) => value.owner.toText() === owner.toText())
+  ) {
+    errors.push({ field: "owner", reason: "already owns a profile" });
+  }
+
+  return owner;
+}
+
+// Reader of department rows; the names in use are collected once per chunk
+// and grow with every accepted row
+function departmentRowReader(): (
+  row: Row,
+  accepted: (typeof Department.tsType)[]
+) => ImportedRow<typeof Department.tsType> {
+  const names = new Set(
+    Departments.values().map((department) => department.name)
+  );
+
+  return (row, accepted) => {
+    const errors: (typeof FieldError.tsType)[] = [];
+    const id = importedId(row, Departments, accepted, errors);
+    const payload = {
+      name: cell(row, "name"),
+      description: cell(row, "description"),
+    };
+
+    errors.push(...validatePayload(payload, CreateDepartmentSchema));
+
+    if (names.has(payload.name)) {
+      errors.push({ field: "name", reason: "must be unique" });
+    }
+
+    if (errors.length > 0) {
+      return { Err: errors };
+    }
+
+    names.add(payload.name);
+    return { Ok: { id, ...payload } };
+  };
+}
+
+function doctorFromRow(
+  row: Row,
+  accepted: (typeof Doctor.tsType)[]
+): ImportedRow<typeof Doctor.tsType> {
+  const errors: (typeof FieldError.tsType)[] = [];
+  const id = importedId(row, Doctors, accepted, errors);
+  const owner = importedOwner(row, DoctorsByOwner, accepted, errors);
+  const payload = {
+    name: cell(row, "name"),
+    department_id: cell(row, "department_id"),
+    image: cell(row, "image"),
+  };
+  const available = cell(row, "available");
+  const invalidFields = validatePayload(payload, CreateDoctorSchema);
+
+  errors.push(...invalidFields);
+
+  if (
+    !invalidFields.some((error) => error.field === "department_id") &&
+    !Departments.containsKey(payload.department_id)
+  ) {
+    errors.push({ field: "department_id", reason: "department not found" });
+  }
+
+  // Doctors accept bookings unless the row says otherwise
+  if (!["", "true", "false"].includes(available)) {
+    errors.push({ field: "available", reason: "must be true or false" });
+  }
+
+  if (errors.length > 0) {
+    return { Err: errors };
+  }
+
+  return {
+    Ok: {
+      ...payload,
+      id,
+      owner,
+      available: available !== "false",
+      deleted_at: None,
+      deleted_by: None,
+      version: 1,
+    },
+  };
+}
+
+function patientFromRow(
+  row: Row,
+  accepted: (typeof Patient.tsType)[]
+): ImportedRow<typeof Patient.tsType> {
+  const errors: (typeof FieldError.tsType)[] = [];
+  const id = importedId(row, Patients, accepted, errors);
+  const owner = importedOwner(row, PatientsByOwner, accepted, errors);
+  const age = cell(row, "age");
+
+  if (!/^\d+$/.test(age)) {
+    errors.push({ field: "age", reason: "must be a whole number" });
+  }
+
+  const payload = {
+    name: cell(row, "name"),
+    age: /^\d+$/.test(age) ? BigInt(age) : 0n,
+    gender: cell(row, "gender"),
+    phone_number: cell(row, "phone_number"),
+    email: cell(row, "email"),
+    address: cell(row, "address"),
+    emergency_contact: {
+      name: cell(row, "emergency_contact_name"),
+      phone_number: cell(row, "emergency_contact_phone_number"),
+      relationship: cell(row, "emergency_contact_relationship"),
+    },
+    allergies: cells(row, "allergies"),
+    current_medications: cells(row, "current_medications"),
+    medical_history: cells(row, "medical_history"),
+  };
+
+  errors.push(...validatePayload(payload, CreatePatientSchema));
+
+  if (errors.length > 0) {
+    return { Err: errors };
+  }
+
+  return {
+    Ok: {
+      ...payload,
+      id,
+      owner,
+      deleted_at: None,
+      deleted_by: None,
+      version: 1,
+    },
+  };
+}
+
+function departmentToRow(department: typeof Department.tsType): Row {
+  return { ...department };
+}
+
+function doctorToRow(doctor: typeof Doctor.tsType): Row {
+  return {
+    id: doctor.id,
+    owner: doctor.owner.toText(),
+    name: doctor.name,
+    department_id: doctor.department_id,
+    image: doctor.image,
+    available: String(doctor.available),
+  };
+}
+
+function patientToRow(patient: typeof Patient.tsType): Row {
+  return {
+    id: patient.id,
+    owner: patient.owner.toText(),
+    name: patient.name,
+    age: patient.age.toString(),
+    gender: patient.gender,
+    phone_number: patient.phone_number,
+    email: patient.email,
+    address: patient.address,
+    emergency_contact_name: patient.emergency_contact.name,
+    emergency_contact_phone_number: patient.emergency_contact.phone_number,
+    emergency_contact_relationship: patient.emergency_contact.relationship,
+    allergies: patient.allergies,
+    current_medications: patient.current_medications,
+    medical_history: patient.medical_history,
+  };
+}
+
+// Migration Helpers
+function schemaVersion(): number {
+  const versionOpt = SchemaVersionStore.get(0);
+
+  return "None" in versionOpt ? 0 : versionOpt.Some;
+}
+
+function pendingMigrations(): Migration[] {
+  const version = schemaVersion();
+
+  return MIGRATIONS.filter((migration) => migration.version > version);
+}
+
+// Run the pending migrations in order and record the version reached after each
+function runMigrations() {
+  let rewritten = 0;
+
+  for (const migration of pendingMigrations()) {
+    migration.prepare?.();
+    rewritten += applyMigration(migration);
+    migration.finish?.();
+    SchemaVersionStore.insert(0, migration.version);
+  }
+
+  // Records written before the indexes existed are missing from them
+  if (rewritten > 0 || missingIndexes()) {
+    rebuildAllIndexes();
+  }
+}
+
+// Indexes added after their maps already held records start out empty
+function missingIndexes(): boolean {
+  return (
+    (AppointmentsByDoctor.isEmpty() && !Appointments.isEmpty()) ||
+    (ConversationsByPatient.isEmpty() && !Conversations.isEmpty()) ||
+    (PrescriptionsByDoctor.isEmpty() && !Prescriptions.isEmpty()) ||
+    (DispensingsByPrescription.isEmpty() && !Dispensings.isEmpty()) ||
+    (RefillRequestsByPrescription.isEmpty() && !RefillRequests.isEmpty()) ||
+    (ConsultationsByDepartment.isEmpty() && !Consultations.isEmpty()) ||
+    (ServicesByDepartment.isEmpty() && !Services.isEmpty()) ||
+    (ConsentGrantsByPatient.isEmpty() && !ConsentGrants.isEmpty())
+  );
+}
+
+// Version 0 stored times as text; unreadable times become 0
+function parseLegacyTime(time: text): nat64 {
+  const millis = Date.parse(time);
+
+  return Number.isNaN(millis) ? 0n : BigInt(millis) * 1_000_000n;
+}
+
+function upgradeDoctorV0(doctor: typeof DoctorV0.tsType): typeof Doctor.tsType {
+  return {
+    ...doctor,
+    available: true,
+    deleted_at: None,
+    deleted_by: None,
+    version: 1,
+  };
+}
+
+function upgradePatientV0(
+  patient: typeof PatientV0.tsType
+): typeof Patient.tsType {
+  return { ...patient, deleted_at: None, deleted_by: None, version: 1 };
+}
+
+function upgradeConsultationV0(
+  consultation: typeof ConsultationV0.tsType
+): typeof Consultation.tsType {
+  return {
+    ...consultation,
+    urgency: { Medium: null },
+    status: ConsultationStatuses.Open,
+    doctor_id: None,
+    created_at: 0n, // Not recorded in version 0; queued before newer consultations
+    assigned_at: None,
+    resolution: None,
+  };
+}
+
+// Version 0 payments were never settled on the ledger, so they keep no block
+// and nothing of them is refunded
+function upgradePaymentV0(
+  payment: typeof PaymentV0.tsType
+): typeof Payment.tsType {
+  const patientOpt = Patients.get(payment.patient_id);
+
+  return {
+    ...payment,
+    payer: "None" in patientOpt ? Principal.anonymous() : patientOpt.Some.owner,
+    memo: generateCorrelationId(payment.id),
+    refund_eligible: false,
+    block: None,
+    created_at: ic.time(),
+    paid_at: payment.status === "completed" ? Some(ic.time()) : None,
+    claim_id: None,
+    invoice_id: None,
+    refunded_amount: 0n,
+    status:
+      PaymentStatuses[
+        LEGACY_PAYMENT_STATUSES[payment.status.toLowerCase()] ?? "Failed"
+      ],
+  };
+}
+
+// Profiles stored before history was kept get their current state as the
+// first version, so they can be read as of the upgrade
+function recordPatientBaselines() {
+  for (const patient of Patients.values()) {
+    if (!PatientVersionHeads.containsKey(patient.id)) {
+      savePatientVersion(patient, undefined, "baseline");
+    }
+  }
+}
+
+function recordMedicalRecordBaselines() {
+  for (const medicalRecord of MedicalRecords.values()) {
+    if (!MedicalRecordVersionHeads.containsKey(medicalRecord.patient_id)) {
+      saveMedicalRecordVersion(medicalRecord, undefined, "baseline");
+    }
+  }
+}
+
+// Lookups the version 0 steps need, collected once before their step runs
+const legacyPaidAppointments = new Set<text>(); // appointment ids
+const legacyConversations = new Map<text, text>(); // patient and doctor id -> conversation id
+
+function conversationKey(patientId: text, doctorId: text): text {
+  return `${patientId}/${doctorId}`;
+}
+
+// Runs after the version 4 payments step
+function collectPaidAppointments() {
+  for (const payment of Payments.values()) {
+    if ("Completed" in payment.status) {
+      legacyPaidAppointments.add(payment.appointment_id);
+    }
+  }
+}
+
+function collectConversations() {
+  for (const conversation of Conversations.values()) {
+    legacyConversations.set(
+      conversationKey(conversation.patient_id, conversation.doctor_id),
+      conversation.id
+    );
+  }
+}
+
+// Settled payments mark their appointment paid
+function upgradeAppointmentV0(
+  appointment: typeof AppointmentV0.tsType
+): typeof Appointment.tsType {
+  const appointmentTime = parseLegacyTime(appointment.appointment_time);
+
+  return {
+    ...appointment,
+    appointment_time: appointmentTime,
+    end_time: appointmentTime + LEGACY_APPOINTMENT_DURATION,
+    status:
+      AppointmentStatuses[
+        LEGACY_APPOINTMENT_STATUSES[appointment.status.toLowerCase()] ??
+          "Scheduled"
+      ],
+    paid: legacyPaidAppointments.has(appointment.id),
+  };
+}
+
+// Free-text medications cannot go through the safety checks or be dispensed,
+// so they stay readable in the instructions of an expired prescription
+function upgradePrescriptionV0(
+  prescription: typeof PrescriptionV0.tsType
+): typeof Prescription.tsType {
+  const { medications, ...rest } = prescription;
+
+  return {
+    ...rest,
+    lines: [],
+    instructions: [...medications, prescription.instructions]
+      .filter((entry) => entry.trim().length > 0)
+      .join("\n"),
+    warnings: [],
+    override_reason: None,
+    status: PrescriptionStatuses.Expired,
+    expires_at: ic.time(),
+    fills_authorized: 1,
+    fills_completed: 0,
+    current_fill_dispensed: [],
+    cancel_reason: None,
+  };
+}
+
+// Free-text lab results and immunizations have no structure to parse, so every
+// version 0 entry becomes a clinical note without an author
+function upgradeMedicalRecordV0(
+  medicalRecord: typeof MedicalRecordV0.tsType
+): typeof MedicalRecord.tsType {
+  const notes = [
+    ...medicalRecord.consultation_notes,
+    ...medicalRecord.lab_results.map((result) => `Lab result: ${result}`),
+    ...medicalRecord.immunizations.map(
+      (immunization) => `Immunization: ${immunization}`
+    ),
+  ];
+
+  return {
+    patient_id: medicalRecord.patient_id,
+    clinical_notes: notes.map((note) => ({
+      id: uuidv4(),
+      author_doctor_id: "",
+      encounter_id: None,
+      note,
+      amends: None,
+      recorded_at: ic.time(),
+    })),
+    prescriptions: medicalRecord.prescriptions.map(upgradePrescriptionV0),
+    lab_results: [],
+    immunizations: [],
+  };
+}
+
+// Version 0 chats did not record their sender; they are attributed to the patient
+function upgradeChatV0(chat: typeof ChatV0.tsType): typeof Chat.tsType {
+  const timestamp = parseLegacyTime(chat.timestamp);
+  const patientOpt = Patients.get(chat.patient_id);
+  const key = conversationKey(chat.patient_id, chat.doctor_id);
+  const existingId = legacyConversations.get(key);
+  const existing =
+    existingId === undefined ? undefined : Conversations.get(existingId).Some;
+  const conversation = existing ?? {
+    id: uuidv4(),
+    patient_id: chat.patient_id,
+    doctor_id: chat.doctor_id,
+    consultation_id: None,
+    appointment_id: None,
+    created_at: timestamp,
+    last_message_at: None,
+    patient_unread_count: 0,
+    doctor_unread_count: 0,
+  };
+  const lastMessageAt =
+    "Some" in conversation.last_message_at &&
+    conversation.last_message_at.Some! > timestamp
+      ? conversation.last_message_at.Some!
+      : timestamp;
+
+  Conversations.insert(conversation.id, {
+    ...conversation,
+    created_at:
+      conversation.created_at < timestamp ? conversation.created_at : timestamp,
+    last_message_at: Some(lastMessageAt),
+  });
+  legacyConversations.set(key, conversation.id);
+
+  // Earlier chats of the conversation were migrated already
+  const sentAt = (chatId: text) =>
+    chatId === chat.id ? timestamp : Chats.get(chatId).Some?.timestamp ?? 0n;
+
+  ConversationMessages.insert(
+    conversation.id,
+    [...conversationMessageIds(conversation.id), chat.id].sort((left, right) =>
+      sentAt(left) < sentAt(right) ? -1 : 1
+    )
+  );
+
+  return {
+    id: chat.id,
+    conversation_id: conversation.id,
+    sender:
+      "None" in patientOpt ? Principal.anonymous() : patientOpt.Some.owner,
+    from_doctor: false,
+    message: chat.message,
+    timestamp,
+    edited_at: None,
+    deleted: false,
+    read_at: None,
+  };
+}
+
+// Access Control Helpers
+function getRoles(principal: Principal): RoleName[] {
+  const rolesOpt = UserRoles.get(principal);
+
+  if ("None" in rolesOpt) {
+    return [];
+  }
+
+  return rolesOpt.Some.map(
+    (role: typeof Role.tsType) => Object.keys(role)[0] as RoleName
+  );
+}
+
+const RoleVariants: { [name in RoleName]: typeof Role.tsType } = {
+  Admin: { Admin: null },
+  Doctor: { Doctor: null },
+  Patient: { Patient: null },
+  Staff: { Staff: null },
+  Pharmacy: { Pharmacy: null },
+};
+
+function toRoleVariants(roles: RoleName[]): (typeof Role.tsType)[] {
+  return roles.map((name) => RoleVariants[name]);
+}
+
+function hasRole(principal: Principal, ...roles: RoleName[]): boolean {
+  return holdsRole(getRoles(principal), roles);
+}
+
+function callerHasRole(...roles: RoleName[]): boolean {
+  return hasRole(ic.caller(), ...roles);
+}
+
+function assignRole(principal: Principal, role: RoleName) {
+  const roles = getRoles(principal);
+
+  if (!roles.includes(role)) {
+    UserRoles.insert(principal, toRoleVariants(withRole(roles, role)));
+  }
+}
+
+function removeRole(principal: Principal, role: RoleName) {
+  const roles = withoutRole(getRoles(principal), role);
+
+  if (roles.length === 0) {
+    UserRoles.remove(principal);
+  } else {
+    UserRoles.insert(principal, toRoleVariants(roles));
+  }
+}
+
+function isCaller(owner: Principal): boolean {
+  return owner.toText() === ic.caller().toText();
+}
+
+// The caller owns the patient profile
+function callerOwnsPatient(patientId: text): boolean {
+  const patientOpt = livePatient(patientId);
+
+  return "Some" in patientOpt && isCaller(patientOpt.Some!.owner);
+}
+
+// Doctor profile registered by the caller, if any
+function findCallerDoctor(): typeof Doctor.tsType | undefined {
+  const doctorIdOpt = DoctorsByOwner.get(ic.caller());
+
+  return "None" in doctorIdOpt ? undefined : liveDoctor(doctorIdOpt.Some).Some;
+}
+
+// Patient profile registered by the caller, if any
+function findCallerPatient(): typeof Patient.tsType | undefined {
+  const patientIdOpt = PatientsByOwner.get(ic.caller());
+
+  return "None" in patientIdOpt
+    ? undefined
+    : livePatient(patientIdOpt.Some).Some;
+}
+
+// The caller is a doctor acting under the given doctor profile
+function callerIsDoctor(doctorId: text): boolean {
+  const doctorOpt = liveDoctor(doctorId);
+
+  return (
+    callerHasRole("Doctor") &&
+    "Some" in doctorOpt &&
+    isCaller(doctorOpt.Some!.owner)
+  );
+}
+
+// Payment Helpers
+function clinicAddress(): text {
+  return hexAddressFromPrincipal(ic.id(), 0);
+}
+
+// FNV-1a hash used to derive the ledger memo of a payment
+function generateCorrelationId(paymentId: text): nat64 {
+  const input = `${paymentId}_${ic.caller().toText()}_${ic.time()}`;
+  let hash = 0xcbf29ce484222325n;
+
+  for (let i = 0; i < input.length; i++) {
+    hash ^= BigInt(input.charCodeAt(i));
+    hash = (hash * 0x100000001b3n) & 0xffffffffffffffffn;
+  }
+
+  return hash;
+}
+
+function paymentStatusName(payment: typeof Payment.tsType): PaymentStatusName {
+  return Object.keys(payment.status)[0] as PaymentStatusName;
+}
+
+function transitionPayment(
+  payment: typeof Payment.tsType,
+  to: PaymentStatusName,
+  changes: Partial<typeof Payment.tsType> = {}
+): { Ok: typeof Payment.tsType } | { Err: string } {
+  const from = paymentStatusName(payment);
+
+  if (!PAYMENT_TRANSITIONS[from].includes(to)) {
+    return {
+      Err: `Payment with id=${payment.id} cannot move from ${from} to ${to}`,
+    };
+  }
+
+  const updatedPayment = {
+    ...payment,
+    ...changes,
+    status: PaymentStatuses[to],
+  };
+
+  Payments.insert(payment.id, updatedPayment);
+  return { Ok: updatedPayment };
+}
+
+// Payments whose transfer reached the clinic, including refunded ones
+function isSettled(payment: typeof Payment.tsType): boolean {
+  return isSettledStatus(paymentStatusName(payment));
+}
+
+function reservationExpiry(payment: typeof Payment.tsType): nat64 {
+  return reservationExpiresAt(payment.created_at, PAYMENT_RESERVATION_PERIOD);
+}
+
+// Mark a pending payment failed once its reservation lapsed; a transfer that
+// still arrives can settle it with completePayment
+function releaseLapsedReservation(
+  payment: typeof Payment.tsType,
+  now: nat64
+): boolean {
+  if (!("Pending" in payment.status) || now < reservationExpiry(payment)) {
+    return false;
+  }
+
+  transitionPayment(payment, "Failed");
+  return true;
+}
+
+// Whether a verified transfer still goes towards what the payment was for; a
+// late one can find its invoice voided or paid by other payments
+function transferStillNeeded(payment: typeof Payment.tsType): boolean {
+  const invoiceOpt = Invoices.get(payment.invoice_id.Some ?? "");
+
+  if ("None" in invoiceOpt) {
+    const appointmentOpt = Appointments.get(payment.appointment_id);
+
+    return "Some" in appointmentOpt && !appointmentOpt.Some!.paid;
+  }
+
+  return (
+    invoiceStatusName(invoiceOpt.Some) === "Issued" &&
+    payment.amount <= invoiceBalance(invoiceOpt.Some).outstanding
+  );
+}
+
+// Send an approved refund back to the payer. If the transfer fails, the
+// refund is stored as it was before, so it can be reviewed again
+async function payOutRefund(
+  refund: typeof Refund.tsType,
+  reviewed: typeof Refund.tsType
+): Promise<{ Ok: typeof Refund.tsType } | { Err: string }> {
+  const payer = Payments.get(refund.payment_id).Some!.payer;
+
+  // Hold the request while the transfer runs, so it is sent only once
+  Refunds.insert(refund.id, {
+    ...reviewed,
+    status: RefundStatuses.Processing,
+  });
+
+  let result;
+
+  try {
+    result = await ic.call(icpCanister.transfer, {
+      args: [
+        {
+          memo: refund.memo,
+          amount: { e8s: refund.amount },
+          fee: { e8s: LEDGER_FEE },
+          from_subaccount: None,
+          to: binaryAddressFromPrincipal(payer, 0),
+          created_at_time: None,
+        },
+      ],
+    });
+  } catch (error) {
+    Refunds.insert(refund.id, refund);
+    return { Err: `Refund transfer failed: ${error}` };
+  }
+
+  if ("Err" in result) {
+    Refunds.insert(refund.id, refund);
+    return {
+      Err: `Ledger rejected the refund transfer: ${
+        Object.keys(result.Err!)[0]
+      }`,
+    };
+  }
+
+  // Re-read the payment, which may have changed while waiting for the ledger
+  const payment = Payments.get(refund.payment_id).Some!;
+  const refundedAmount = payment.refunded_amount + refund.amount;
+
+  transitionPayment(payment, refundedStatus(payment.amount, refundedAmount), {
+    refunded_amount: refundedAmount,
+  });
+
+  const refunded = {
+    ...reviewed,
+    status: RefundStatuses.Refunded,
+    block: Some(result.Ok),
+  };
+
+  Refunds.insert(refund.id, refunded);
+  return { Ok: refunded };
+}
+
+// Return a settled transfer that nothing needs any more. The refund is opened
+// on the payment's behalf; if the ledger rejects it, it waits for review
+async function refundUnneededTransfer(payment: typeof Payment.tsType) {
+  const refundId = uuidv4();
+  const now = ic.time();
+  const refund = {
+    id: refundId,
+    payment_id: payment.id,
+    patient_id: payment.patient_id,
+    amount: payment.amount,
+    reason: "Transfer arrived after its reservation lapsed and was not needed",
+    memo: generateCorrelationId(refundId),
+    status: RefundStatuses.Requested,
+    requested_by: ic.id(),
+    requested_at: now,
+    reviewed_by: None,
+    reviewed_at: None,
+    review_note: None,
+    block: None,
+  };
+
+  Refunds.insert(refundId, refund);
+  addToIndex(RefundsByPatient, refund.patient_id, refundId);
+
+  await payOutRefund(refund, {
+    ...refund,
+    reviewed_by: Some(ic.id()),
+    reviewed_at: Some(now),
+    review_note: Some("Refunded automatically"),
+  });
+}
+
+function invoicePayments(
+  invoice: typeof Invoice.tsType
+): (typeof Payment.tsType)[] {
+  return lookupIndexed(Payments, PaymentsByPatient, invoice.patient_id).filter(
+    (payment) => payment.invoice_id.Some === invoice.id
+  );
+}
+
+// What the patient owes on the invoice after insurance, and what is still open;
+// refunds do not reopen a balance
+function invoiceBalance(invoice: typeof Invoice.tsType): {
+  due: nat64;
+  outstanding: nat64;
+} {
+  const appointmentOpt = Appointments.get(invoice.appointment_id);
+  const claim =
+    "Some" in appointmentOpt
+      ? appointmentClaim(appointmentOpt.Some!)
+      : undefined;
+  const due =
+    claim === undefined || "None" in claim.approved_amount
+      ? invoice.total
+      : invoice.total - claim.approved_amount.Some!;
+  const paid = invoicePayments(invoice)
+    .filter(isSettled)
+    .reduce((total, payment) => total + payment.amount, 0n);
+
+  return { due, outstanding: due > paid ? due - paid : 0n };
+}
+
+function refundStatusName(refund: typeof Refund.tsType): RefundStatusName {
+  return Object.keys(refund.status)[0] as RefundStatusName;
+}
+
+// Amounts of the refund requests of the payment still waiting for a decision
+function openRefundRequests(payment: typeof Payment.tsType): nat64[] {
+  return lookupIndexed(Refunds, RefundsByPatient, payment.patient_id)
+    .filter(
+      (refund) =>
+        refund.payment_id === payment.id &&
+        (refundStatusName(refund) === "Requested" ||
+          refundStatusName(refund) === "Processing")
+    )
+    .map((refund) => refund.amount);
+}
+
+// A payment or refund as the ledger should show it
+type LedgerEntry = {
+  payment_id: Opt<text>;
+  refund_id: Opt<text>;
+  amount: nat64;
+  block: Opt<nat64>;
+  settled: boolean;
+};
+
+// Compare the clinic's transfers in a range of ledger blocks with the recorded
+// payments (incoming), including those of deleted patients, and refunds
+// (outgoing), matched by memo
+function reconcileBlocks(
+  firstBlock: nat64,
+  blocks: { transaction: { memo: nat64; operation: Opt<Operation> } }[]
+): {
+  matched: number;
+  mismatches: (typeof PaymentMismatch.tsType)[];
+} {
+  const clinic = binaryAddressFromPrincipal(ic.id(), 0);
+  const payments = [
+    ...Payments.values(),
+    ...PatientArchives.values().flatMap((archive) => archive.payments),
+  ];
+  const incoming = new Map<nat64, LedgerEntry>(
+    payments.map((payment) => [
+      payment.memo,
+      {
+        payment_id: Some(payment.id),
+        refund_id: None,
+        amount: payment.amount,
+        block: payment.block,
+        settled: isSettled(payment),
+      },
+    ])
+  );
+  const outgoing = new Map<nat64, LedgerEntry>(
+    Refunds.values().map((refund) => [
+      refund.memo,
+      {
+        payment_id: Some(refund.payment_id),
+        refund_id: Some(refund.id),
+        amount: refund.amount,
+        block: refund.block,
+        settled: refundStatusName(refund) === "Refunded",
+      },
+    ])
+  );
+  const lastBlock = firstBlock + BigInt(blocks.length);
+  const found = new Set<LedgerEntry>();
+  const mismatches: (typeof PaymentMismatch.tsType)[] = [];
+  let matched = 0;
+
+  const mismatch = (
+    kind: typeof MismatchKind.tsType,
+    block: Opt<nat64>,
+    entry: LedgerEntry | undefined,
+    ledgerAmount: Opt<nat64>
+  ) =>
+    mismatches.push({
+      kind,
+      block,
+      payment_id: entry?.payment_id ?? None,
+      refund_id: entry?.refund_id ?? None,
+      recorded_amount: entry ? Some(entry.amount) : None,
+      ledger_amount: ledgerAmount,
+    });
+
+  blocks.forEach((ledgerBlock, offset) => {
+    const block = firstBlock + BigInt(offset);
+    const operationOpt = ledgerBlock.transaction.operation;
+    const transfer =
+      "Some" in operationOpt ? operationOpt.Some!.Transfer : undefined;
+
+    if (transfer === undefined) {
+      return;
+    }
+
+    const entries = sameAddress(transfer.to, clinic)
+      ? incoming
+      : sameAddress(transfer.from, clinic)
+      ? outgoing
+      : undefined;
+
+    if (entries === undefined) {
+      return;
+    }
+
+    const entry = entries.get(ledgerBlock.transaction.memo);
+    const ledgerAmount: nat64 = transfer.amount.e8s;
+
+    if (entry === undefined) {
+      mismatch(
+        { UnknownTransfer: null },
+        Some(block),
+        undefined,
+        Some(ledgerAmount)
+      );
+      return;
+    }
+
+    if (entry.block.Some === block) {
+      found.add(entry);
+    }
+
+    if (entry.amount !== ledgerAmount) {
+      mismatch(
+        { AmountMismatch: null },
+        Some(block),
+        entry,
+        Some(ledgerAmount)
+      );
+    } else if (!entry.settled) {
+      mismatch(
+        { UnrecordedTransfer: null },
+        Some(block),
+        entry,
+        Some(ledgerAmount)
+      );
+    } else if (entry.block.Some !== block) {
+      mismatch(
+        { DuplicateTransfer: null },
+        Some(block),
+        entry,
+        Some(ledgerAmount)
+      );
+    } else {
+      matched++;
+    }
+  });
+
+  for (const entry of [...incoming.values(), ...outgoing.values()]) {
+    const block = entry.block.Some;
+
+    if (
+      entry.settled &&
+      block !== undefined &&
+      block >= firstBlock &&
+      block < lastBlock &&
+      !found.has(entry)
+    ) {
+      mismatch({ MissingTransfer: null }, entry.block, entry, None);
+    }
+  }
+
+  return { matched, mismatches };
+}
+
+// Check that the given ledger block holds the transfer settling the payment
+async function verifyLedgerTransfer(
+  payment: typeof Payment.tsType,
+  block: nat64
+): Promise<boolean> {
+  const blockData = await ic.call(icpCanister.query_blocks, {
+    args: [{ start: block, length: 1n }],
+  });
+
+  const expected = {
+    memo: payment.memo,
+    from: binaryAddressFromPrincipal(payment.payer, 0),
+    to: binaryAddressFromPrincipal(ic.id(), 0),
+    amount: payment.amount,
+  };
+
+  return blockData.blocks.some((ledgerBlock) => {
+    const operationOpt = ledgerBlock.transaction.operation;
+
+    return isExpectedTransfer(
+      ledgerBlock.transaction.memo,
+      "Some" in operationOpt ? operationOpt.Some!.Transfer : undefined,
+      expected
+    );
+  });
+}
+
+// Invoice Helpers
+function invoiceStatusName(invoice: typeof Invoice.tsType): InvoiceStatusName {
+  return Object.keys(invoice.status)[0] as InvoiceStatusName;
+}
+
+function transitionInvoice(
+  invoice: typeof Invoice.tsType,
+  to: InvoiceStatusName,
+  changes: Partial<typeof Invoice.tsType> = {}
+): { Ok: typeof Invoice.tsType } | { Err: string } {
+  const from = invoiceStatusName(invoice);
+
+  if (!INVOICE_TRANSITIONS[from].includes(to)) {
+    return {
+      Err: `Invoice with id=${invoice.id} cannot move from ${from} to ${to}`,
+    };
+  }
+
+  const updatedInvoice = {
+    ...invoice,
+    ...changes,
+    status: InvoiceStatuses[to],
+  };
+
+  Invoices.insert(invoice.id, updatedInvoice);
+  return { Ok: updatedInvoice };
+}
+
+// Invoice of the appointment that has not been voided, if any
+function appointmentInvoice(
+  appointment: typeof Appointment.tsType
+): typeof Invoice.tsType | undefined {
+  return lookupIndexed(
+    Invoices,
+    InvoicesByPatient,
+    appointment.patient_id
+  ).find(
+    (invoice) =>
+      invoice.appointment_id === appointment.id &&
+      invoiceStatusName(invoice) !== "Void"
+  );
+}
+
+// Catalog service the invoice lines are priced from
+function serviceOf(serviceId: text): typeof Service.tsType | undefined {
+  return Services.get(serviceId).Some;
+}
+
+// Mark the invoice and its appointment paid
+function settleInvoice(invoice: typeof Invoice.tsType) {
+  transitionInvoice(invoice, "Paid", { paid_at: Some(ic.time()) });
+
+  const appointmentOpt = Appointments.get(invoice.appointment_id);
+
+  if ("Some" in appointmentOpt) {
+    Appointments.insert(invoice.appointment_id, {
+      ...appointmentOpt.Some!,
+      paid: true,
+    });
+  }
+}
+
+// Insurance Helpers
+function claimStatusName(claim: typeof InsuranceClaim.tsType): ClaimStatusName {
+  return Object.keys(claim.status)[0] as ClaimStatusName;
+}
+
+// Latest policy of the patient that is still in force at the given time
+function activePolicy(
+  patientId: text,
+  at: nat64
+): typeof InsurancePolicy.tsType | undefined {
+  return lookupIndexed(InsurancePolicies, PoliciesByPatient, patientId)
+    .filter((policy) => policy.created_at <= at && at < policy.expires_at)
+    .sort((left, right) => (left.created_at > right.created_at ? -1 : 1))[0];
+}
+
+function calendarYear(time: nat64): number {
+  return new Date(Number(time / 1_000_000n)).getUTCFullYear();
+}
+
+// Deductible and coverage the policy has used in the year of the service date;
+// submitted claims count with their estimate until the insurer decides
+function yearToDateUsage(
+  policy: typeof InsurancePolicy.tsType,
+  serviceDate: nat64
+): { deductible: nat64; covered: nat64 } {
+  const year = calendarYear(serviceDate);
+
+  return lookupIndexed(InsuranceClaims, ClaimsByPatient, policy.patient_id)
+    .filter(
+      (claim) =>
+        claim.policy_id === policy.id &&
+        claimStatusName(claim) !== "Denied" &&
+        calendarYear(claim.service_date) === year
+    )
+    .reduce(
+      (usage, claim) => ({
+        deductible: usage.deductible + claim.estimate.deductible_applied,
+        covered:
+          usage.covered +
+          ("Some" in claim.approved_amount
+            ? claim.approved_amount.Some!
+            : claim.estimate.covered_amount),
+      }),
+      { deductible: 0n, covered: 0n }
+    );
+}
+
+function estimateCost(
+  patientId: text,
+  departmentId: text,
+  serviceCode: Opt<text>,
+  billedAmount: nat64,
+  serviceDate: nat64
+): typeof CostEstimate.tsType {
+  const policy = activePolicy(patientId, serviceDate);
+
+  if (policy === undefined) {
+    return uninsuredCost(billedAmount);
+  }
+
+  return splitCost(
+    policy,
+    yearToDateUsage(policy, serviceDate),
+    departmentId,
+    serviceCode.Some,
+    billedAmount
+  );
+}
+
+// Split the invoice line by line under the policy in force on the service date
+function estimateInvoiceCost(
+  invoice: typeof Invoice.tsType,
+  serviceDate: nat64
+): typeof CostEstimate.tsType {
+  const policy = activePolicy(invoice.patient_id, serviceDate);
+
+  if (policy === undefined) {
+    return uninsuredCost(invoice.total);
+  }
+
+  return splitLines(
+    policy,
+    yearToDateUsage(policy, serviceDate),
+    invoice.department_id,
+    invoice.lines
+  );
+}
+
+// Claim on the appointment that is still open or was paid out, if any
+function appointmentClaim(
+  appointment: typeof Appointment.tsType
+): typeof InsuranceClaim.tsType | undefined {
+  return lookupIndexed(
+    InsuranceClaims,
+    ClaimsByPatient,
+    appointment.patient_id
+  ).find(
+    (claim) =>
+      claim.appointment_id === appointment.id &&
+      claimStatusName(claim) !== "Denied"
+  );
+}
+
+// Scheduling Helpers
+function appointmentStatusName(
+  appointment: typeof Appointment.tsType
+): AppointmentStatusName {
+  return Object.keys(appointment.status)[0] as AppointmentStatusName;
+}
+
+// Time an appointment holds in the calendar
+function bookedRange(
+  appointment: typeof Appointment.tsType
+): typeof TimeSlot.tsType {
+  return {
+    start_time: appointment.appointment_time,
+    end_time: appointment.end_time,
+  };
+}
+
+// Appointments that still hold their slot
+function isActiveAppointment(appointment: typeof Appointment.tsType): boolean {
+  const status = appointmentStatusName(appointment);
+
+  return status === "Scheduled" || status === "InProgress";
+}
+
+// Move an appointment to a new status and record the transition
+function transitionAppointment(
+  appointment: typeof Appointment.tsType,
+  to: AppointmentStatusName,
+  reason: text,
+  changes: Partial<typeof Appointment.tsType> = {}
+): { Ok: typeof Appointment.tsType } | { Err: string } {
+  const from = appointmentStatusName(appointment);
+
+  if (!APPOINTMENT_TRANSITIONS[from].includes(to)) {
+    return {
+      Err: `Appointment with id=${appointment.id} cannot move from ${from} to ${to}`,
+    };
+  }
+
+  const updatedAppointment = {
+    ...appointment,
+    ...changes,
+    status: AppointmentStatuses[to],
+  };
+  const historyOpt = AppointmentHistory.get(appointment.id);
+  const transition = {
+    from: appointment.status,
+    to: updatedAppointment.status,
+    changed_by: ic.caller(),
+    changed_at: ic.time(),
+    reason,
+  };
+
+  Appointments.insert(appointment.id, updatedAppointment);
+  AppointmentHistory.insert(appointment.id, [
+    ...("None" in historyOpt ? [] : historyOpt.Some),
+    transition,
+  ]);
+
+  return { Ok: updatedAppointment };
+}
+
+// Release pending reservations and flag settled payments of a canceled appointment
+function settlePaymentsOnCancel(
+  appointment: typeof Appointment.tsType,
+  refundEligible: boolean
+) {
+  const payments = lookupIndexed(
+    Payments,
+    PaymentsByPatient,
+    appointment.patient_id
+  ).filter((payment) => payment.appointment_id === appointment.id);
+
+  for (const payment of payments) {
+    if ("Pending" in payment.status) {
+      transitionPayment(payment, "Failed");
+    } else if ("Completed" in payment.status) {
+      Payments.insert(payment.id, {
+        ...payment,
+        refund_eligible: refundEligible,
+      });
+    }
+  }
+}
+
+// Open slots of a doctor within [rangeStart, rangeEnd), sorted by start time
+function computeOpenSlots(
+  schedule: typeof DoctorSchedule.tsType,
+  rangeStart: nat64,
+  rangeEnd: nat64,
+  ignoreAppointmentId: text = ""
+): (typeof TimeSlot.tsType)[] {
+  const booked = lookupIndexed(
+    Appointments,
+    AppointmentsByDoctor,
+    schedule.doctor_id
+  )
+    .filter(
+      (appointment) =>
+        appointment.id !== ignoreAppointmentId &&
+        isActiveAppointment(appointment)
+    )
+    .map(bookedRange);
+
+  return openSlots(schedule, booked, rangeStart, rangeEnd, ic.time());
+}
+
+// Check that the patient can book the doctor at startTime; returns the slot end
+function checkBookableSlot(
+  doctor: typeof Doctor.tsType,
+  patientId: text,
+  startTime: nat64,
+  ignoreAppointmentId: text = ""
+): { Ok: nat64 } | { Err: string } {
+  if (!doctor.available) {
+    return { Err: `Doctor with id=${doctor.id} is not accepting bookings` };
+  }
+
+  if (startTime <= ic.time()) {
+    return { Err: "Appointment time must be in the future" };
+  }
+
+  const scheduleOpt = DoctorSchedules.get(doctor.id);
+
+  if ("None" in scheduleOpt) {
+    return { Err: `Doctor with id=${doctor.id} has no working hours set` };
+  }
+
+  const schedule = scheduleOpt.Some;
+  const endTime =
+    startTime + BigInt(schedule.slot_duration_minutes) * NANOS_PER_MINUTE;
+
+  const booked = [
+    ...lookupIndexed(Appointments, AppointmentsByPatient, patientId),
+    ...lookupIndexed(Appointments, AppointmentsByDoctor, doctor.id),
+  ]
+    .filter(
+      (appointment) =>
+        appointment.id !== ignoreAppointmentId &&
+        isActiveAppointment(appointment)
+    )
+    .map(bookedRange);
+  const doubleBooked = conflictsWithBooking(startTime, endTime, booked);
+
+  if (doubleBooked) {
+    return {
+      Err: "The doctor or the patient already has an appointment at this time",
+    };
+  }
+
+  const openSlots = computeOpenSlots(
+    schedule,
+    startTime,
+    endTime,
+    ignoreAppointmentId
+  );
+
+  if (!openSlots.some((slot) => slot.start_time === startTime)) {
+    return {
+      Err: "Appointment time is not an open slot within the doctor's working hours",
+    };
+  }
+
+  return { Ok: endTime };
+}
+
+// Book a slot for the patient with the doctor
+function bookAppointment(
+  doctor: typeof Doctor.tsType,
+  patientId: text,
+  reason: text,
+  startTime: nat64
+): { Ok: typeof Appointment.tsType } | { Err: string } {
+  // Reject past times, out-of-hours requests and double bookings
+  const slot = checkBookableSlot(doctor, patientId, startTime);
+
+  if ("Err" in slot) {
+    return slot;
+  }
+
+  const appointment = {
+    id: uuidv4(),
+    patient_id: patientId,
+    doctor_id: doctor.id,
+    reason,
+    appointment_time: startTime,
+    end_time: slot.Ok,
+    status: AppointmentStatuses.Scheduled,
+    video_link: None,
+    paid: false,
+  };
+
+  Appointments.insert(appointment.id, appointment);
+  addToIndex(AppointmentsByPatient, patientId, appointment.id);
+  addToIndex(AppointmentsByDoctor, doctor.id, appointment.id);
+  scheduleReminders(appointment);
+  return { Ok: appointment };
+}
+
+// Medical Record Helpers
+function getOrCreateMedicalRecord(
+  patientId: text
+): typeof MedicalRecord.tsType {
+  const medicalRecordOpt = MedicalRecords.get(patientId);
+
+  if ("Some" in medicalRecordOpt) {
+    return medicalRecordOpt.Some!;
+  }
+
+  return {
+    patient_id: patientId,
+    clinical_notes: [],
+    prescriptions: [],
+    lab_results: [],
+    immunizations: [],
+  };
+}
+
+// Add a clinical note to the patient's medical record
+function appendClinicalNote(
+  patientId: text,
+  doctorId: text,
+  payload: typeof CreateClinicalNotePayload.tsType,
+  change: string
+): typeof MedicalRecord.tsType {
+  const medicalRecord = getOrCreateMedicalRecord(patientId);
+  const updatedRecord = {
+    ...medicalRecord,
+    clinical_notes: [
+      ...medicalRecord.clinical_notes,
+      {
+        ...payload,
+        id: uuidv4(),
+        author_doctor_id: doctorId,
+        recorded_at: ic.time(),
+      },
+    ],
+  };
+
+  saveMedicalRecord(updatedRecord, change);
+  return updatedRecord;
+}
+
+// Consultation or appointment of the patient
+function isEncounterOf(patientId: text, encounterId: text): boolean {
+  const consultationOpt = Consultations.get(encounterId);
+
+  if ("Some" in consultationOpt) {
+    return consultationOpt.Some!.patient_id === patientId;
+  }
+
+  const appointmentOpt = Appointments.get(encounterId);
+
+  return (
+    "Some" in appointmentOpt && appointmentOpt.Some!.patient_id === patientId
+  );
+}
+
+// Vitals Helpers
+function vitalKindName(vital: typeof Vital.tsType): VitalKindName {
+  return Object.keys(vital.kind)[0] as VitalKindName;
+}
+
+// Name of the case a variant value holds
+function variantName<Name extends string>(variant: object): Name {
+  return Object.keys(variant)[0] as Name;
+}
+
+function kilograms(mass: typeof Mass.tsType): number {
+  return toKilograms(mass.value, variantName<MassUnitName>(mass.unit));
+}
+
+function centimeters(length: typeof Length.tsType): number {
+  return toCentimeters(length.value, variantName<LengthUnitName>(length.unit));
+}
+
+function creatinineMgPerDl(creatinine: typeof SerumCreatinine.tsType): number {
+  return toMgPerDl(
+    creatinine.value,
+    variantName<CreatinineUnitName>(creatinine.unit)
+  );
+}
+
+// Field errors of converted measurements outside their plausible range
+function implausibleValues(values: {
+  [field: string]: [kind: string, value: number | undefined];
+}): (typeof FieldError.tsType)[] {
+  return Object.entries(values).flatMap(([field, [kind, value]]) => {
+    const [min, max, unit] = VITAL_RANGES[kind];
+
+    return value === undefined || (value >= min && value <= max)
+      ? []
+      : [
+          {
+            field,
+            reason: `must be between ${min} and ${max} ${unit}`,
+          },
+        ];
+  });
+}
+
+function patientVitals(patientId: text): (typeof Vital.tsType)[] {
+  return lookupIndexed(Vitals, VitalsByPatient, patientId);
+}
+
+// Most recent reading of a kind, e.g. the height for a new weight
+function latestVital(
+  patientId: text,
+  kind: VitalKindName
+): typeof Vital.tsType | undefined {
+  return patientVitals(patientId)
+    .filter((vital) => vitalKindName(vital) === kind)
+    .sort((left, right) => (left.measured_at > right.measured_at ? -1 : 1))[0];
+}
+
+// Prescription Safety Helpers
+// Allergy and interaction conflicts of prescribing the medications to the patient
+function checkPrescriptionSafety(
+  patient: typeof Patient.tsType,
+  medications: (typeof Medication.tsType)[]
+): SafetyFinding[] {
+  // Current medications are free text; match them to the catalog by name
+  const currentNames = patient.current_medications.map(normalizeTerm);
+  const currentMedications = Medications.values().filter((medication) =>
+    currentNames.includes(normalizeTerm(medication.name))
+  );
+
+  return prescriptionSafety(
+    patient.allergies,
+    medications,
+    currentMedications,
+    (key) => {
+      const interactionOpt = DrugInteractions.get(key);
+
+      return "None" in interactionOpt
+        ? undefined
+        : {
+            severity: Object.keys(interactionOpt.Some.severity)[0],
+            description: interactionOpt.Some.description,
+          };
+    }
+  );
+}
+
+// Prescription Lifecycle Helpers
+function prescriptionStatusName(
+  prescription: typeof Prescription.tsType
+): PrescriptionStatusName {
+  return Object.keys(prescription.status)[0] as PrescriptionStatusName;
+}
+
+function isFillable(prescription: typeof Prescription.tsType): boolean {
+  return isFillableStatus(prescriptionStatusName(prescription));
+}
+
+function withEffectiveStatus(
+  prescription: typeof Prescription.tsType
+): typeof Prescription.tsType {
+  const status = effectiveStatus(
+    prescriptionStatusName(prescription),
+    prescription.expires_at,
+    ic.time()
+  );
+
+  return { ...prescription, status: PrescriptionStatuses[status] };
+}
+
+// Store a prescription and keep its copy in the patient's medical record in sync
+function savePrescription(
+  prescription: typeof Prescription.tsType,
+  change: string
+) {
+  Prescriptions.insert(prescription.id, prescription);
+  addToIndex(PrescriptionsByPatient, prescription.patient_id, prescription.id);
+  addToIndex(PrescriptionsByDoctor, prescription.doctor_id, prescription.id);
+  scheduleNotice(
+    timeBefore(prescription.expires_at, PRESCRIPTION_EXPIRY_NOTICE),
+    "prescription",
+    prescription.id
+  );
+
+  const medicalRecord = getOrCreateMedicalRecord(prescription.patient_id);
+
+  saveMedicalRecord(
+    {
+      ...medicalRecord,
+      prescriptions: [
+        ...medicalRecord.prescriptions.filter(
+          (recorded: typeof Prescription.tsType) =>
+            recorded.id !== prescription.id
+        ),
+        prescription,
+      ],
+    },
+    change
+  );
+}
+
+// Consultation Queue Helpers
+function consultationStatusName(
+  consultation: typeof Consultation.tsType
+): ConsultationStatusName {
+  return Object.keys(consultation.status)[0] as ConsultationStatusName;
+}
+
+// Assigned and in-progress consultations of a doctor
+function activeConsultations(doctorId: text): (typeof Consultation.tsType)[] {
+  return lookupIndexed(Consultations, ConsultationsByDoctor, doctorId).filter(
+    (consultation) => {
+      const status = consultationStatusName(consultation);
+
+      return status === "Assigned" || status === "InProgress";
+    }
+  );
+}
+
+// Open consultations wait in the queue; assigned ones are listed under their doctor
+function indexConsultation(consultation: typeof Consultation.tsType) {
+  addToIndex(ConsultationsByPatient, consultation.patient_id, consultation.id);
+  addToIndex(
+    ConsultationsByDepartment,
+    consultation.department_id,
+    consultation.id
+  );
+
+  if (consultationStatusName(consultation) === "Open") {
+    addToIndex(ConsultationQueues, consultation.department_id, consultation.id);
+  } else {
+    removeFromIndex(
+      ConsultationQueues,
+      consultation.department_id,
+      consultation.id
+    );
+  }
+
+  if ("Some" in consultation.doctor_id) {
+    addToIndex(
+      ConsultationsByDoctor,
+      consultation.doctor_id.Some!,
+      consultation.id
+    );
+  }
+}
+
+function unindexConsultation(consultation: typeof Consultation.tsType) {
+  removeFromIndex(
+    ConsultationsByDepartment,
+    consultation.department_id,
+    consultation.id
+  );
+  removeFromIndex(
+    ConsultationQueues,
+    consultation.department_id,
+    consultation.id
+  );
+
+  if ("Some" in consultation.doctor_id) {
+    removeFromIndex(
+      ConsultationsByDoctor,
+      consultation.doctor_id.Some!,
+      consultation.id
+    );
+  }
+}
+
+// Move a consultation to a new status and keep the queue and doctor index in sync
+function transitionConsultation(
+  consultation: typeof Consultation.tsType,
+  to: ConsultationStatusName,
+  changes: Partial<typeof Consultation.tsType> = {}
+): { Ok: typeof Consultation.tsType } | { Err: string } {
+  const from = consultationStatusName(consultation);
+
+  if (!CONSULTATION_TRANSITIONS[from].includes(to)) {
+    return {
+      Err: `Consultation with id=${consultation.id} cannot move from ${from} to ${to}`,
+    };
+  }
+
+  const updatedConsultation = {
+    ...consultation,
+    ...changes,
+    status: ConsultationStatuses[to],
+  };
+
+  unindexConsultation(consultation);
+  Consultations.insert(consultation.id, updatedConsultation);
+  indexConsultation(updatedConsultation);
+
+  return { Ok: updatedConsultation };
+}
+
+function assignConsultationTo(
+  consultation: typeof Consultation.tsType,
+  doctorId: text
+): { Ok: typeof Consultation.tsType } | { Err: string } {
+  return transitionConsultation(consultation, "Assigned", {
+    doctor_id: Some(doctorId),
+    assigned_at: Some(ic.time()),
+  });
+}
+
+function departmentRouting(
+  departmentId: text
+): typeof DepartmentRouting.tsType {
+  const routingOpt = DepartmentRoutings.get(departmentId);
+
+  return "None" in routingOpt ? DEFAULT_DEPARTMENT_ROUTING : routingOpt.Some;
+}
+
+// Doctor the department's strategy picks for its next consultation, if any
+function pickDoctor(departmentId: text): typeof Doctor.tsType | undefined {
+  const routing = departmentRouting(departmentId);
+  const strategy = Object.keys(routing.strategy)[0] as AssignmentStrategyName;
+  const candidates = lookupIndexed(Doctors, DoctorsByDepartment, departmentId)
+    .filter((doctor) => !isDeleted(doctor) && doctor.available)
+    .map((doctor) => ({
+      doctor,
+      id: doctor.id,
+      load:
+        strategy === "LeastLoaded" ? activeConsultations(doctor.id).length : 0,
+    }));
+
+  return pickCandidate(
+    strategy,
+    candidates,
+    routing.last_assigned_doctor_id.Some
+  );
+}
+
+// Hand a new consultation to a doctor when the department assigns automatically
+function autoAssign(
+  consultation: typeof Consultation.tsType
+): typeof Consultation.tsType {
+  const doctor = pickDoctor(consultation.department_id);
+
+  if (doctor === undefined) {
+    return consultation;
+  }
+
+  const assigned = assignConsultationTo(consultation, doctor.id);
+
+  if ("Err" in assigned) {
+    return consultation;
+  }
+
+  DepartmentRoutings.insert(consultation.department_id, {
+    ...departmentRouting(consultation.department_id),
+    last_assigned_doctor_id: Some(doctor.id),
+  });
+
+  return assigned.Ok;
+}
+
+// Consent Helpers
+function consentTerms(grant: typeof ConsentGrant.tsType): ConsentTerms {
+  return {
+    ...grant,
+    scopes: grant.scopes.map(
+      (scope: typeof ConsentScope.tsType) =>
+        Object.keys(scope)[0] as ConsentScopeName
+    ),
+    revoked: "Some" in grant.revoked_at,
+  };
+}
+
+// Scopes of a patient's data the caller may read
+function callerAccessScopes(patientId: text): ConsentScopeName[] {
+  if (callerOwnsPatient(patientId) || callerHasRole("Admin")) {
+    return ["FullRecord"];
+  }
+
+  const doctor = findCallerDoctor();
+
+  if (callerHasRole("Doctor") && doctor) {
+    const now = ic.time();
+
+    if (inEmergency(BreakGlassLog.values(), patientId, doctor.id, now)) {
+      return ["FullRecord"];
+    }
+
+    const scopes = consentedScopes(
+      lookupIndexed(ConsentGrants, ConsentGrantsByPatient, patientId).map(
+        consentTerms
+      ),
+      patientId,
+      doctor,
+      now
+    );
+
+    if (scopes.length > 0) {
+      return scopes;
+    }
+  }
+
+  // Front-desk staff need contact details to run the clinic
+  if (callerHasRole("Staff")) {
+    return ["Demographics"];
+  }
+
+  return [];
+}
+
+// The caller is the doctor assigned to the consultation
+function callerHandles(consultation: typeof Consultation.tsType): boolean {
+  return (
+    "Some" in consultation.doctor_id &&
+    callerIsDoctor(consultation.doctor_id.Some!)
+  );
+}
+
+// Chat Helpers
+// Which side of the conversation the caller is on, if any
+function callerSideIn(
+  conversation: typeof Conversation.tsType
+): "Patient" | "Doctor" | undefined {
+  if (callerIsDoctor(conversation.doctor_id)) {
+    return "Doctor";
+  }
+
+  if (callerOwnsPatient(conversation.patient_id)) {
+    return "Patient";
+  }
+
+  return undefined;
+}
+
+function callerParticipatesIn(
+  conversation: typeof Conversation.tsType
+): boolean {
+  return callerSideIn(conversation) !== undefined;
+}
+
+function conversationMessageIds(conversationId: text): text[] {
+  const messageIdsOpt = ConversationMessages.get(conversationId);
+
+  return "None" in messageIdsOpt ? [] : messageIdsOpt.Some;
+}
+
+function lastActivity(conversation: typeof Conversation.tsType): nat64 {
+  return "None" in conversation.last_message_at
+    ? conversation.created_at
+    : conversation.last_message_at.Some;
+}
+
+// Notification Helpers
+function notificationPreferences(
+  principal: Principal
+): typeof NotificationPreferences.tsType {
+  const preferencesOpt = NotificationPreferencesStore.get(principal);
+
+  return "None" in preferencesOpt
+    ? DEFAULT_NOTIFICATION_PREFERENCES
+    : preferencesOpt.Some;
+}
+
+function wantsNotification(
+  recipient: Principal,
+  kind: NotificationKindName
+): boolean {
+  const preferences = notificationPreferences(recipient);
+
+  return {
+    AppointmentReminder: preferences.appointment_reminders,
+    PrescriptionExpiring: preferences.prescription_notices,
+    PaymentDue: preferences.payment_notices,
+    NewMessage: preferences.message_notices,
+  }[kind];
+}
+
+function inboxIds(recipient: Principal): text[] {
+  return indexedIds(NotificationsByRecipient, recipient.toText());
+}
+
+// Add a notification to the recipient's inbox unless they opted out of its kind;
+// a full inbox drops its oldest notifications
+function notify(
+  recipient: Principal,
+  kind: NotificationKindName,
+  subjectId: text,
+  message: text
+) {
+  if (recipient.isAnonymous() || !wantsNotification(recipient, kind)) {
+    return;
+  }
+
+  const notification = {
+    id: uuidv4(),
+    recipient,
+    kind: NotificationKinds[kind],
+    subject_id: subjectId,
+    message,
+    created_at: ic.time(),
+    read_at: None,
+  };
+  const ids = [...inboxIds(recipient), notification.id];
+  const dropped = ids.slice(0, Math.max(ids.length - MAX_INBOX_SIZE, 0));
+
+  for (const id of dropped) {
+    Notifications.remove(id);
+  }
+
+  Notifications.insert(notification.id, notification);
+  NotificationsByRecipient.insert(
+    recipient.toText(),
+    ids.slice(dropped.length)
+  );
+}
+
+// Have the notification sweep look at the subject once dueAt has passed
+function scheduleNotice(dueAt: nat64, kind: ScheduledKind, subject: text) {
+  addToIndex(
+    NoticeSchedule,
+    noticeScheduleKey(dueAt),
+    scheduleEntry(kind, subject)
+  );
+}
+
+// Remember a sent notice until the event it announces has passed
+function rememberNotice(key: text, forgetAt: nat64) {
+  SentNotices.insert(key, forgetAt);
+  scheduleNotice(forgetAt, "forget", key);
+}
+
+// Notify once per key; the key is kept until the event it announces has passed
+function notifyOnce(
+  key: text,
+  forgetAt: nat64,
+  recipient: Principal,
+  kind: NotificationKindName,
+  subjectId: text,
+  message: text
+) {
+  if (SentNotices.containsKey(key)) {
+    return;
+  }
+
+  rememberNotice(key, forgetAt);
+  notify(recipient, kind, subjectId, message);
+}
+
+function formatTime(time: nat64): string {
+  return new Date(Number(time / 1_000_000n)).toISOString();
+}
+
+function patientOwner(patientId: text): Principal | undefined {
+  return livePatient(patientId).Some?.owner;
+}
+
+function doctorOwner(doctorId: text): Principal | undefined {
+  return liveDoctor(doctorId).Some?.owner;
+}
+
+function appointmentParticipants(
+  appointment: typeof Appointment.tsType
+): Principal[] {
+  return [
+    patientOwner(appointment.patient_id),
+    doctorOwner(appointment.doctor_id),
+  ].filter((owner): owner is Principal => owner !== undefined);
+}
+
+function reminderTimes(
+  appointment: typeof Appointment.tsType,
+  recipient: Principal
+): nat64[] {
+  return Array.from(
+    notificationPreferences(recipient).reminder_offsets_minutes
+  ).map(
+    (offset) => appointment.appointment_time - BigInt(offset) * NANOS_PER_MINUTE
+  );
+}
+
+// The first look is a week ahead, where the longest reminder offset can fall
+function scheduleReminders(appointment: typeof Appointment.tsType) {
+  scheduleNotice(
+    timeBefore(
+      appointment.appointment_time,
+      BigInt(MAX_REMINDER_OFFSET_MINUTES) * NANOS_PER_MINUTE
+    ),
+    "appointment",
+    appointment.id
+  );
+}
+
+// One reminder per participant once any of their reminder offsets is reached
+function remindOfAppointment(
+  appointment: typeof Appointment.tsType,
+  now: nat64
+) {
+  const participants = appointmentParticipants(appointment);
+
+  for (const recipient of participants) {
+    const dueKeys = Array.from(
+      notificationPreferences(recipient).reminder_offsets_minutes
+    )
+      .filter(
+        (offset) =>
+          appointment.appointment_time - now <=
+          BigInt(offset) * NANOS_PER_MINUTE
+      )
+      .map(
+        (offset) => `reminder:${appointment.id}:${recipient.toText()}:${offset}`
+      )
+      .filter((key) => !SentNotices.containsKey(key));
+
+    if (dueKeys.length === 0) {
+      continue;
+    }
+
+    for (const key of dueKeys) {
+      rememberNotice(key, appointment.appointment_time);
+    }
+
+    notify(
+      recipient,
+      "AppointmentReminder",
+      appointment.id,
+      `Appointment "${appointment.reason}" starts at ${formatTime(
+        appointment.appointment_time
+      )}`
+    );
+  }
+}
+
+// Send the reminders that came due and look again at the next reminder time;
+// offsets added to the preferences in between are caught up at that time
+function checkAppointment(appointmentId: text, now: nat64) {
+  const appointmentOpt = Appointments.get(appointmentId);
+
+  if ("None" in appointmentOpt) {
+    return;
+  }
+
+  const appointment = appointmentOpt.Some;
+
+  if (
+    appointmentStatusName(appointment) !== "Scheduled" ||
+    appointment.appointment_time <= now
+  ) {
+    return;
+  }
+
+  remindOfAppointment(appointment, now);
+
+  const nextTimes = appointmentParticipants(appointment)
+    .flatMap((recipient) => reminderTimes(appointment, recipient))
+    .filter((time) => time > now)
+    .sort((left, right) => (left < right ? -1 : 1));
+
+  if (nextTimes.length > 0) {
+    scheduleNotice(nextTimes[0], "appointment", appointment.id);
+  }
+}
+
+function checkPayment(paymentId: text, now: nat64) {
+  const paymentOpt = Payments.get(paymentId);
+
+  if ("None" in paymentOpt) {
+    return;
+  }
+
+  const payment = paymentOpt.Some;
+  const expiresAt = reservationExpiry(payment);
+
+  if (releaseLapsedReservation(payment, now)) {
+    return;
+  }
+
+  if ("Pending" in payment.status) {
+    scheduleNotice(expiresAt, "payment", payment.id);
+    notifyOnce(
+      `payment-pending:${payment.id}`,
+      expiresAt,
+      payment.payer,
+      "PaymentDue",
+      payment.id,
+      `Payment of ${
+        payment.amount
+      } e8s awaits its ledger transfer until ${formatTime(expiresAt)}`
+    );
+  }
+}
+
+function checkPrescription(prescriptionId: text, now: nat64) {
+  const prescriptionOpt = Prescriptions.get(prescriptionId);
+
+  if ("None" in prescriptionOpt) {
+    return;
+  }
+
+  const prescription = prescriptionOpt.Some;
+  const owner = patientOwner(prescription.patient_id);
+
+  if (
+    isFillable(prescription) &&
+    owner !== undefined &&
+    now < prescription.expires_at &&
+    prescription.expires_at - now <= PRESCRIPTION_EXPIRY_NOTICE
+  ) {
+    notifyOnce(
+      `prescription-expiring:${prescription.id}`,
+      prescription.expires_at,
+      owner,
+      "PrescriptionExpiring",
+      prescription.id,
+      `Prescription expires at ${formatTime(prescription.expires_at)}`
+    );
+  }
+}
+
+// Handle the schedule entries that came due since the last sweep, earliest
+// first and a bounded number of due times per run
+function sendDueNotifications() {
+  const now = ic.time();
+
+  for (const [key, entries] of NoticeSchedule.items(0, NOTICE_SWEEP_BATCH)) {
+    if (!isDueKey(key, now)) {
+      return;
+    }
+
+    NoticeSchedule.remove(key);
+
+    for (const entry of entries) {
+      const { kind, subject } = parseScheduleEntry(entry);
+
+      if (kind === "appointment") {
+        checkAppointment(subject, now);
+      } else if (kind === "payment") {
+        checkPayment(subject, now);
+      } else if (kind === "prescription") {
+        checkPrescription(subject, now);
+      } else {
+        SentNotices.remove(subject);
+      }
+    }
+  }
+}
+
+// Records stored before the schedule existed; settled ones are skipped when
+// their entry comes due
+function scheduleStoredNotices() {
+  for (const [key, forgetAt] of SentNotices.items()) {
+    scheduleNotice(forgetAt, "forget", key);
+  }
+
+  for (const appointment of Appointments.values()) {
+    if (appointmentStatusName(appointment) === "Scheduled") {
+      scheduleReminders(appointment);
+    }
+  }
+
+  for (const payment of Payments.values()) {
+    if ("Pending" in payment.status) {
+      scheduleNotice(payment.created_at, "payment", payment.id);
+    }
+  }
+
+  for (const prescription of Prescriptions.values()) {
+    if (isFillable(prescription)) {
+      scheduleNotice(
+        timeBefore(prescription.expires_at, PRESCRIPTION_EXPIRY_NOTICE),
+        "prescription",
+        prescription.id
+      );
+    }
+  }
+}
+
+function startNotificationTimer() {
+  ic.setTimerInterval(NOTIFICATION_SWEEP_INTERVAL, sendDueNotifications);
+}
+
+// Audit Helpers
+// Fields of a stored entry its hash covers
+function auditContent(
+  entry: Omit<typeof AuditEntry.tsType, "hash">
+): AuditContent {
+  return {
+    ...entry,
+    caller: entry.caller.toText(),
+    outcome: Object.keys(entry.outcome)[0] as AuditOutcomeName,
+  };
+}
+
+// Entity ids found in the arguments and the result of a call; lists and
+// pages in the result contribute the ids of their items
+function auditTargetIds(args: readonly unknown[], result: unknown): text[] {
+  const ids = new Set<text>();
+  const collectFields = (value: unknown) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return;
+    }
+
+    for (const [key, field] of Object.entries(value)) {
+      if (key !== "id" && !key.endsWith("_id")) {
+        continue;
+      }
+
+      if (typeof field === "string" && field) {
+        ids.add(field);
+      } else if (field && typeof field === "object" && "Some" in field) {
+        ids.add(`${field.Some}`);
+      }
+    }
+  };
+
+  for (const arg of args) {
+    if (typeof arg === "string" && isUuid(arg)) {
+      ids.add(arg);
+    } else if (arg instanceof Principal) {
+      ids.add(arg.toText());
+    } else {
+      collectFields(arg);
+    }
+  }
+
+  if (result && typeof result === "object" && "Ok" in result) {
+    const value = result.Ok;
+    const items =
+      value && typeof value === "object" && "items" in value
+        ? value.items
+        : value;
+
+    if (Array.isArray(items)) {
+      items.forEach(collectFields);
+    } else {
+      collectFields(value);
+    }
+  }
+
+  return [...ids];
+}
+
+// Patient whose data an entity belongs to
+function patientOfEntity(entityId: text): text | undefined {
+  // Archived profiles included: reads of their archive are logged as well
+  if (Patients.containsKey(entityId)) {
+    return entityId;
+  }
+
+  for (const entities of [
+    Consultations,
+    Appointments,
+    Prescriptions,
+    Payments,
+    Conversations,
+  ]) {
+    const entityOpt = entities.get(entityId);
+
+    if ("Some" in entityOpt) {
+      return entityOpt.Some!.patient_id;
+    }
+  }
+
+  return undefined;
+}
+
+// Hash of the latest audit entry
+function auditHeadHash(): text {
+  const length = AuditLog.len();
+
+  return length === 0n ? GENESIS_HASH : AuditLog.get(length - 1n).Some!.hash;
+}
+
+// Audit sequences of the entries that touched a patient's data, oldest first
+function accessLogSequences(patientId: text): nat64[] {
+  const sequencesOpt = PatientAccessLog.get(patientId);
+
+  return "None" in sequencesOpt ? [] : Array.from(sequencesOpt.Some);
+}
+
+// Append an entry to the audit log and certify the new head of the chain
+function recordAudit(method: text, args: readonly unknown[], result: unknown) {
+  const sequence = AuditLog.len();
+  const entry = {
+    sequence,
+    caller: ic.caller(),
+    method,
+    target_ids: auditTargetIds(args, result),
+    outcome: AuditOutcomes[auditOutcomeName(result)],
+    timestamp: ic.time(),
+    previous_hash: auditHeadHash(),
+  };
+  const hash = auditHash(auditContent(entry));
+
+  AuditLog.insert(sequence, { ...entry, hash });
+
+  const patientIds = new Set(
+    entry.target_ids
+      .map((targetId) => patientOfEntity(targetId))
+      .filter((patientId) => patientId !== undefined)
+  );
+
+  // Older entries drop out of the patient's log but stay in the audit log
+  for (const patientId of patientIds) {
+    PatientAccessLog.insert(
+      patientId!,
+      [...accessLogSequences(patientId!), sequence].slice(
+        -MAX_ACCESS_LOG_ENTRIES
+      )
+    );
+  }
+
+  ic.setCertifiedData(
+    Uint8Array.from(hash.match(/.{2}/g)!.map((byte) => parseInt(byte, 16)))
+  );
+}
+
+// Record every call of the callback in the audit log; asynchronous calls are
+// recorded once they settle
+function withAudit<Args extends readonly unknown[], Result>(
+  method: text,
+  callback: (...args: Args) => Result
+): (...args: Args) => Result {
+  return (...args) => {
+    const result = callback(...args);
+
+    if (result instanceof Promise) {
+      result.then(
+        (settled) => recordAudit(method, args, settled),
+        () => {}
+      );
+    } else {
+      recordAudit(method, args, result);
+    }
+
+    return result;
+  };
+}
+
+// Update method whose every call is recorded in the audit log
+function auditedUpdate<
+  const Params extends ReadonlyArray<CandidType>,
+  Return extends CandidType
+>(
+  method: text,
+  paramCandidTypes: Params,
+  returnCandidType: Return,
+  callback: Callback<Params, Return>
+) {
+  return update(
+    paramCandidTypes,
+    returnCandidType,
+    withAudit(method, callback)
+  );
+}
+
+function unauthorized(action: string) {
+  return Err({
+    Unauthorized: `Caller ${ic.caller()} is not allowed to ${action}`,
+  });
+}
+
+export default Canister({
+  // The deployer becomes the first admin
+  init: init([], () => {
+    assignRole(ic.caller(), "Admin");
+    SchemaVersionStore.insert(0, CURRENT_SCHEMA_VERSION);
+    startRetentionTimer();
+    startNotificationTimer();
+  }),
+
+  // Bring stored records to the current shapes; timers do not survive upgrades
+  postUpgrade: postUpgrade([], () => {
+    runMigrations();
+    startRetentionTimer();
+    startNotificationTimer();
+  }),
+
+  // Report the migrations the stored data still needs and how many records
+  // each would rewrite, without changing anything (admin only)
+  getMigrationPlan: query([], Result(MigrationReport, Message), () => {
+    if (!callerHasRole("Admin")) {
+      return unauthorized("read the migration plan");
+    }
+
+    return Ok({
+      schema_version: schemaVersion(),
+      target_version: CURRENT_SCHEMA_VERSION,
+      pending: pendingMigrations().map((migration) => ({
+        version: migration.version,
+        description: migration.description,
+        records: countOutdated(migration),
+      })),
+    });
+  }),
+
+  // Grant a role to a principal (admin only)
+  grantRole: auditedUpdate(
+    "grantRole",
+    [Principal, Role],
+    Result(Vec(Role), Message),
+    (principal, role) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("grant roles");
+      }
+
+      if (principal.isAnonymous()) {
+        return Err({
+          InvalidPayload: "Roles cannot be granted to the anonymous principal",
+        });
+      }
+
+      assignRole(principal, Object.keys(role)[0] as RoleName);
+      return Ok(toRoleVariants(getRoles(principal)));
+    }
+  ),
+
+  // Revoke a role from a principal (admin only)
+  revokeRole: auditedUpdate(
+    "revokeRole",
+    [Principal, Role],
+    Result(Vec(Role), Message),
+    (principal, role) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("revoke roles");
+      }
+
+      const roleName = Object.keys(role)[0] as RoleName;
+      const roles = getRoles(principal);
+
+      if (!roles.includes(roleName)) {
+        return Err({
+          NotFound: `Principal ${principal} does not hold the ${roleName} role`,
+        });
+      }
+
+      // Ensure that the canister always keeps at least one admin
+      if (roleName === "Admin") {
+        const adminCount = UserRoles.items().filter(([, userRoles]) =>
+          userRoles.some((userRole: typeof Role.tsType) => "Admin" in userRole)
+        ).length;
+
+        if (!canRevokeRole(roleName, adminCount)) {
+          return Err({ Error: "Cannot revoke the last remaining admin" });
+        }
+      }
+
+      const remainingRoles = toRoleVariants(withoutRole(roles, roleName));
+
+      if (remainingRoles.length === 0) {
+        UserRoles.remove(principal);
+      } else {
+        UserRoles.insert(principal, remainingRoles);
+      }
+
+      return Ok(remainingRoles);
+    }
+  ),
+
+  // Function to get the roles held by a principal (admin only)
+  getRolesByPrincipal: query(
+    [Principal],
+    Result(Vec(Role), Message),
+    (principal) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("list roles of other principals");
+      }
+
+      const rolesOpt = UserRoles.get(principal);
+
+      return Ok("None" in rolesOpt ? [] : rolesOpt.Some);
+    }
+  ),
+
+  // Function to get the roles held by the caller
+  getMyRoles: query([], Vec(Role), () => {
+    const rolesOpt = UserRoles.get(ic.caller());
+
+    return "None" in rolesOpt ? [] : rolesOpt.Some;
+  }),
+
+  // Rebuild every secondary index from the stored records (admin only)
+  rebuildIndexes: auditedUpdate(
+    "rebuildIndexes",
+    [],
+    Result(Message, Message),
+    () => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("rebuild indexes");
+      }
+
+      rebuildAllIndexes();
+      return Ok({ Success: "Indexes rebuilt successfully" });
+    }
+  ),
+
+  // Set how long data of deleted profiles is kept and what happens after (admin only)
+  setRetentionPolicy: auditedUpdate(
+    "setRetentionPolicy",
+    [RetentionPolicy],
+    Result(RetentionPolicy, Message),
+    (policy) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("set the retention policy");
+      }
+
+      if (policy.retention_days === 0) {
+        return Err({ InvalidPayload: "Retention must be at least one day" });
+      }
+
+      RetentionPolicyStore.insert(0, policy);
+      return Ok(policy);
+    }
+  ),
+
+  // Function to get the retention policy in force
+  getRetentionPolicy: query([], RetentionPolicy, () => {
+    return retentionPolicy();
+  }),
+
+  // Function to get a page of the audit log, oldest first (admin only)
+  getAuditLog: query(
+    [nat64, nat32], // cursor (sequence), limit
+    Result(AuditPage, Message),
+    (cursor, limit) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("read the audit log");
+      }
+
+      const pageSize = Math.min(Math.max(limit, 1), MAX_AUDIT_PAGE_SIZE);
+      const items = AuditLog.values(Number(cursor), pageSize);
+      const nextCursor = cursor + BigInt(items.length);
+
+      return Ok({
+        items,
+        next_cursor: nextCursor < AuditLog.len() ? Some(nextCursor) : None,
+      });
+    }
+  ),
+
+  // Recompute the hash chain of a range of the audit log (admin only)
+  verifyAuditLog: query(
+    [nat64, nat32], // start sequence, length
+    Result(AuditChainReport, Message),
+    (start, length) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("verify the audit log");
+      }
+
+      const entries = AuditLog.values(
+        Number(start),
+        Math.min(length, MAX_AUDIT_VERIFY_RANGE)
+      );
+      const firstInvalid = firstBrokenLink(
+        entries.map((entry) => ({ ...auditContent(entry), hash: entry.hash })),
+        start,
+        start === 0n ? GENESIS_HASH : AuditLog.get(start - 1n).Some?.hash
+      );
+
+      return Ok({
+        checked: BigInt(entries.length),
+        valid: firstInvalid === undefined,
+        first_invalid_sequence:
+          firstInvalid === undefined ? None : Some(firstInvalid),
+        head_hash: auditHeadHash(),
+      });
+    }
+  ),
+
+  // Function to get who accessed or changed the caller's patient data
+  getMyRecordAccessLog: query(
+    [nat64, nat32], // cursor (position in the patient's log), limit
+    Result(AuditPage, Message),
+    (cursor, limit) => {
+      const patient = findCallerPatient();
+
+      if (!patient) {
+        return Err({
+          NotFound: `Patient profile for owner=${ic.caller()} not found`,
+        });
+      }
+
+      const sequences = accessLogSequences(patient.id);
+      const pageSize = Math.min(Math.max(limit, 1), MAX_AUDIT_PAGE_SIZE);
+      const nextCursor = Number(cursor) + pageSize;
+
+      return Ok({
+        items: sequences
+          .slice(Number(cursor), nextCursor)
+          .map((sequence: nat64) => AuditLog.get(sequence).Some!),
+        next_cursor:
+          nextCursor < sequences.length ? Some(BigInt(nextCursor)) : None,
+      });
+    }
+  ),
+
+  // FUnction to create a Department
+  createDepartment: auditedUpdate(
+    "createDepartment",
+    [CreateDepartmentPayload],
+    Result(Department, Message),
+    (payload) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("create departments");
+      }
+
+      // Validate the payload
+      const invalidFields = validatePayload(payload, CreateDepartmentSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      // Ensure that the department name is unique
+      const existingDepartments = Departments.values();
+
+      for (const department of existingDepartments) {
+        if (department.name === payload.name) {
+          return Err({ InvalidPayload: "Department name must be unique" });
+        }
+      }
+
+      // Assuming validation passes, proceed to create the department
+      const departmentId = uuidv4();
+      const department = {
+        id: departmentId,
+        ...payload,
+      };
+
+      Departments.insert(departmentId, department);
+      return Ok(department); // Successfully return the created department
+    }
+  ),
+
+  // Function to get a Department by ID
+  getDepartmentById: query(
+    [text],
+    Result(Department, Message),
+    (departmentId) => {
+      const departmentOpt = Departments.get(departmentId);
+
+      if ("None" in departmentOpt) {
+        return Err({
+          NotFound: `Department with id=${departmentId} not found`,
+        });
+      }
+
+      return Ok(departmentOpt.Some);
+    }
+  ),
+
+  // Function to get a page of Departments
+  getAllDepartments: query(
+    [PageRequest],
+    Result(DepartmentPage, Message),
+    (request) => {
+      return paginate(Departments, request, ["name"]);
+    }
+  ),
+
+  // Create a Doctor
+  createDoctor: auditedUpdate(
+    "createDoctor",
+    [CreateDoctorPayload],
+    Result(Doctor, Message),
+    (payload) => {
+      // Only principals granted the Doctor role may register a doctor profile
+      if (!callerHasRole("Doctor")) {
+        return unauthorized("create a doctor profile");
+      }
+
+      // A doctor can only register a single profile
+      if (findCallerDoctor()) {
+        return Err({
+          InvalidPayload: `Doctor profile for owner=${ic.caller()} already exists`,
+        });
+      }
+
+      // Validate the payload
+      const invalidFields = validatePayload(payload, CreateDoctorSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      // Validate the department
+      const departmentOpt = Departments.get(payload.department_id);
+
+      if ("None" in departmentOpt) {
+        return Err({
+          InvalidPayload: `Department with id=${payload.department_id} not found`,
+        });
+      }
+
+      // Assuming validation passes, proceed to create the doctor profile
+      const doctorId = uuidv4();
+      const doctor = {
+        id: doctorId,
+        ...payload,
+        owner: ic.caller(),
+        available: true,
+        deleted_at: None,
+        deleted_by: None,
+        version: 1,
+      };
+
+      Doctors.insert(doctorId, doctor);
+      DoctorsByOwner.insert(doctor.owner, doctorId);
+      addToIndex(DoctorsByDepartment, doctor.department_id, doctorId);
+      return Ok(doctor); // Successfully return the created doctor profile
+    }
+  ),
+
+  // Function to get a Doctor by ID
+  getDoctorById: query([text], Result(Doctor, Message), (doctorId) => {
+    const doctorOpt = liveDoctor(doctorId);
+
+    if ("None" in doctorOpt) {
+      return Err({
+        NotFound: `Doctor with id=${doctorId} not found`,
+      });
+    }
+
+    return Ok(doctorOpt.Some);
+  }),
+
+  // Function to get a Doctor Profile by Owner Principal
+  getDoctorByOwner: query([], Result(Doctor, Message), () => {
+    const doctor = findCallerDoctor();
+
+    if (!doctor) {
+      return Err({
+        NotFound: `Doctor profile for owner=${ic.caller()} not found`,
+      });
+    }
+
+    return Ok(doctor);
+  }),
+
+  // Get Doctor by Department
+  getDoctorByDepartment: query(
+    [text],
+    Result(Vec(Doctor), Message),
+    (departmentId) => {
+      if (!Departments.containsKey(departmentId)) {
+        return Err({
+          NotFound: `Department with id=${departmentId} not found`,
+        });
+      }
+
+      return Ok(
+        lookupIndexed(Doctors, DoctorsByDepartment, departmentId).filter(
+          (doctor) => !isDeleted(doctor)
+        )
+      );
+    }
+  ),
+
+  // Function to get a page of Doctors
+  getAllDoctors: query(
+    [PageRequest],
+    Result(DoctorPage, Message),
+    (request) => {
+      return paginate(
+        Doctors,
+        request,
+        ["name", "department_id", "available"],
+        (doctor) => !isDeleted(doctor)
+      );
+    }
+  ),
+
+  // Create a Patient
+  createPatient: auditedUpdate(
+    "createPatient",
+    [CreatePatientPayload],
+    Result(Patient, Message),
+    (payload) => {
+      if (ic.caller().isAnonymous()) {
+        return unauthorized("register a patient profile");
+      }
+
+      // A principal can only register a single patient profile
+      if (findCallerPatient()) {
+        return Err({
+          InvalidPayload: `Patient profile for owner=${ic.caller()} already exists`,
+        });
+      }
+
+      // Validate the payload
+      const invalidFields = validatePayload(payload, CreatePatientSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      // Assuming validation passes, proceed to create the patient profile
+      const patientId = uuidv4();
+      const patient = {
+        ...payload,
+        id: patientId,
+        owner: ic.caller(),
+        deleted_at: None,
+        deleted_by: None,
+        version: 1,
+      };
+
+      savePatient(patient, "createPatient");
+      PatientsByOwner.insert(patient.owner, patientId);
+      // Self-registration grants the Patient role to the caller
+      assignRole(ic.caller(), "Patient");
+      return Ok(patient); // Successfully return the created patient profile
+    }
+  ),
+
+  // Function to get a Patient by ID
+  getPatientById: auditedUpdate(
+    "getPatientById",
+    [text],
+    Result(Patient, Message),
+    (patientId) => {
+      const patientOpt = livePatient(patientId);
+
+      if ("None" in patientOpt) {
+        return Err({
+          NotFound: `Patient with id=${patientId} not found`,
+        });
+      }
+
+      // Doctors need the patient's consent, or emergency access
+      const scopes = callerAccessScopes(patientId);
+
+      if (scopes.length === 0) {
+        return unauthorized(`read patient id=${patientId}`);
+      }
+
+      return Ok(patientView(patientOpt.Some, scopes));
+    }
+  ),
+
+  // Function to get a Patient Profile by Owner Principal
+  getPatientByOwner: query([], Result(Patient, Message), () => {
+    const patient = findCallerPatient();
+
+    if (!patient) {
+      return Err({
+        NotFound: `Patient profile for owner=${ic.caller()} not found`,
+      });
+    }
+
+    return Ok(patient);
+  }),
+
+  // Function to get a page of Patients
+  getAllPatients: auditedUpdate(
+    "getAllPatients",
+    [PageRequest],
+    Result(PatientPage, Message),
+    (request) => {
+      if (!callerHasRole("Admin", "Staff")) {
+        return unauthorized("list all patients");
+      }
+
+      const page = paginate(
+        Patients,
+        request,
+        ["name", "age", "gender"],
+        (patient) => !isDeleted(patient)
+      );
+
+      if ("Err" in page) {
+        return page;
+      }
+
+      // Staff see demographics only
+      return Ok({
+        ...page.Ok,
+        items: page.Ok.items.map((patient) =>
+          patientView(patient, callerAccessScopes(patient.id))
+        ),
+      });
+    }
+  ),
+
+  // Create the Departments of a chunk, all or none of them (admin only)
+  importDepartments: auditedUpdate(
+    "importDepartments",
+    [ImportChunk],
+    Result(ImportResult, Message),
+    (chunk) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("import departments");
+      }
+
+      return importRows(
+        DEPARTMENT_TABLE,
+        chunk,
+        departmentRowReader(),
+        (department) => {
+          Departments.insert(department.id, department);
+        }
+      );
+    }
+  ),
+
+  // Create the Doctor profiles of a chunk and grant their owners the Doctor role (admin only)
+  importDoctors: auditedUpdate(
+    "importDoctors",
+    [ImportChunk],
+    Result(ImportResult, Message),
+    (chunk) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("import doctors");
+      }
+
+      return importRows(DOCTOR_TABLE, chunk, doctorFromRow, (doctor) => {
+        Doctors.insert(doctor.id, doctor);
+        DoctorsByOwner.insert(doctor.owner, doctor.id);
+        addToIndex(DoctorsByDepartment, doctor.department_id, doctor.id);
+        assignRole(doctor.owner, "Doctor");
+      });
+    }
+  ),
+
+  // Create the Patient profiles of a chunk and grant their owners the Patient role (admin only)
+  importPatients: auditedUpdate(
+    "importPatients",
+    [ImportChunk],
+    Result(ImportResult, Message),
+    (chunk) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("import patients");
+      }
+
+      return importRows(PATIENT_TABLE, chunk, patientFromRow, (patient) => {
+        savePatient(patient, "importPatients");
+        PatientsByOwner.insert(patient.owner, patient.id);
+        assignRole(patient.owner, "Patient");
+      });
+    }
+  ),
+
+  // Function to export a chunk of Departments (admin only)
+  exportDepartments: query(
+    [ExportRequest],
+    Result(ExportChunk, Message),
+    (request) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("export departments");
+      }
+
+      return exportRows(
+        DEPARTMENT_TABLE,
+        Departments,
+        request,
+        departmentToRow
+      );
+    }
+  ),
+
+  // Function to export a chunk of Doctor profiles, without archived ones (admin only)
+  exportDoctors: query(
+    [ExportRequest],
+    Result(ExportChunk, Message),
+    (request) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("export doctors");
+      }
+
+      return exportRows(
+        DOCTOR_TABLE,
+        Doctors,
+        request,
+        doctorToRow,
+        (doctor) => !isDeleted(doctor)
+      );
+    }
+  ),
+
+  // Function to export a chunk of Patient profiles, without archived ones (admin only)
+  exportPatients: auditedUpdate(
+    "exportPatients",
+    [ExportRequest],
+    Result(ExportChunk, Message),
+    (request) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("export patients");
+      }
+
+      return exportRows(
+        PATIENT_TABLE,
+        Patients,
+        request,
+        patientToRow,
+        (patient) => !isDeleted(patient)
+      );
+    }
+  ),
+
+  // Create a Consultation
+  createConsultation: auditedUpdate(
+    "createConsultation",
+    [CreateConsultationPayload],
+    Result(Consultation, Message),
+    (payload) => {
+      // Validate the payload
+      const invalidFields = validatePayload(payload, CreateConsultationSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      // Validate the patient
+      const patientOpt = livePatient(payload.patient_id);
+
+      if ("None" in patientOpt) {
+        return Err({
+          InvalidPayload: `Patient with id=${payload.patient_id} not found`,
+        });
+      }
+
+      if (
+        !isCaller(patientOpt.Some.owner) &&
+        !callerHasRole("Admin", "Staff")
+      ) {
+        return unauthorized(
+          `create consultations for patient id=${payload.patient_id}`
+        );
+      }
+
+      // Validate the department
+      const departmentOpt = Departments.get(payload.department_id);
+
+      if ("None" in departmentOpt) {
+        return Err({
+          InvalidPayload: `Department with id=${payload.department_id} not found`,
+        });
+      }
+
+      // Assuming validation passes, the consultation joins the department queue
+      const consultationId = uuidv4();
+      const consultation = {
+        ...payload,
+        id: consultationId,
+        status: ConsultationStatuses.Open,
+        doctor_id: None,
+        created_at: ic.time(),
+        assigned_at: None,
+        resolution: None,
+      };
+
+      Consultations.insert(consultationId, consultation);
+      indexConsultation(consultation);
+      return Ok(autoAssign(consultation)); // Successfully return the created consultation
+    }
+  ),
+
+  // Function to get a Consultation by ID
+  getConsultationById: auditedUpdate(
+    "getConsultationById",
+    [text],
+    Result(Consultation, Message),
+    (consultationId) => {
+      const consultationOpt = Consultations.get(consultationId);
+
+      if ("None" in consultationOpt) {
+        return Err({
+          NotFound: `Consultation with id=${consultationId} not found`,
+        });
+      }
+
+      const consultation = consultationOpt.Some;
+
+      if (
+        !canReadConsultation(
+          callerAccessScopes(consultation.patient_id),
+          callerHandles(consultation)
+        )
+      ) {
+        return unauthorized(`read consultation id=${consultationId}`);
+      }
+
+      return Ok(consultation);
+    }
+  ),
+
+  // Function to get a page of Consultations
+  getAllConsultations: auditedUpdate(
+    "getAllConsultations",
+    [PageRequest],
+    Result(ConsultationPage, Message),
+    (request) => {
+      if (!callerHasRole("Admin", "Doctor", "Staff")) {
+        return unauthorized("list all consultations");
+      }
+
+      // Scopes are resolved once per patient of the page
+      const scopesByPatient = new Map<text, ConsentScopeName[]>();
+      const scopesOf = (patientId: text) => {
+        if (!scopesByPatient.has(patientId)) {
+          scopesByPatient.set(patientId, callerAccessScopes(patientId));
+        }
+
+        return scopesByPatient.get(patientId)!;
+      };
+
+      return paginate(
+        Consultations,
+        request,
+        ["patient_id", "department_id", "doctor_id", "status", "urgency"],
+        (consultation) =>
+          canReadConsultation(
+            scopesOf(consultation.patient_id),
+            callerHandles(consultation)
+          )
+      );
+    }
+  ),
+
+  // Choose how a department assigns new consultations (admin only)
+  setDepartmentRouting: auditedUpdate(
+    "setDepartmentRouting",
+    [text, AssignmentStrategy], // departmentId, strategy
+    Result(DepartmentRouting, Message),
+    (departmentId, strategy) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("set department routing");
+      }
+
+      if (!Departments.containsKey(departmentId)) {
+        return Err({
+          NotFound: `Department with id=${departmentId} not found`,
+        });
+      }
+
+      const routing = { ...departmentRouting(departmentId), strategy };
+
+      DepartmentRoutings.insert(departmentId, routing);
+      return Ok(routing);
+    }
+  ),
+
+  // Function to get the open Consultations of a Department, most urgent first
+  getDepartmentQueue: query(
+    [text],
+    Result(Vec(Consultation), Message),
+    (departmentId) => {
+      const doctor = findCallerDoctor();
+
+      if (
+        !callerHasRole("Admin", "Staff") &&
+        (!callerHasRole("Doctor") || doctor?.department_id !== departmentId)
+      ) {
+        return unauthorized(`read the queue of department id=${departmentId}`);
+      }
+
+      if (!Departments.containsKey(departmentId)) {
+        return Err({
+          NotFound: `Department with id=${departmentId} not found`,
+        });
+      }
+
+      return Ok(
+        lookupIndexed(Consultations, ConsultationQueues, departmentId).sort(
+          compareQueued
+        )
+      );
+    }
+  ),
+
+  // Function to get the Consultations assigned to the calling Doctor, most urgent first
+  getMyConsultationQueue: query([], Result(Vec(Consultation), Message), () => {
+    const doctor = findCallerDoctor();
+
+    if (!callerHasRole("Doctor") || !doctor) {
+      return unauthorized("read a doctor's consultation queue");
+    }
+
+    return Ok(activeConsultations(doctor.id).sort(compareQueued));
+  }),
+
+  // Take an open Consultation from the calling Doctor's department queue
+  claimConsultation: auditedUpdate(
+    "claimConsultation",
+    [text],
+    Result(Consultation, Message),
+    (consultationId) => {
+      const doctor = findCallerDoctor();
+
+      if (!callerHasRole("Doctor") || !doctor) {
+        return unauthorized("claim consultations");
+      }
+
+      const consultationOpt = Consultations.get(consultationId);
+
+      if ("None" in consultationOpt) {
+        return Err({
+          NotFound: `Consultation with id=${consultationId} not found`,
+        });
+      }
+
+      const consultation = consultationOpt.Some;
+
+      if (consultation.department_id !== doctor.department_id) {
+        return unauthorized(
+          `claim consultations of department id=${consultation.department_id}`
+        );
+      }
+
+      if (consultationStatusName(consultation) !== "Open") {
+        return Err({
+          Conflict: `Consultation with id=${consultationId} was already taken`,
+        });
+      }
+
+      const assigned = assignConsultationTo(consultation, doctor.id);
+
+      if ("Err" in assigned) {
+        return Err({ InvalidPayload: assigned.Err });
+      }
+
+      return Ok(assigned.Ok);
+    }
+  ),
+
+  // Assign or reassign a Consultation to a Doctor of its department (admin or staff)
+  assignConsultation: auditedUpdate(
+    "assignConsultation",
+    [text, text], // consultationId, doctorId
+    Result(Consultation, Message),
+    (consultationId, doctorId) => {
+      if (!callerHasRole("Admin", "Staff")) {
+        return unauthorized("assign consultations");
+      }
+
+      const consultationOpt = Consultations.get(consultationId);
+
+      if ("None" in consultationOpt) {
+        return Err({
+          NotFound: `Consultation with id=${consultationId} not found`,
+        });
+      }
+
+      const consultation = consultationOpt.Some;
+      const doctorOpt = liveDoctor(doctorId);
+
+      if (
+        "None" in doctorOpt ||
+        doctorOpt.Some.department_id !== consultation.department_id
+      ) {
+        return Err({
+          InvalidPayload: `Doctor with id=${doctorId} not found in department id=${consultation.department_id}`,
+        });
+      }
+
+      const assigned = assignConsultationTo(consultation, doctorId);
+
+      if ("Err" in assigned) {
+        return Err({ InvalidPayload: assigned.Err });
+      }
+
+      return Ok(assigned.Ok);
+    }
+  ),
+
+  // The assigned Doctor starts working on the Consultation
+  startConsultation: auditedUpdate(
+    "startConsultation",
+    [text],
+    Result(Consultation, Message),
+    (consultationId) => {
+      const consultationOpt = Consultations.get(consultationId);
+
+      if ("None" in consultationOpt) {
+        return Err({
+          NotFound: `Consultation with id=${consultationId} not found`,
+        });
+      }
+
+      const consultation = consultationOpt.Some;
+
+      if (
+        "None" in consultation.doctor_id ||
+        !callerIsDoctor(consultation.doctor_id.Some)
+      ) {
+        return unauthorized(`start consultation id=${consultationId}`);
+      }
+
+      const started = transitionConsultation(consultation, "InProgress");
+
+      if ("Err" in started) {
+        return Err({ InvalidPayload: started.Err });
+      }
+
+      return Ok(started.Ok);
+    }
+  ),
+
+  // The assigned Doctor resolves the Consultation, optionally booking a follow-up,
+  // linking a prescription and adding a clinical note
+  resolveConsultation: auditedUpdate(
+    "resolveConsultation",
+    [text, ResolveConsultationPayload], // consultationId, resolution
+    Result(Consultation, Message),
+    (consultationId, payload) => {
+      const invalidFields = validatePayload(payload, ResolveConsultationSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      const consultationOpt = Consultations.get(consultationId);
+
+      if ("None" in consultationOpt) {
+        return Err({
+          NotFound: `Consultation with id=${consultationId} not found`,
+        });
+      }
+
+      const consultation = consultationOpt.Some;
+      const doctor = findCallerDoctor();
+
+      if (
+        !callerHasRole("Doctor") ||
+        !doctor ||
+        "None" in consultation.doctor_id ||
+        consultation.doctor_id.Some !== doctor.id
+      ) {
+        return unauthorized(`resolve consultation id=${consultationId}`);
+      }
+
+      if (consultationStatusName(consultation) !== "InProgress") {
+        return Err({
+          InvalidPayload: `Consultation with id=${consultationId} is not in progress`,
+        });
+      }
+
+      // Validate the linked prescription before any record is created
+      if ("Some" in payload.prescription_id) {
+        const prescriptionOpt = Prescriptions.get(
+          payload.prescription_id.Some!
+        );
+
+        if (
+          "None" in prescriptionOpt ||
+          prescriptionOpt.Some.patient_id !== consultation.patient_id ||
+          prescriptionOpt.Some.doctor_id !== doctor.id
+        ) {
+          return Err({
+            InvalidPayload: `Prescription with id=${payload.prescription_id.Some} not found for this patient and doctor`,
+          });
+        }
+      }
+
+      // Booking is the only step that can still fail, so it goes first
+      let appointmentId: Opt<text> = None;
+
+      if ("Some" in payload.follow_up_time) {
+        const booked = bookAppointment(
+          doctor,
+          consultation.patient_id,
+          `Follow-up: ${consultation.problem}`,
+          payload.follow_up_time.Some!
+        );
+
+        if ("Err" in booked) {
+          return Err({ InvalidPayload: booked.Err });
+        }
+
+        appointmentId = Some(booked.Ok.id);
+      }
+
+      let clinicalNoteId: Opt<text> = None;
+
+      if ("Some" in payload.clinical_note) {
+        const medicalRecord = appendClinicalNote(
+          consultation.patient_id,
+          doctor.id,
+          {
+            encounter_id: Some(consultationId),
+            note: payload.clinical_note.Some!,
+            amends: None,
+          },
+          "resolveConsultation"
+        );
+
+        clinicalNoteId = Some(medicalRecord.clinical_notes.at(-1)!.id);
+      }
+
+      const resolved = transitionConsultation(consultation, "Resolved", {
+        resolution: Some({
+          summary: payload.summary,
+          resolved_at: ic.time(),
+          appointment_id: appointmentId,
+          prescription_id: payload.prescription_id,
+          clinical_note_id: clinicalNoteId,
+        }),
+      });
+
+      if ("Err" in resolved) {
+        return Err({ InvalidPayload: resolved.Err });
+      }
+
+      return Ok(resolved.Ok);
+    }
+  ),
+
+  // Start a Conversation between a Patient and a Doctor
+  createConversation: auditedUpdate(
+    "createConversation",
+    [CreateConversationPayload],
+    Result(Conversation, Message),
+    (payload) => {
+      // Validate the payload
+      const invalidFields = validatePayload(payload, CreateConversationSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      // Validate the patient
+      if ("None" in livePatient(payload.patient_id)) {
+        return Err({
+          InvalidPayload: `Patient with id=${payload.patient_id} not found`,
+        });
+      }
+
+      // Validate the doctor
+      if ("None" in liveDoctor(payload.doctor_id)) {
+        return Err({
+          InvalidPayload: `Doctor with id=${payload.doctor_id} not found`,
+        });
+      }
+
+      // Only the two participants may start the conversation
+      if (
+        !callerOwnsPatient(payload.patient_id) &&
+        !callerIsDoctor(payload.doctor_id)
+      ) {
+        return unauthorized("start this conversation");
+      }
+
+      // Validate the optional consultation and appointment
+      if ("Some" in payload.consultation_id) {
+        const consultationOpt = Consultations.get(
+          payload.consultation_id.Some!
+        );
+
+        if (
+          "None" in consultationOpt ||
+          consultationOpt.Some.patient_id !== payload.patient_id
+        ) {
+          return Err({
+            InvalidPayload: `Consultation with id=${payload.consultation_id.Some} not found for this patient`,
+          });
+        }
+      }
+
+      if ("Some" in payload.appointment_id) {
+        const appointmentOpt = Appointments.get(payload.appointment_id.Some!);
+
+        if (
+          "None" in appointmentOpt ||
+          appointmentOpt.Some.patient_id !== payload.patient_id ||
+          appointmentOpt.Some.doctor_id !== payload.doctor_id
+        ) {
+          return Err({
+            InvalidPayload: `Appointment with id=${payload.appointment_id.Some} not found for this patient and doctor`,
+          });
+        }
+      }
+
+      const conversationId = uuidv4();
+      const conversation = {
+        ...payload,
+        id: conversationId,
+        created_at: ic.time(),
+        last_message_at: None,
+        patient_unread_count: 0,
+        doctor_unread_count: 0,
+      };
+
+      Conversations.insert(conversationId, conversation);
+      addToIndex(ConversationsByPatient, payload.patient_id, conversationId);
+      addToIndex(ConversationsByDoctor, payload.doctor_id, conversationId);
+      ConversationMessages.insert(conversationId, []);
+      return Ok(conversation);
+    }
+  ),
+
+  // Function to get a Conversation by ID
+  getConversationById: auditedUpdate(
+    "getConversationById",
+    [text],
+    Result(Conversation, Message),
+    (conversationId) => {
+      const conversationOpt = Conversations.get(conversationId);
+
+      if ("None" in conversationOpt) {
+        return Err({
+          NotFound: `Conversation with id=${conversationId} not found`,
+        });
+      }
+
+      if (!callerParticipatesIn(conversationOpt.Some)) {
+        return unauthorized(`read conversation id=${conversationId}`);
+      }
+
+      return Ok(conversationOpt.Some);
+    }
+  ),
+
+  // Function to get the Conversations the caller takes part in, most recent first
+  getMyConversations: query([], Vec(Conversation), () => {
+    const patient = findCallerPatient();
+    const doctor = findCallerDoctor();
+    // A doctor may also be registered as a patient of their own clinic
+    const conversations = new Map(
+      [
+        ...(patient
+          ? lookupIndexed(Conversations, ConversationsByPatient, patient.id)
+          : []),
+        ...(doctor
+          ? lookupIndexed(Conversations, ConversationsByDoctor, doctor.id)
+          : []),
+      ].map((conversation) => [conversation.id, conversation])
+    );
+
+    return [...conversations.values()]
+      .filter((conversation) => callerParticipatesIn(conversation))
+      .sort((left, right) =>
+        lastActivity(left) > lastActivity(right) ? -1 : 1
+      );
+  }),
+
+  // Send a message to a Conversation
+  createChat: auditedUpdate(
+    "createChat",
+    [CreateChatPayload],
+    Result(Chat, Message),
+    (payload) => {
+      // Validate the payload
+      const invalidFields = validatePayload(payload, CreateChatSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      // Validate the conversation
+      const conversationOpt = Conversations.get(payload.conversation_id);
+
+      if ("None" in conversationOpt) {
+        return Err({
+          InvalidPayload: `Conversation with id=${payload.conversation_id} not found`,
+        });
+      }
+
+      const conversation = conversationOpt.Some;
+      const side = callerSideIn(conversation);
+
+      // Only the two participants may post to the conversation
+      if (!side) {
+        return unauthorized("post messages to this conversation");
+      }
+
+      // Assuming validation passes, proceed to create the chat
+      const chatId = uuidv4();
+      const timestamp = ic.time();
+      const chat = {
+        ...payload,
+        id: chatId,
+        sender: ic.caller(),
+        from_doctor: side === "Doctor",
+        timestamp,
+        edited_at: None,
+        deleted: false,
+        read_at: None,
+      };
+
+      Chats.insert(chatId, chat);
+      ConversationMessages.insert(payload.conversation_id, [
+        ...conversationMessageIds(payload.conversation_id),
+        chatId,
+      ]);
+      Conversations.insert(payload.conversation_id, {
+        ...countSent(conversation, side),
+        last_message_at: Some(timestamp),
+      });
+
+      const recipient =
+        side === "Doctor"
+          ? patientOwner(conversation.patient_id)
+          : doctorOwner(conversation.doctor_id);
+
+      if (recipient !== undefined) {
+        notify(
+          recipient,
+          "NewMessage",
+          conversation.id,
+          `New message from the ${side.toLowerCase()}`
+        );
+      }
+
+      return Ok(chat); // Successfully return the created chat
+    }
+  ),
+
+  // Function to get the caller's Notifications, newest first
+  getMyNotifications: query([bool], Vec(Notification), (unreadOnly) => {
+    return inboxIds(ic.caller())
+      .map((id) => Notifications.get(id))
+      .filter((notificationOpt) => "Some" in notificationOpt)
+      .map((notificationOpt) => notificationOpt.Some!)
+      .filter((notification) => !unreadOnly || "None" in notification.read_at)
+      .reverse();
+  }),
+
+  // Mark one of the caller's Notifications as read
+  markNotificationRead: auditedUpdate(
+    "markNotificationRead",
+    [text],
+    Result(Notification, Message),
+    (notificationId) => {
+      const notificationOpt = Notifications.get(notificationId);
+
+      if (
+        "None" in notificationOpt ||
+        !isCaller(notificationOpt.Some.recipient)
+      ) {
+        return Err({
+          NotFound: `Notification with id=${notificationId} not found`,
+        });
+      }
+
+      const notification = {
+        ...notificationOpt.Some,
+        read_at:
+          "None" in notificationOpt.Some.read_at
+            ? Some(ic.time())
+            : notificationOpt.Some.read_at,
+      };
+
+      Notifications.insert(notificationId, notification);
+      return Ok(notification);
+    }
+  ),
+
+  // Remove one of the caller's Notifications from the inbox
+  dismissNotification: auditedUpdate(
+    "dismissNotification",
+    [text],
+    Result(Message, Message),
+    (notificationId) => {
+      const notificationOpt = Notifications.get(notificationId);
+
+      if (
+        "None" in notificationOpt ||
+        !isCaller(notificationOpt.Some.recipient)
+      ) {
+        return Err({
+          NotFound: `Notification with id=${notificationId} not found`,
+        });
+      }
+
+      Notifications.remove(notificationId);
+      removeFromIndex(
+        NotificationsByRecipient,
+        ic.caller().toText(),
+        notificationId
+      );
+      return Ok({
+        Success: `Notification with id=${notificationId} dismissed`,
+      });
+    }
+  ),
+
+  // Function to get the caller's notification preferences
+  getMyNotificationPreferences: query([], NotificationPreferences, () => {
+    return notificationPreferences(ic.caller());
+  }),
+
+  // Choose which notifications the caller receives and when reminders are sent
+  setMyNotificationPreferences: auditedUpdate(
+    "setMyNotificationPreferences",
+    [NotificationPreferences],
+    Result(NotificationPreferences, Message),
+    (preferences) => {
+      if (ic.caller().isAnonymous()) {
+        return unauthorized("set notification preferences");
+      }
+
+      const invalidFields = validatePayload(
+        preferences,
+        NotificationPreferencesSchema
+      );
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      const normalized = {
+        ...preferences,
+        reminder_offsets_minutes: Uint32Array.from(
+          new Set(preferences.reminder_offsets_minutes)
+        )
+          .sort()
+          .reverse(),
+      };
+
+      NotificationPreferencesStore.insert(ic.caller(), normalized);
+      return Ok(normalized);
+    }
+  ),
+
+  // Function to get a Chat by ID
+  getChatById: auditedUpdate(
+    "getChatById",
+    [text],
+    Result(Chat, Message),
+    (chatId) => {
+      const chatOpt = Chats.get(chatId);
+
+      if ("None" in chatOpt) {
+        return Err({
+          NotFound: `Chat with id=${chatId} not found`,
+        });
+      }
+
+      const conversationOpt = Conversations.get(chatOpt.Some.conversation_id);
+
+      if (
+        "None" in conversationOpt ||
+        !callerParticipatesIn(conversationOpt.Some)
+      ) {
+        return unauthorized(`read chat id=${chatId}`);
+      }
+
+      return Ok(chatOpt.Some);
+    }
+  ),
+
+  // Function to get a page of messages of a Conversation, oldest first
+  getConversationMessages: auditedUpdate(
+    "getConversationMessages",
+    [text, nat32, nat32], // conversationId, cursor, limit
+    Result(ChatPage, Message),
+    (conversationId, cursor, limit) => {
+      const conversationOpt = Conversations.get(conversationId);
+
+      if ("None" in conversationOpt) {
+        return Err({
+          NotFound: `Conversation with id=${conversationId} not found`,
+        });
+      }
+
+      if (!callerParticipatesIn(conversationOpt.Some)) {
+        return unauthorized(`read conversation id=${conversationId}`);
+      }
+
+      const messageIds = conversationMessageIds(conversationId);
+      const pageSize = Math.min(Math.max(limit, 1), MAX_CHAT_PAGE_SIZE);
+      const nextCursor = cursor + pageSize;
+      const items = messageIds
+        .slice(cursor, nextCursor)
+        .map((chatId) => Chats.get(chatId))
+        .filter((chatOpt) => "Some" in chatOpt)
+        .map((chatOpt) => chatOpt.Some!);
+
+      return Ok({
+        items,
+        next_cursor: nextCursor < messageIds.length ? Some(nextCursor) : None,
+      });
+    }
+  ),
+
+  // Mark every message received in a Conversation as read
+  markConversationRead: auditedUpdate(
+    "markConversationRead",
+    [text],
+    Result(Conversation, Message),
+    (conversationId) => {
+      const conversationOpt = Conversations.get(conversationId);
+
+      if ("None" in conversationOpt) {
+        return Err({
+          NotFound: `Conversation with id=${conversationId} not found`,
+        });
+      }
+
+      const conversation = conversationOpt.Some;
+      const side = callerSideIn(conversation);
+
+      if (!side) {
+        return unauthorized(`read conversation id=${conversationId}`);
+      }
+
+      const readAt = ic.time();
+      const chats = conversationMessageIds(conversationId)
+        .map((chatId) => Chats.get(chatId))
+        .filter((chatOpt) => "Some" in chatOpt)
+        .map((chatOpt) => chatOpt.Some!);
+      const unread = unreadReceived(
+        chats.map((chat) => ({
+          from_doctor: chat.from_doctor,
+          read: "Some" in chat.read_at,
+        })),
+        side
+      );
+
+      for (const index of unread) {
+        Chats.insert(chats[index].id, {
+          ...chats[index],
+          read_at: Some(readAt),
+        });
+      }
+
+      const updatedConversation = countRead(conversation, side);
+
+      Conversations.insert(conversationId, updatedConversation);
+      return Ok(updatedConversation);
+    }
+  ),
+
+  // Edit a message shortly after sending it
+  editChat: auditedUpdate(
+    "editChat",
+    [text, text], // chatId, new message
+    Result(Chat, Message),
+    (chatId, message) => {
+      const invalidFields = validatePayload(
+        { message },
+        { message: CreateChatSchema.message }
+      );
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      const chatOpt = Chats.get(chatId);
+
+      if ("None" in chatOpt) {
+        return Err({ NotFound: `Chat with id=${chatId} not found` });
+      }
+
+      const chat = chatOpt.Some;
+
+      if (!isCaller(chat.sender)) {
+        return unauthorized(`edit chat id=${chatId}`);
+      }
+
+      if (chat.deleted) {
+        return Err({ InvalidPayload: `Chat with id=${chatId} was deleted` });
+      }
+
+      if (ic.time() - chat.timestamp > CHAT_EDIT_WINDOW) {
+        return Err({
+          InvalidPayload: "Messages can only be edited within 15 minutes",
+        });
+      }
+
+      const updatedChat = { ...chat, message, edited_at: Some(ic.time()) };
+
+      Chats.insert(chatId, updatedChat);
+      return Ok(updatedChat);
+    }
+  ),
+
+  // Delete a message shortly after sending it; the message stays as a placeholder
+  deleteChat: auditedUpdate(
+    "deleteChat",
+    [text],
+    Result(Chat, Message),
+    (chatId) => {
+      const chatOpt = Chats.get(chatId);
+
+      if ("None" in chatOpt) {
+        return Err({ NotFound: `Chat with id=${chatId} not found` });
+      }
+
+      const chat = chatOpt.Some;
+
+      if (!isCaller(chat.sender)) {
+        return unauthorized(`delete chat id=${chatId}`);
+      }
+
+      if (chat.deleted) {
+        return Err({ InvalidPayload: `Chat with id=${chatId} was deleted` });
+      }
+
+      if (ic.time() - chat.timestamp > CHAT_DELETE_WINDOW) {
+        return Err({
+          InvalidPayload: "Messages can only be deleted within 1 hour",
+        });
+      }
+
+      const deletedChat = { ...chat, message: "", deleted: true };
+
+      Chats.insert(chatId, deletedChat);
+
+      // A deleted message no longer counts as unread for the recipient
+      const conversationOpt = Conversations.get(chat.conversation_id);
+
+      if ("Some" in conversationOpt && "None" in chat.read_at) {
+        Conversations.insert(
+          chat.conversation_id,
+          countDeleted(
+            conversationOpt.Some!,
+            chat.from_doctor ? "Doctor" : "Patient"
+          )
+        );
+      }
+
+      return Ok(deletedChat);
+    }
+  ),
+
+  // Update Patient Profile
+  updatePatient: auditedUpdate(
+    "updatePatient",
+    [text, UpdatePatientPayload],
+    Result(Patient, Message),
+    (patientId, patch) => {
+      const patientOpt = livePatient(patientId);
+
+      if ("None" in patientOpt) {
+        return Err({ NotFound: `Patient with id=${patientId} not found` });
+      }
+
+      const patient = patientOpt.Some;
+
+      if (!isCaller(patient.owner) && !callerHasRole("Admin")) {
+        return unauthorized(`update patient id=${patientId}`);
+      }
+
+      if (patch.expected_version !== patient.version) {
+        return staleVersion(`Patient with id=${patientId}`, patient.version);
+      }
+
+      const changes: Partial<typeof Patient.tsType> = presentFields(patch, [
+        "name",
+        "age",
+        "gender",
+        "phone_number",
+        "email",
+        "address",
+        "emergency_contact",
+      ]);
+      const listErrors: (typeof FieldError.tsType)[] = [];
+
+      for (const field of [
+        "allergies",
+        "current_medications",
+        "medical_history",
+      ] as const) {
+        if ("Some" in patch[field]) {
+          const result = applyListPatch(
+            field,
+            patient[field],
+            patch[field].Some!
+          );
+
+          listErrors.push(...result.errors);
+          changes[field] = result.items;
+        }
+      }
+
+      const invalidFields = [
+        ...listErrors,
+        ...validateChanges(changes, CreatePatientSchema),
+      ];
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      const updatedPatient = {
+        ...patient,
+        ...changes,
+        version: patient.version + 1,
+      };
+      savePatient(updatedPatient, "updatePatient");
+      return Ok(updatedPatient);
+    }
+  ),
+
+  // Delete Patient Profile
+  deletePatient: auditedUpdate(
+    "deletePatient",
+    [text],
+    Result(Message, Message),
+    (patientId) => {
+      const patientOpt = livePatient(patientId);
+
+      if ("None" in patientOpt) {
+        return Err({ NotFound: `Patient with id=${patientId} not found` });
+      }
+
+      if (!isCaller(patientOpt.Some.owner) && !callerHasRole("Admin")) {
+        return unauthorized(`delete patient id=${patientId}`);
+      }
+
+      // Restrict: appointments and payments in progress must be settled first
+      const blockers = patientBlockers(patientId);
+
+      if (blockers.length > 0) {
+        return Err({
+          Conflict: `Patient with id=${patientId} still has ${blockers.join(
+            " and "
+          )}`,
+        });
+      }
+
+      const archive = archivePatient(patientId);
+
+      // Soft delete: the profile stays for restore until the retention sweep
+      savePatient(
+        {
+          ...patientOpt.Some,
+          version: patientOpt.Some.version + 1,
+          deleted_at: Some(ic.time()),
+          deleted_by: Some(ic.caller()),
+        },
+        "deletePatient"
+      );
+      PatientsByOwner.remove(patientOpt.Some.owner);
+      removeRole(patientOpt.Some.owner, "Patient");
+      return Ok({
+        Success: `Patient with id=${patientId} deleted; clinical data is archived until ${new Date(
+          Number(
+            retainUntil(archive.archived_at, retentionPolicy().retention_days) /
+              1_000_000n
+          )
+        ).toISOString()}`,
+      });
+    }
+  ),
+
+  // Restore an archived Patient profile and its clinical data (admin only)
+  restorePatient: auditedUpdate(
+    "restorePatient",
+    [text],
+    Result(Patient, Message),
+    (patientId) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("restore patients");
+      }
+
+      const patientOpt = Patients.get(patientId);
+
+      if ("None" in patientOpt || !isDeleted(patientOpt.Some)) {
+        return Err({
+          NotFound: `Deleted patient with id=${patientId} not found`,
+        });
+      }
+
+      const patient = patientOpt.Some;
+      const archiveOpt = PatientArchives.get(patientId);
+
+      if ("None" in archiveOpt || "Some" in archiveOpt.Some.anonymized_at) {
+        return Err({
+          Conflict: `Patient with id=${patientId} was anonymized and cannot be restored`,
+        });
+      }
+
+      if (PatientsByOwner.containsKey(patient.owner)) {
+        return Err({
+          Conflict: `Owner ${patient.owner} already has another patient profile`,
+        });
+      }
+
+      restorePatientArchive(archiveOpt.Some);
+
+      const restoredPatient = {
+        ...patient,
+        version: patient.version + 1,
+        deleted_at: None,
+        deleted_by: None,
+      };
+
+      savePatient(restoredPatient, "restorePatient");
+      PatientsByOwner.insert(patient.owner, patientId);
+      assignRole(patient.owner, "Patient");
+      return Ok(restoredPatient);
+    }
+  ),
+
+  // Function to get a page of archived Patients (admin only)
+  getArchivedPatients: auditedUpdate(
+    "getArchivedPatients",
+    [PageRequest],
+    Result(PatientPage, Message),
+    (request) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("list archived patients");
+      }
+
+      return paginate(Patients, request, ["name", "age", "gender"], (patient) =>
+        isDeleted(patient)
+      );
+    }
+  ),
+
+  // Function to get the archived clinical data of a deleted Patient (admin only)
+  getPatientArchive: auditedUpdate(
+    "getPatientArchive",
+    [text],
+    Result(PatientArchive, Message),
+    (patientId) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("read patient archives");
+      }
+
+      const archiveOpt = PatientArchives.get(patientId);
+
+      if ("None" in archiveOpt) {
+        return Err({
+          NotFound: `Archive of patient id=${patientId} not found`,
+        });
+      }
+
+      return Ok(archiveOpt.Some);
+    }
+  ),
+
+  // Consultation History for a Patient
+  getConsultationHistoryByPatient: auditedUpdate(
+    "getConsultationHistoryByPatient",
+    [text],
+    Result(Vec(Consultation), Message),
+    (patientId) => {
+      // Consultations describe the patient's problems, so they need the full record
+      if (!hasScope(callerAccessScopes(patientId), "FullRecord")) {
+        return unauthorized(`read consultations of patient id=${patientId}`);
+      }
+
+      return Ok(
+        lookupIndexed(Consultations, ConsultationsByPatient, patientId)
+      );
+    }
+  ),
+
+  // Update Doctor Availability
+  updateDoctorAvailability: auditedUpdate(
+    "updateDoctorAvailability",
+    [text, bool],
+    Result(Doctor, Message),
+    (doctorId, availability) => {
+      const doctorOpt = liveDoctor(doctorId);
+
+      if ("None" in doctorOpt) {
+        return Err({ NotFound: `Doctor with id=${doctorId} not found` });
+      }
+
+      if (!callerIsDoctor(doctorId) && !callerHasRole("Admin")) {
+        return unauthorized(`update availability of doctor id=${doctorId}`);
+      }
+
+      const updatedDoctor = {
+        ...doctorOpt.Some,
+        available: availability,
+        version: doctorOpt.Some.version + 1,
+      };
+      Doctors.insert(doctorId, updatedDoctor);
+      return Ok(updatedDoctor);
+    }
+  ),
+
+  // Search Doctor by Name
+  searchDoctorByName: query([text], Result(Vec(Doctor), Message), (name) => {
+    return Ok(
+      Doctors.values().filter(
+        (doctor) =>
+          !isDeleted(doctor) &&
+          doctor.name.toLowerCase().includes(name.toLowerCase())
+      )
+    );
+  }),
+
+  // Search Department by Name
+  searchDepartmentByName: query(
+    [text],
+    Result(Vec(Department), Message),
+    (name) => {
+      return Ok(
+        Departments.values().filter((department) =>
+          department.name.toLowerCase().includes(name.toLowerCase())
+        )
+      );
+    }
+  ),
+
+  // Update Doctor Profile
+  updateDoctor: auditedUpdate(
+    "updateDoctor",
+    [text, UpdateDoctorPayload],
+    Result(Doctor, Message),
+    (doctorId, patch) => {
+      const doctorOpt = liveDoctor(doctorId);
+
+      if ("None" in doctorOpt) {
+        return Err({ NotFound: `Doctor with id=${doctorId} not found` });
+      }
+
+      const doctor = doctorOpt.Some;
+
+      if (!callerIsDoctor(doctorId) && !callerHasRole("Admin")) {
+        return unauthorized(`update doctor id=${doctorId}`);
+      }
+
+      if (patch.expected_version !== doctor.version) {
+        return staleVersion(`Doctor with id=${doctorId}`, doctor.version);
+      }
+
+      const changes = presentFields(patch, ["name", "department_id", "image"]);
+      const invalidFields = validateChanges(changes, CreateDoctorSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      // Revalidate the department when it changes
+      if (
+        changes.department_id !== undefined &&
+        !Departments.containsKey(changes.department_id)
+      ) {
+        return Err({
+          InvalidPayload: `Department with id=${changes.department_id} not found`,
+        });
+      }
+
+      const updatedDoctor = {
+        ...doctor,
+        ...changes,
+        version: doctor.version + 1,
+      };
+      Doctors.insert(doctorId, updatedDoctor);
+      removeFromIndex(DoctorsByDepartment, doctor.department_id, doctorId);
+      addToIndex(DoctorsByDepartment, updatedDoctor.department_id, doctorId);
+      return Ok(updatedDoctor);
+    }
+  ),
+
+  // Delete Doctor Profile
+  deleteDoctor: auditedUpdate(
+    "deleteDoctor",
+    [text],
+    Result(Message, Message),
+    (doctorId) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("delete doctors");
+      }
+
+      const doctorOpt = liveDoctor(doctorId);
+
+      if ("None" in doctorOpt) {
+        return Err({ NotFound: `Doctor with id=${doctorId} not found` });
+      }
+
+      // Restrict: upcoming appointments must be canceled or moved first
+      const blockers = doctorBlockers(doctorId);
+
+      if (blockers.length > 0) {
+        return Err({
+          Conflict: `Doctor with id=${doctorId} still has ${blockers.join(
+            ", "
+          )}`,
+        });
+      }
+
+      // Soft delete: appointments, prescriptions and conversations keep
+      // pointing at the archived profile
+      Doctors.insert(doctorId, {
+        ...doctorOpt.Some,
+        version: doctorOpt.Some.version + 1,
+        available: false,
+        deleted_at: Some(ic.time()),
+        deleted_by: Some(ic.caller()),
+      });
+      DoctorsByOwner.remove(doctorOpt.Some.owner);
+      return Ok({ Success: `Doctor with id=${doctorId} deleted successfully` });
+    }
+  ),
+
+  // Restore an archived Doctor profile (admin only)
+  restoreDoctor: auditedUpdate(
+    "restoreDoctor",
+    [text],
+    Result(Doctor, Message),
+    (doctorId) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("restore doctors");
+      }
+
+      const doctorOpt = Doctors.get(doctorId);
+
+      if ("None" in doctorOpt || !isDeleted(doctorOpt.Some)) {
+        return Err({
+          NotFound: `Deleted doctor with id=${doctorId} not found`,
+        });
+      }
+
+      const doctor = doctorOpt.Some;
+
+      if (doctor.owner.isAnonymous()) {
+        return Err({
+          Conflict: `Doctor with id=${doctorId} was anonymized and cannot be restored`,
+        });
+      }
+
+      if (DoctorsByOwner.containsKey(doctor.owner)) {
+        return Err({
+          Conflict: `Owner ${doctor.owner} already has another doctor profile`,
+        });
+      }
+
+      // The doctor turns availability back on once ready to take bookings
+      const restoredDoctor = {
+        ...doctor,
+        version: doctor.version + 1,
+        deleted_at: None,
+        deleted_by: None,
+      };
+
+      Doctors.insert(doctorId, restoredDoctor);
+      DoctorsByOwner.insert(doctor.owner, doctorId);
+      return Ok(restoredDoctor);
+    }
+  ),
+
+  // Function to get a page of archived Doctors (admin only)
+  getArchivedDoctors: query(
+    [PageRequest],
+    Result(DoctorPage, Message),
+    (request) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("list archived doctors");
+      }
+
+      return paginate(Doctors, request, ["name", "department_id"], (doctor) =>
+        isDeleted(doctor)
+      );
+    }
+  ),
+
+  // Delete Department
+  deleteDepartment: auditedUpdate(
+    "deleteDepartment",
+    [text],
+    Result(Message, Message),
+    (departmentId) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("delete departments");
+      }
+
+      const departmentOpt = Departments.get(departmentId);
+
+      if ("None" in departmentOpt) {
+        return Err({
+          NotFound: `Department with id=${departmentId} not found`,
+        });
+      }
+
+      // Restrict: doctors and consultations must move to another department first
+      const references = departmentReferences(departmentId);
+
+      if (references.length > 0) {
+        return Err({
+          Conflict: `Department with id=${departmentId} is referenced by ${references.join(
+            ", "
+          )}`,
+        });
+      }
+
+      Departments.remove(departmentId);
+      return Ok({
+        Success: `Department with id=${departmentId} deleted successfully`,
+      });
+    }
+  ),
+
+  // Set the weekly working hours and slot duration of a Doctor
+  setDoctorSchedule: auditedUpdate(
+    "setDoctorSchedule",
+    [text, SetDoctorSchedulePayload],
+    Result(DoctorSchedule, Message),
+    (doctorId, payload) => {
+      if ("None" in liveDoctor(doctorId)) {
+        return Err({ NotFound: `Doctor with id=${doctorId} not found` });
+      }
+
+      if (!callerIsDoctor(doctorId) && !callerHasRole("Admin", "Staff")) {
+        return unauthorized(`set the schedule of doctor id=${doctorId}`);
+      }
+
+      const error = workingHoursProblem(
+        payload.slot_duration_minutes,
+        payload.working_hours
+      );
+
+      if (error) {
+        return Err({ InvalidPayload: error });
+      }
+
+      const scheduleOpt = DoctorSchedules.get(doctorId);
+      const schedule = {
+        ...payload,
+        doctor_id: doctorId,
+        time_off: "None" in scheduleOpt ? [] : scheduleOpt.Some.time_off,
+      };
+
+      DoctorSchedules.insert(doctorId, schedule);
+      return Ok(schedule);
+    }
+  ),
+
+  // Function to get the schedule of a Doctor
+  getDoctorSchedule: query(
+    [text],
+    Result(DoctorSchedule, Message),
+    (doctorId) => {
+      const scheduleOpt = DoctorSchedules.get(doctorId);
+
+      if ("None" in scheduleOpt) {
+        return Err({
+          NotFound: `Schedule for doctor id=${doctorId} not found`,
+        });
+      }
+
+      return Ok(scheduleOpt.Some);
+    }
+  ),
+
+  // Block a period of a Doctor's calendar
+  addDoctorTimeOff: auditedUpdate(
+    "addDoctorTimeOff",
+    [text, CreateTimeOffPayload],
+    Result(DoctorSchedule, Message),
+    (doctorId, payload) => {
+      if (!callerIsDoctor(doctorId) && !callerHasRole("Admin", "Staff")) {
+        return unauthorized(`add time off for doctor id=${doctorId}`);
+      }
+
+      const invalidFields = validatePayload(payload, CreateTimeOffSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      if (payload.start_time >= payload.end_time) {
+        return Err({ InvalidPayload: "Time off must start before it ends" });
+      }
+
+      const scheduleOpt = DoctorSchedules.get(doctorId);
+
+      if ("None" in scheduleOpt) {
+        return Err({
+          NotFound: `Schedule for doctor id=${doctorId} not found`,
+        });
+      }
+
+      const schedule = {
+        ...scheduleOpt.Some,
+        time_off: [...scheduleOpt.Some.time_off, { ...payload, id: uuidv4() }],
+      };
+
+      DoctorSchedules.insert(doctorId, schedule);
+      return Ok(schedule);
+    }
+  ),
+
+  // Remove a time-off period from a Doctor's calendar
+  removeDoctorTimeOff: auditedUpdate(
+    "removeDoctorTimeOff",
+    [text, text], // doctorId, timeOffId
+    Result(DoctorSchedule, Message),
+    (doctorId, timeOffId) => {
+      if (!callerIsDoctor(doctorId) && !callerHasRole("Admin", "Staff")) {
+        return unauthorized(`remove time off for doctor id=${doctorId}`);
+      }
+
+      const scheduleOpt = DoctorSchedules.get(doctorId);
+
+      if ("None" in scheduleOpt) {
+        return Err({
+          NotFound: `Schedule for doctor id=${doctorId} not found`,
+        });
+      }
+
+      const timeOff = scheduleOpt.Some.time_off.filter(
+        (period: typeof TimeOff.tsType) => period.id !== timeOffId
+      );
+
+      if (timeOff.length === scheduleOpt.Some.time_off.length) {
+        return Err({ NotFound: `Time off with id=${timeOffId} not found` });
+      }
+
+      const schedule = { ...scheduleOpt.Some, time_off: timeOff };
+
+      DoctorSchedules.insert(doctorId, schedule);
+      return Ok(schedule);
+    }
+  ),
+
+  // Function to get the open slots of a Doctor within a date range
+  getAvailableSlots: query(
+    [text, DateRange],
+    Result(Vec(TimeSlot), Message),
+    (doctorId, dateRange) => {
+      const doctorOpt = liveDoctor(doctorId);
+
+      if ("None" in doctorOpt) {
+        return Err({ NotFound: `Doctor with id=${doctorId} not found` });
+      }
+
+      if (dateRange.start_time >= dateRange.end_time) {
+        return Err({ InvalidPayload: "Date range must start before it ends" });
+      }
+
+      if (dateRange.end_time - dateRange.start_time > MAX_SLOT_RANGE) {
+        return Err({ InvalidPayload: "Date range cannot exceed 31 days" });
+      }
+
+      const scheduleOpt = DoctorSchedules.get(doctorId);
+
+      if ("None" in scheduleOpt || !doctorOpt.Some.available) {
+        return Ok([]);
+      }
+
+      return Ok(
+        computeOpenSlots(
+          scheduleOpt.Some,
+          dateRange.start_time,
+          dateRange.end_time
+        )
+      );
+    }
+  ),
+
+  // Appointment Scheduling
+  createAppointment: auditedUpdate(
+    "createAppointment",
+    [CreateAppointmentPayload],
+    Result(Appointment, Message),
+    (payload) => {
+      // Validate the payload
+      const invalidFields = validatePayload(payload, CreateAppointmentSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      // Validate the patient
+      const patientOpt = livePatient(payload.patient_id);
+
+      if ("None" in patientOpt) {
+        return Err({
+          InvalidPayload: `Patient with id=${payload.patient_id} not found`,
+        });
+      }
+
+      // Validate the doctor
+      const doctorOpt = liveDoctor(payload.doctor_id);
+
+      if ("None" in doctorOpt) {
+        return Err({
+          InvalidPayload: `Doctor with id=${payload.doctor_id} not found`,
+        });
+      }
+
+      if (
+        !isCaller(patientOpt.Some.owner) &&
+        !callerHasRole("Admin", "Staff")
+      ) {
+        return unauthorized(
+          `book appointments for patient id=${payload.patient_id}`
+        );
+      }
+
+      const booked = bookAppointment(
+        doctorOpt.Some,
+        payload.patient_id,
+        payload.reason,
+        payload.appointment_time
+      );
+
+      if ("Err" in booked) {
+        return Err({ InvalidPayload: booked.Err });
+      }
+
+      return Ok(booked.Ok);
+    }
+  ),
+
+  // Video Conferencing Integration (Update with Video Link)
+  updateAppointmentWithVideoLink: auditedUpdate(
+    "updateAppointmentWithVideoLink",
+    [text, text], // appointmentId, videoLink
+    Result(Appointment, Message),
+    (appointmentId, videoLink) => {
+      // Validate the payload
+      const invalidFields = validatePayload(
+        { video_link: videoLink },
+        { video_link: [httpsUrl] }
+      );
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      const appointmentOpt = Appointments.get(appointmentId);
+
+      if ("None" in appointmentOpt) {
+        return Err({
+          NotFound: `Appointment with id=${appointmentId} not found`,
+        });
+      }
+
+      if (
+        !callerIsDoctor(appointmentOpt.Some.doctor_id) &&
+        !callerHasRole("Admin", "Staff")
+      ) {
+        return unauthorized(
+          `set the video link of appointment id=${appointmentId}`
+        );
+      }
+
+      const updatedAppointment = {
+        ...appointmentOpt.Some,
+        video_link: Some(videoLink),
+      };
+      Appointments.insert(appointmentId, updatedAppointment);
+      return Ok(updatedAppointment);
+    }
+  ),
+
+  // Cancel an Appointment; patients must cancel before the deadline to get a refund
+  cancelAppointment: auditedUpdate(
+    "cancelAppointment",
+    [text, text], // appointmentId, reason
+    Result(Appointment, Message),
+    (appointmentId, reason) => {
+      const appointmentOpt = Appointments.get(appointmentId);
+
+      if ("None" in appointmentOpt) {
+        return Err({
+          NotFound: `Appointment with id=${appointmentId} not found`,
+        });
+      }
+
+      const appointment = appointmentOpt.Some;
+      const byClinic =
+        callerIsDoctor(appointment.doctor_id) ||
+        callerHasRole("Admin", "Staff");
+
+      if (!byClinic && !callerOwnsPatient(appointment.patient_id)) {
+        return unauthorized(`cancel appointment id=${appointmentId}`);
+      }
+
+      if (!reason) {
+        return Err({ InvalidPayload: "A cancellation reason is required" });
+      }
+
+      const now = ic.time();
+
+      if (now >= appointment.appointment_time) {
+        return Err({
+          InvalidPayload: `Appointment with id=${appointmentId} has already started`,
+        });
+      }
+
+      // Cancellations by the clinic are always refundable
+      const timely =
+        byClinic ||
+        beforeCancellationDeadline(appointment.appointment_time, now);
+
+      const result = transitionAppointment(appointment, "Canceled", reason);
+
+      if ("Err" in result) {
+        return Err({ InvalidPayload: result.Err });
+      }
+
+      settlePaymentsOnCancel(result.Ok, timely);
+      return Ok(result.Ok);
+    }
+  ),
+
+  // Move an Appointment to another open slot of the same Doctor
+  rescheduleAppointment: auditedUpdate(
+    "rescheduleAppointment",
+    [text, nat64], // appointmentId, new appointment time
+    Result(Appointment, Message),
+    (appointmentId, newTime) => {
+      const appointmentOpt = Appointments.get(appointmentId);
+
+      if ("None" in appointmentOpt) {
+        return Err({
+          NotFound: `Appointment with id=${appointmentId} not found`,
+        });
+      }
+
+      const appointment = appointmentOpt.Some;
+      const byClinic =
+        callerIsDoctor(appointment.doctor_id) ||
+        callerHasRole("Admin", "Staff");
+
+      if (!byClinic && !callerOwnsPatient(appointment.patient_id)) {
+        return unauthorized(`reschedule appointment id=${appointmentId}`);
+      }
+
+      if (
+        !byClinic &&
+        !beforeCancellationDeadline(appointment.appointment_time, ic.time())
+      ) {
+        return Err({
+          InvalidPayload:
+            "Appointments can only be rescheduled up to 24 hours in advance",
+        });
+      }
+
+      const doctorOpt = liveDoctor(appointment.doctor_id);
+
+      if ("None" in doctorOpt) {
+        return Err({
+          NotFound: `Doctor with id=${appointment.doctor_id} not found`,
+        });
+      }
+
+      const slot = checkBookableSlot(
+        doctorOpt.Some,
+        appointment.patient_id,
+        newTime,
+        appointmentId
+      );
+
+      if ("Err" in slot) {
+        return Err({ InvalidPayload: slot.Err });
+      }
+
+      const result = transitionAppointment(
+        appointment,
+        "Scheduled",
+        `Rescheduled from ${appointment.appointment_time} to ${newTime}`,
+        { appointment_time: newTime, end_time: slot.Ok }
+      );
+
+      if ("Err" in result) {
+        return Err({ InvalidPayload: result.Err });
+      }
+
+      scheduleReminders(result.Ok);
+      return Ok(result.Ok);
+    }
+  ),
+
+  // Doctor starts the Appointment
+  startAppointment: auditedUpdate(
+    "startAppointment",
+    [text],
+    Result(Appointment, Message),
+    (appointmentId) => {
+      const appointmentOpt = Appointments.get(appointmentId);
+
+      if ("None" in appointmentOpt) {
+        return Err({
+          NotFound: `Appointment with id=${appointmentId} not found`,
+        });
+      }
+
+      const appointment = appointmentOpt.Some;
+
+      if (!callerIsDoctor(appointment.doctor_id)) {
+        return unauthorized(`start appointment id=${appointmentId}`);
+      }
+
+      if (!canStartAppointment(appointment.appointment_time, ic.time())) {
+        return Err({
+          InvalidPayload:
+            "Appointments can be started at most 15 minutes early",
+        });
+      }
+
+      const result = transitionAppointment(
+        appointment,
+        "InProgress",
+        "Started"
+      );
+
+      if ("Err" in result) {
+        return Err({ InvalidPayload: result.Err });
+      }
+
+      return Ok(result.Ok);
+    }
+  ),
+
+  // Doctor completes the Appointment
+  completeAppointment: auditedUpdate(
+    "completeAppointment",
+    [text],
+    Result(Appointment, Message),
+    (appointmentId) => {
+      const appointmentOpt = Appointments.get(appointmentId);
+
+      if ("None" in appointmentOpt) {
+        return Err({
+          NotFound: `Appointment with id=${appointmentId} not found`,
+        });
+      }
+
+      if (!callerIsDoctor(appointmentOpt.Some.doctor_id)) {
+        return unauthorized(`complete appointment id=${appointmentId}`);
+      }
+
+      const result = transitionAppointment(
+        appointmentOpt.Some,
+        "Completed",
+        "Completed"
+      );
+
+      if ("Err" in result) {
+        return Err({ InvalidPayload: result.Err });
+      }
+
+      return Ok(result.Ok);
+    }
+  ),
+
+  // Doctor records that the patient did not show up
+  markNoShow: auditedUpdate(
+    "markNoShow",
+    [text],
+    Result(Appointment, Message),
+    (appointmentId) => {
+      const appointmentOpt = Appointments.get(appointmentId);
+
+      if ("None" in appointmentOpt) {
+        return Err({
+          NotFound: `Appointment with id=${appointmentId} not found`,
+        });
+      }
+
+      const appointment = appointmentOpt.Some;
+
+      if (!callerIsDoctor(appointment.doctor_id)) {
+        return unauthorized(`mark appointment id=${appointmentId} as no-show`);
+      }
+
+      if (ic.time() < appointment.appointment_time) {
+        return Err({
+          InvalidPayload: `Appointment with id=${appointmentId} has not started yet`,
+        });
+      }
+
+      const result = transitionAppointment(
+        appointment,
+        "NoShow",
+        "Patient did not show up"
+      );
+
+      if ("Err" in result) {
+        return Err({ InvalidPayload: result.Err });
+      }
+
+      // Missed appointments are not refundable
+      settlePaymentsOnCancel(result.Ok, false);
+      return Ok(result.Ok);
+    }
+  ),
+
+  // Function to get a page of the Appointments visible to the caller
+  getAllAppointments: query(
+    [PageRequest],
+    Result(AppointmentPage, Message),
+    (request) => {
+      const seesAll = callerHasRole("Admin", "Staff");
+
+      return paginate(
+        Appointments,
+        request,
+        ["patient_id", "doctor_id", "status", "paid"],
+        (appointment) =>
+          seesAll ||
+          callerOwnsPatient(appointment.patient_id) ||
+          callerIsDoctor(appointment.doctor_id)
+      );
+    }
+  ),
+
+  // Function to get the status history of an Appointment
+  getAppointmentHistory: query(
+    [text],
+    Result(Vec(AppointmentTransition), Message),
+    (appointmentId) => {
+      const appointmentOpt = Appointments.get(appointmentId);
+
+      if ("None" in appointmentOpt) {
+        return Err({
+          NotFound: `Appointment with id=${appointmentId} not found`,
+        });
+      }
+
+      if (
+        !callerOwnsPatient(appointmentOpt.Some.patient_id) &&
+        !callerIsDoctor(appointmentOpt.Some.doctor_id) &&
+        !callerHasRole("Admin", "Staff")
+      ) {
+        return unauthorized(`read history of appointment id=${appointmentId}`);
+      }
+
+      const historyOpt = AppointmentHistory.get(appointmentId);
+
+      return Ok("None" in historyOpt ? [] : historyOpt.Some);
+    }
+  ),
+
+  // Add a Medication to the catalog (admin only)
+  createMedication: auditedUpdate(
+    "createMedication",
+    [CreateMedicationPayload],
+    Result(Medication, Message),
+    (payload) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("manage the medication catalog");
+      }
+
+      // Validate the payload
+      const invalidFields = validatePayload(payload, CreateMedicationSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      // Ensure that the medication name is unique
+      const duplicate = Medications.values().some(
+        (medication) =>
+          normalizeTerm(medication.name) === normalizeTerm(payload.name)
+      );
+
+      if (duplicate) {
+        return Err({ InvalidPayload: "Medication name must be unique" });
+      }
+
+      const medicationId = uuidv4();
+      const medication = {
+        ...payload,
+        id: medicationId,
+      };
+
+      Medications.insert(medicationId, medication);
+      return Ok(medication);
+    }
+  ),
+
+  // Update a catalog Medication (admin only)
+  updateMedication: auditedUpdate(
+    "updateMedication",
+    [text, CreateMedicationPayload],
+    Result(Medication, Message),
+    (medicationId, payload) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("manage the medication catalog");
+      }
+
+      const invalidFields = validatePayload(payload, CreateMedicationSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      const medicationOpt = Medications.get(medicationId);
+
+      if ("None" in medicationOpt) {
+        return Err({
+          NotFound: `Medication with id=${medicationId} not found`,
+        });
+      }
+
+      const duplicate = Medications.values().some(
+        (medication) =>
+          medication.id !== medicationId &&
+          normalizeTerm(medication.name) === normalizeTerm(payload.name)
+      );
+
+      if (duplicate) {
+        return Err({ InvalidPayload: "Medication name must be unique" });
+      }
+
+      const updatedMedication = {
+        ...medicationOpt.Some,
+        ...payload,
+      };
+
+      Medications.insert(medicationId, updatedMedication);
+      return Ok(updatedMedication);
+    }
+  ),
+
+  // Function to get a Medication by ID
+  getMedicationById: query(
+    [text],
+    Result(Medication, Message),
+    (medicationId) => {
+      const medicationOpt = Medications.get(medicationId);
+
+      if ("None" in medicationOpt) {
+        return Err({
+          NotFound: `Medication with id=${medicationId} not found`,
+        });
+      }
+
+      return Ok(medicationOpt.Some);
+    }
+  ),
+
+  // Search Medications by name or active ingredient
+  searchMedications: query([text], Vec(Medication), (term) => {
+    const searchTerm = normalizeTerm(term);
+
+    return Medications.values().filter((medication) =>
+      [medication.name, ...medication.active_ingredients].some((name: text) =>
+        normalizeTerm(name).includes(searchTerm)
+      )
+    );
+  }),
+
+  // Record a known interaction between two catalog Medications (admin only)
+  addDrugInteraction: auditedUpdate(
+    "addDrugInteraction",
+    [DrugInteraction],
+    Result(DrugInteraction, Message),
+    (interaction) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("manage the medication catalog");
+      }
+
+      const { medication_id, interacting_medication_id } = interaction;
+
+      if (medication_id === interacting_medication_id) {
+        return Err({
+          InvalidPayload: "A medication cannot interact with itself",
+        });
+      }
+
+      for (const medicationId of [medication_id, interacting_medication_id]) {
+        if (!Medications.containsKey(medicationId)) {
+          return Err({
+            InvalidPayload: `Medication with id=${medicationId} not found`,
+          });
+        }
+      }
+
+      DrugInteractions.insert(
+        interactionKey(medication_id, interacting_medication_id),
+        interaction
+      );
+      return Ok(interaction);
+    }
+  ),
+
+  // Remove a known interaction between two catalog Medications (admin only)
+  removeDrugInteraction: auditedUpdate(
+    "removeDrugInteraction",
+    [text, text], // medicationId, interactingMedicationId
+    Result(Message, Message),
+    (medicationId, interactingMedicationId) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("manage the medication catalog");
+      }
+
+      const removedOpt = DrugInteractions.remove(
+        interactionKey(medicationId, interactingMedicationId)
+      );
+
+      if ("None" in removedOpt) {
+        return Err({
+          NotFound: `No interaction between medication id=${medicationId} and id=${interactingMedicationId}`,
+        });
+      }
+
+      return Ok({ Success: "Drug interaction removed successfully" });
+    }
+  ),
+
+  // Function to get the known interactions of a Medication
+  getDrugInteractions: query([text], Vec(DrugInteraction), (medicationId) => {
+    return DrugInteractions.values().filter(
+      (interaction) =>
+        interaction.medication_id === medicationId ||
+        interaction.interacting_medication_id === medicationId
+    );
+  }),
+
+  // Prescription Management
+  createPrescription: auditedUpdate(
+    "createPrescription",
+    [CreatePrescriptionPayload],
+    Result(Prescription, Message),
+    (payload) => {
+      // Validate the payload
+      const invalidFields = validatePayload(payload, CreatePrescriptionSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      // Validate the patient
+      const patientOpt = livePatient(payload.patient_id);
+
+      if ("None" in patientOpt) {
+        return Err({
+          InvalidPayload: `Patient with id=${payload.patient_id} not found`,
+        });
+      }
+
+      // Validate the doctor
+      const doctorOpt = liveDoctor(payload.doctor_id);
+
+      if ("None" in doctorOpt) {
+        return Err({
+          InvalidPayload: `Doctor with id=${payload.doctor_id} not found`,
+        });
+      }
+
+      // Only the prescribing doctor may issue the prescription
+      if (!callerIsDoctor(payload.doctor_id)) {
+        return unauthorized("issue prescriptions");
+      }
+
+      // Validate the prescription lines against the catalog
+      const medications: (typeof Medication.tsType)[] = [];
+
+      for (const line of payload.lines) {
+        const medicationOpt = Medications.get(line.medication_id);
+
+        if ("None" in medicationOpt) {
+          return Err({
+            InvalidPayload: `Medication with id=${line.medication_id} not found`,
+          });
+        }
+
+        medications.push(medicationOpt.Some);
+      }
+
+      // Allergy and Major interaction conflicts need an explicit override
+      const findings = checkPrescriptionSafety(patientOpt.Some, medications);
+      const overridden =
+        "Some" in payload.override_reason && !!payload.override_reason.Some;
+      const blocking = findings.filter((finding) => finding.blocking);
+
+      if (blocking.length > 0 && !overridden) {
+        return Err({
+          SafetyCheckFailed: `${blocking
+            .map((finding) => finding.message)
+            .join("; ")}. Provide an override reason to prescribe anyway`,
+        });
+      }
+
+      const { refills, valid_days, ...details } = payload;
+      const prescriptionId = uuidv4();
+      const prescription = {
+        ...details,
+        id: prescriptionId,
+        issued_at: new Date().toISOString(),
+        warnings: findings.map((finding) => finding.message),
+        status: PrescriptionStatuses.Active,
+        expires_at: ic.time() + BigInt(valid_days) * NANOS_PER_DAY,
+        fills_authorized: 1 + refills,
+        fills_completed: 0,
+        current_fill_dispensed: [],
+        cancel_reason: None,
+      };
+
+      // Every prescription is also part of the patient's medical record
+      savePrescription(prescription, "createPrescription");
+
+      return Ok(prescription);
+    }
+  ),
+
+  // Function to get a Prescription by ID
+  getPrescriptionById: auditedUpdate(
+    "getPrescriptionById",
+    [text],
+    Result(Prescription, Message),
+    (prescriptionId) => {
+      const prescriptionOpt = Prescriptions.get(prescriptionId);
+
+      if ("None" in prescriptionOpt) {
+        return Err({
+          NotFound: `Prescription with id=${prescriptionId} not found`,
+        });
+      }
+
+      const prescription = prescriptionOpt.Some;
+
+      // Pharmacies look prescriptions up by id to dispense them
+      if (
+        !callerIsDoctor(prescription.doctor_id) &&
+        !callerHasRole("Pharmacy") &&
+        !hasScope(callerAccessScopes(prescription.patient_id), "Medications")
+      ) {
+        return unauthorized(`read prescription id=${prescriptionId}`);
+      }
+
+      return Ok(withEffectiveStatus(prescription));
+    }
+  ),
+
+  // Function to get the Prescriptions of a Patient
+  getPrescriptionsByPatient: auditedUpdate(
+    "getPrescriptionsByPatient",
+    [text],
+    Result(Vec(Prescription), Message),
+    (patientId) => {
+      if (!hasScope(callerAccessScopes(patientId), "Medications")) {
+        return unauthorized(`read prescriptions of patient id=${patientId}`);
+      }
+
+      return Ok(
+        lookupIndexed(Prescriptions, PrescriptionsByPatient, patientId).map(
+          withEffectiveStatus
+        )
+      );
+    }
+  ),
+
+  // Function to get the Prescriptions issued by a Doctor
+  getPrescriptionsByDoctor: auditedUpdate(
+    "getPrescriptionsByDoctor",
+    [text],
+    Result(Vec(Prescription), Message),
+    (doctorId) => {
+      if (!callerIsDoctor(doctorId) && !callerHasRole("Admin")) {
+        return unauthorized(`read prescriptions of doctor id=${doctorId}`);
+      }
+
+      return Ok(
+        lookupIndexed(Prescriptions, PrescriptionsByDoctor, doctorId).map(
+          withEffectiveStatus
+        )
+      );
+    }
+  ),
+
+  // Prescribing doctor cancels a Prescription that is not fully dispensed
+  cancelPrescription: auditedUpdate(
+    "cancelPrescription",
+    [text, text], // prescriptionId, reason
+    Result(Prescription, Message),
+    (prescriptionId, reason) => {
+      const prescriptionOpt = Prescriptions.get(prescriptionId);
+
+      if ("None" in prescriptionOpt) {
+        return Err({
+          NotFound: `Prescription with id=${prescriptionId} not found`,
+        });
+      }
+
+      if (!callerIsDoctor(prescriptionOpt.Some.doctor_id)) {
+        return unauthorized(`cancel prescription id=${prescriptionId}`);
+      }
+
+      if (!reason) {
+        return Err({ InvalidPayload: "A cancellation reason is required" });
+      }
+
+      const prescription = withEffectiveStatus(prescriptionOpt.Some);
+
+      if (!isFillable(prescription)) {
+        return Err({
+          InvalidPayload: `Prescription with id=${prescriptionId} is ${prescriptionStatusName(
+            prescription
+          )} and cannot be canceled`,
+        });
+      }
+
+      const canceledPrescription = {
+        ...prescription,
+        status: PrescriptionStatuses.Canceled,
+        cancel_reason: Some(reason),
+      };
+
+      savePrescription(canceledPrescription, "cancelPrescription");
+      return Ok(canceledPrescription);
+    }
+  ),
+
+  // Pharmacy records the medications handed out for the current fill
+  dispensePrescription: auditedUpdate(
+    "dispensePrescription",
+    [text, CreateDispensingPayload], // prescriptionId, dispensed medications
+    Result(Prescription, Message),
+    (prescriptionId, payload) => {
+      if (!callerHasRole("Pharmacy")) {
+        return unauthorized("dispense prescriptions");
+      }
+
+      const prescriptionOpt = Prescriptions.get(prescriptionId);
+
+      if ("None" in prescriptionOpt) {
+        return Err({
+          NotFound: `Prescription with id=${prescriptionId} not found`,
+        });
+      }
+
+      const prescription = withEffectiveStatus(prescriptionOpt.Some);
+
+      if (!isFillable(prescription)) {
+        // Persist expiry discovered on the way
+        if (prescriptionStatusName(prescription) === "Expired") {
+          savePrescription(prescription, "expirePrescription");
+        }
+
+        return Err({
+          InvalidPayload: `Prescription with id=${prescriptionId} is ${prescriptionStatusName(
+            prescription
+          )} and cannot be dispensed`,
+        });
+      }
+
+      const invalidFields = validatePayload(payload, CreateDispensingSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      const prescribedIds = prescription.lines.map(
+        (line: typeof PrescriptionLine.tsType) => line.medication_id
+      );
+
+      for (const medicationId of payload.medication_ids) {
+        if (!prescribedIds.includes(medicationId)) {
+          return Err({
+            InvalidPayload: `Medication with id=${medicationId} is not part of this prescription`,
+          });
+        }
+
+        if (
+          prescription.current_fill_dispensed.includes(medicationId) ||
+          payload.medication_ids.indexOf(medicationId) !==
+            payload.medication_ids.lastIndexOf(medicationId)
+        ) {
+          return Err({
+            InvalidPayload: `Medication with id=${medicationId} was already dispensed for this fill`,
+          });
+        }
+      }
+
+      const fillNumber = prescription.fills_completed + 1;
+      const dispensingId = uuidv4();
+
+      Dispensings.insert(dispensingId, {
+        id: dispensingId,
+        prescription_id: prescriptionId,
+        fill_number: fillNumber,
+        medication_ids: payload.medication_ids,
+        notes: payload.notes,
+        dispensed_by: ic.caller(),
+        dispensed_at: ic.time(),
+      });
+      addToIndex(DispensingsByPrescription, prescriptionId, dispensingId);
+
+      const dispensed = [
+        ...prescription.current_fill_dispensed,
+        ...payload.medication_ids,
+      ];
+      const fillComplete = prescribedIds.every((medicationId: text) =>
+        dispensed.includes(medicationId)
+      );
+      const fillsCompleted = fillComplete ? fillNumber : fillNumber - 1;
+
+      const status = dispensedStatus(
+        fillComplete,
+        fillsCompleted,
+        prescription.fills_authorized
+      );
+      const updatedPrescription = {
+        ...prescription,
+        status: PrescriptionStatuses[status],
+        fills_completed: fillsCompleted,
+        current_fill_dispensed: fillComplete ? [] : dispensed,
+      };
+
+      savePrescription(updatedPrescription, "dispensePrescription");
+      return Ok(updatedPrescription);
+    }
+  ),
+
+  // Function to get the dispensing events of a Prescription
+  getDispensingsByPrescription: auditedUpdate(
+    "getDispensingsByPrescription",
+    [text],
+    Result(Vec(DispensingEvent), Message),
+    (prescriptionId) => {
+      const prescriptionOpt = Prescriptions.get(prescriptionId);
+
+      if ("None" in prescriptionOpt) {
+        return Err({
+          NotFound: `Prescription with id=${prescriptionId} not found`,
+        });
+      }
+
+      if (
+        !callerOwnsPatient(prescriptionOpt.Some.patient_id) &&
+        !callerIsDoctor(prescriptionOpt.Some.doctor_id) &&
+        !callerHasRole("Admin", "Pharmacy")
+      ) {
+        return unauthorized(
+          `read dispensings of prescription id=${prescriptionId}`
+        );
+      }
+
+      return Ok(
+        lookupIndexed(Dispensings, DispensingsByPrescription, prescriptionId)
+      );
+    }
+  ),
+
+  // Patient asks the prescribing doctor for another fill
+  requestRefill: auditedUpdate(
+    "requestRefill",
+    [text, text], // prescriptionId, note
+    Result(RefillRequest, Message),
+    (prescriptionId, note) => {
+      const prescriptionOpt = Prescriptions.get(prescriptionId);
+
+      if ("None" in prescriptionOpt) {
+        return Err({
+          NotFound: `Prescription with id=${prescriptionId} not found`,
+        });
+      }
+
+      const prescription = withEffectiveStatus(prescriptionOpt.Some);
+
+      if (!callerOwnsPatient(prescription.patient_id)) {
+        return unauthorized(
+          `request refills of prescription id=${prescriptionId}`
+        );
+      }
+
+      // Refills are only needed once every authorized fill was dispensed
+      if (prescriptionStatusName(prescription) !== "Dispensed") {
+        return Err({
+          InvalidPayload: `Prescription with id=${prescriptionId} is ${prescriptionStatusName(
+            prescription
+          )}; refills can only be requested once it is fully dispensed`,
+        });
+      }
+
+      if (ic.time() >= prescription.expires_at) {
+        return Err({
+          InvalidPayload: `Prescription with id=${prescriptionId} has expired`,
+        });
+      }
+
+      const pending = lookupIndexed(
+        RefillRequests,
+        RefillRequestsByPrescription,
+        prescriptionId
+      ).some((request) => "Pending" in request.status);
+
+      if (pending) {
+        return Err({
+          InvalidPayload: `A refill request for prescription id=${prescriptionId} is already pending`,
+        });
+      }
+
+      const requestId = uuidv4();
+      const request = {
+        id: requestId,
+        prescription_id: prescriptionId,
+        note,
+        requested_by: ic.caller(),
+        requested_at: ic.time(),
+        status: { Pending: null },
+        decided_at: None,
+        decision_note: None,
+      };
+
+      RefillRequests.insert(requestId, request);
+      addToIndex(RefillRequestsByPrescription, prescriptionId, requestId);
+      return Ok(request);
+    }
+  ),
+
+  // Function to get the pending refill requests addressed to the caller's Doctor profile
+  getPendingRefillRequests: query([], Vec(RefillRequest), () => {
+    const doctor = findCallerDoctor();
+
+    if (!callerHasRole("Doctor") || !doctor) {
+      return [];
+    }
+
+    return indexedIds(PrescriptionsByDoctor, doctor.id)
+      .flatMap((prescriptionId) =>
+        lookupIndexed(
+          RefillRequests,
+          RefillRequestsByPrescription,
+          prescriptionId
+        )
+      )
+      .filter((request) => "Pending" in request.status);
+  }),
+
+  // Prescribing doctor approves or denies a refill request
+  reviewRefillRequest: auditedUpdate(
+    "reviewRefillRequest",
+    [text, bool, text], // requestId, approve, note
+    Result(RefillRequest, Message),
+    (requestId, approve, note) => {
+      const requestOpt = RefillRequests.get(requestId);
+
+      if ("None" in requestOpt) {
+        return Err({
+          NotFound: `Refill request with id=${requestId} not found`,
+        });
+      }
+
+      const request = requestOpt.Some;
+      const prescriptionOpt = Prescriptions.get(request.prescription_id);
+
+      if ("None" in prescriptionOpt) {
+        return Err({
+          NotFound: `Prescription with id=${request.prescription_id} not found`,
+        });
+      }
+
+      if (!callerIsDoctor(prescriptionOpt.Some.doctor_id)) {
+        return unauthorized(`review refill request id=${requestId}`);
+      }
+
+      if (!("Pending" in request.status)) {
+        return Err({
+          InvalidPayload: `Refill request with id=${requestId} was already reviewed`,
+        });
+      }
+
+      const prescription = withEffectiveStatus(prescriptionOpt.Some);
+
+      if (approve && prescriptionStatusName(prescription) !== "Dispensed") {
+        return Err({
+          InvalidPayload: `Prescription with id=${
+            request.prescription_id
+          } is ${prescriptionStatusName(prescription)} and cannot be refilled`,
+        });
+      }
+
+      if (
+        approve &&
+        refillLimitReached(
+          prescription.fills_authorized,
+          MAX_PRESCRIPTION_REFILLS
+        )
+      ) {
+        return Err({
+          InvalidPayload: `Prescription with id=${request.prescription_id} already has the maximum of ${MAX_PRESCRIPTION_REFILLS} refills`,
+        });
+      }
+
+      const reviewedRequest = {
+        ...request,
+        status: approve ? { Approved: null } : { Denied: null },
+        decided_at: Some(ic.time()),
+        decision_note: Some(note),
+      };
+
+      RefillRequests.insert(requestId, reviewedRequest);
+
+      if (approve) {
+        savePrescription(
+          {
+            ...prescription,
+            status: PrescriptionStatuses.Active,
+            fills_authorized: prescription.fills_authorized + 1,
+          },
+          "reviewRefillRequest"
+        );
+      }
+
+      return Ok(reviewedRequest);
+    }
+  ),
+
+  // Function to get the clinic's ledger address that receives payments
+  getClinicAddress: query([], text, () => {
+    return clinicAddress();
+  }),
+
+  // Add a Service to a department's fee schedule (admin only)
+  createService: auditedUpdate(
+    "createService",
+    [CreateServicePayload],
+    Result(Service, Message),
+    (payload) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("manage the service catalog");
+      }
+
+      const invalidFields = validatePayload(payload, CreateServiceSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      if (!Departments.containsKey(payload.department_id)) {
+        return Err({
+          InvalidPayload: `Department with id=${payload.department_id} not found`,
+        });
+      }
+
+      // Ensure that the code is unique within the department
+      const duplicate = lookupIndexed(
+        Services,
+        ServicesByDepartment,
+        payload.department_id
+      ).some((service) => service.code === payload.code);
+
+      if (duplicate) {
+        return Err({
+          InvalidPayload: "Service code must be unique within the department",
+        });
+      }
+
+      const service = { ...payload, id: uuidv4() };
+
+      Services.insert(service.id, service);
+      addToIndex(ServicesByDepartment, service.department_id, service.id);
+      return Ok(service);
+    }
+  ),
+
+  // Update a catalog Service (admin only); issued invoices keep their prices
+  updateService: auditedUpdate(
+    "updateService",
+    [text, CreateServicePayload],
+    Result(Service, Message),
+    (serviceId, payload) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("manage the service catalog");
+      }
+
+      const invalidFields = validatePayload(payload, CreateServiceSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      const serviceOpt = Services.get(serviceId);
+
+      if ("None" in serviceOpt) {
+        return Err({ NotFound: `Service with id=${serviceId} not found` });
+      }
+
+      if (payload.department_id !== serviceOpt.Some.department_id) {
+        return Err({
+          InvalidPayload: "A service cannot move to another department",
+        });
+      }
+
+      const duplicate = lookupIndexed(
+        Services,
+        ServicesByDepartment,
+        payload.department_id
+      ).some(
+        (service) => service.id !== serviceId && service.code === payload.code
+      );
+
+      if (duplicate) {
+        return Err({
+          InvalidPayload: "Service code must be unique within the department",
+        });
+      }
+
+      const updatedService = { ...serviceOpt.Some, ...payload };
+
+      Services.insert(serviceId, updatedService);
+      return Ok(updatedService);
+    }
+  ),
+
+  // Function to get the fee schedule of a Department; inactive services are
+  // listed for admins only
+  getServicesByDepartment: query([text], Vec(Service), (departmentId) => {
+    const seesInactive = callerHasRole("Admin");
+
+    return lookupIndexed(Services, ServicesByDepartment, departmentId).filter(
+      (service) => service.active || seesInactive
+    );
+  }),
+
+  // Draft the invoice of a completed appointment from the fee schedule of the
+  // doctor's department (admin, staff or the appointment's doctor)
+  generateInvoice: auditedUpdate(
+    "generateInvoice",
+    [text, Vec(InvoiceLinePayload)], // appointmentId, lines
+    Result(Invoice, Message),
+    (appointmentId, lines) => {
+      const invalidFields = validatePayload({ lines }, InvoiceLinesSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      const appointmentOpt = Appointments.get(appointmentId);
+
+      if ("None" in appointmentOpt) {
+        return Err({
+          NotFound: `Appointment with id=${appointmentId} not found`,
+        });
+      }
+
+      const appointment = appointmentOpt.Some;
+
+      if (
+        !callerIsDoctor(appointment.doctor_id) &&
+        !callerHasRole("Admin", "Staff")
+      ) {
+        return unauthorized(`invoice appointment id=${appointmentId}`);
+      }
+
+      if (appointmentStatusName(appointment) !== "Completed") {
+        return Err({
+          InvalidPayload: `Appointment with id=${appointmentId} is ${appointmentStatusName(
+            appointment
+          )}; only completed appointments are invoiced`,
+        });
+      }
+
+      const existingInvoice = appointmentInvoice(appointment);
+
+      if (existingInvoice) {
+        return Err({
+          Conflict: `Invoice with id=${existingInvoice.id} already covers this appointment`,
+        });
+      }
+
+      const doctorOpt = liveDoctor(appointment.doctor_id);
+
+      if ("None" in doctorOpt) {
+        return Err({
+          InvalidPayload: `Doctor with id=${appointment.doctor_id} not found`,
+        });
+      }
+
+      const departmentId = doctorOpt.Some.department_id;
+
+      if (!Departments.containsKey(departmentId)) {
+        return Err({
+          InvalidPayload: `Department with id=${departmentId} of doctor id=${appointment.doctor_id} was deleted; move the doctor to a department with a fee schedule first`,
+        });
+      }
+      const priced = priceLines(departmentId, lines, serviceOf);
+
+      if ("Err" in priced) {
+        return Err({ InvalidPayload: priced.Err });
+      }
+
+      const invoice = {
+        ...priced.Ok,
+        id: uuidv4(),
+        appointment_id: appointment.id,
+        patient_id: appointment.patient_id,
+        department_id: departmentId,
+        status: InvoiceStatuses.Draft,
+        created_at: ic.time(),
+        issued_at: None,
+        paid_at: None,
+        voided_at: None,
+        void_reason: None,
+      };
+
+      Invoices.insert(invoice.id, invoice);
+      addToIndex(InvoicesByPatient, invoice.patient_id, invoice.id);
+      return Ok(invoice);
+    }
+  ),
+
+  // Replace the lines of a draft Invoice
+  updateInvoiceLines: auditedUpdate(
+    "updateInvoiceLines",
+    [text, Vec(InvoiceLinePayload)], // invoiceId, lines
+    Result(Invoice, Message),
+    (invoiceId, lines) => {
+      if (!callerHasRole("Admin", "Staff")) {
+        return unauthorized("edit invoices");
+      }
+
+      const invalidFields = validatePayload({ lines }, InvoiceLinesSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      const invoiceOpt = Invoices.get(invoiceId);
+
+      if ("None" in invoiceOpt) {
+        return Err({ NotFound: `Invoice with id=${invoiceId} not found` });
+      }
+
+      const invoice = invoiceOpt.Some;
+
+      if (invoiceStatusName(invoice) !== "Draft") {
+        return Err({
+          InvalidPayload: `Invoice with id=${invoiceId} is ${invoiceStatusName(
+            invoice
+          )}; only drafts can be edited`,
+        });
+      }
+
+      const priced = priceLines(invoice.department_id, lines, serviceOf);
+
+      if ("Err" in priced) {
+        return Err({ InvalidPayload: priced.Err });
+      }
+
+      const updatedInvoice = { ...invoice, ...priced.Ok };
+
+      Invoices.insert(invoiceId, updatedInvoice);
+      return Ok(updatedInvoice);
+    }
+  ),
+
+  // Issue a draft Invoice to the Patient for payment
+  issueInvoice: auditedUpdate(
+    "issueInvoice",
+    [text],
+    Result(Invoice, Message),
+    (invoiceId) => {
+      if (!callerHasRole("Admin", "Staff")) {
+        return unauthorized("issue invoices");
+      }
+
+      const invoiceOpt = Invoices.get(invoiceId);
+
+      if ("None" in invoiceOpt) {
+        return Err({ NotFound: `Invoice with id=${invoiceId} not found` });
+      }
+
+      const issued = transitionInvoice(invoiceOpt.Some, "Issued", {
+        issued_at: Some(ic.time()),
+      });
+
+      if ("Err" in issued) {
+        return Err({ InvalidPayload: issued.Err });
+      }
+
+      // Nothing to pay, e.g. with full discounts
+      if (issued.Ok.total === 0n) {
+        settleInvoice(issued.Ok);
+        return Ok(Invoices.get(invoiceId).Some!);
+      }
+
+      const owner = patientOwner(issued.Ok.patient_id);
+
+      if (owner !== undefined) {
+        notify(
+          owner,
+          "PaymentDue",
+          invoiceId,
+          `Invoice of ${issued.Ok.total} e8s was issued for your appointment`
+        );
+      }
+
+      return Ok(issued.Ok);
+    }
+  ),
+
+  // Void an Invoice that was not paid, e.g. to reissue it with other lines
+  voidInvoice: auditedUpdate(
+    "voidInvoice",
+    [text, text], // invoiceId, reason
+    Result(Invoice, Message),
+    (invoiceId, reason) => {
+      if (!callerHasRole("Admin", "Staff")) {
+        return unauthorized("void invoices");
+      }
+
+      const invalidFields = validatePayload({ reason }, VoidInvoiceSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      const invoiceOpt = Invoices.get(invoiceId);
+
+      if ("None" in invoiceOpt) {
+        return Err({ NotFound: `Invoice with id=${invoiceId} not found` });
+      }
+
+      const invoice = invoiceOpt.Some;
+      const references = describeReferences([
+        [
+          "pending payments",
+          invoicePayments(invoice).filter(
+            (payment) => "Pending" in payment.status
+          ).length,
+        ],
+        [
+          "payments not refunded",
+          invoicePayments(invoice).filter(
+            (payment) =>
+              "Completed" in payment.status ||
+              "PartiallyRefunded" in payment.status
+          ).length,
+        ],
+        [
+          "insurance claims",
+          lookupIndexed(
+            InsuranceClaims,
+            ClaimsByPatient,
+            invoice.patient_id
+          ).filter(
+            (claim) =>
+              claim.invoice_id.Some === invoiceId &&
+              claimStatusName(claim) !== "Denied"
+          ).length,
+        ],
+      ]);
+
+      if (references.length > 0) {
+        return Err({
+          Conflict: `Invoice with id=${invoiceId} is referenced by ${references.join(
+            ", "
+          )}`,
+        });
+      }
+
+      const voided = transitionInvoice(invoice, "Void", {
+        voided_at: Some(ic.time()),
+        void_reason: Some(reason),
+      });
+
+      if ("Err" in voided) {
+        return Err({ InvalidPayload: voided.Err });
+      }
+
+      return Ok(voided.Ok);
+    }
+  ),
+
+  // Function to get an Invoice by ID
+  getInvoiceById: query([text], Result(Invoice, Message), (invoiceId) => {
+    const invoiceOpt = Invoices.get(invoiceId);
+
+    if ("None" in invoiceOpt) {
+      return Err({ NotFound: `Invoice with id=${invoiceId} not found` });
+    }
+
+    if (
+      !callerOwnsPatient(invoiceOpt.Some.patient_id) &&
+      !callerHasRole("Admin", "Staff")
+    ) {
+      return unauthorized(`read invoice id=${invoiceId}`);
+    }
+
+    return Ok(invoiceOpt.Some);
+  }),
+
+  // Function to get the Invoices of a Patient
+  getInvoicesByPatient: query(
+    [text],
+    Result(Vec(Invoice), Message),
+    (patientId) => {
+      if (!callerOwnsPatient(patientId) && !callerHasRole("Admin", "Staff")) {
+        return unauthorized(`read invoices of patient id=${patientId}`);
+      }
+
+      return Ok(lookupIndexed(Invoices, InvoicesByPatient, patientId));
+    }
+  ),
+
+  // Billing and Payment Processing
+  initiatePayment: auditedUpdate(
+    "initiatePayment",
+    [CreatePaymentPayload],
+    Result(PaymentReservation, Message),
+    (payload) => {
+      // Validate the payload
+      const invalidFields = validatePayload(payload, CreatePaymentSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      // Validate the invoice
+      const invoiceOpt = Invoices.get(payload.invoice_id);
+
+      if ("None" in invoiceOpt) {
+        return Err({
+          InvalidPayload: `Invoice with id=${payload.invoice_id} not found`,
+        });
+      }
+
+      const invoice = invoiceOpt.Some;
+
+      // Validate the patient
+      const patientOpt = livePatient(invoice.patient_id);
+
+      if ("None" in patientOpt) {
+        return Err({
+          InvalidPayload: `Patient with id=${invoice.patient_id} not found`,
+        });
+      }
+
+      if (
+        !isCaller(patientOpt.Some.owner) &&
+        !callerHasRole("Admin", "Staff")
+      ) {
+        return unauthorized(
+          `initiate payments for patient id=${invoice.patient_id}`
+        );
+      }
+
+      if (invoiceStatusName(invoice) === "Paid") {
+        return Err({
+          PaymentCompleted: `Invoice with id=${invoice.id} is already paid`,
+        });
+      }
+
+      if (invoiceStatusName(invoice) !== "Issued") {
+        return Err({
+          InvalidPayload: `Invoice with id=${invoice.id} is ${invoiceStatusName(
+            invoice
+          )} and cannot be paid`,
+        });
+      }
+
+      const appointmentOpt = Appointments.get(invoice.appointment_id);
+
+      if ("None" in appointmentOpt) {
+        return Err({
+          InvalidPayload: `Appointment with id=${invoice.appointment_id} not found`,
+        });
+      }
+
+      const appointment = appointmentOpt.Some;
+
+      // Only one reservation can be open per invoice; a lapsed one is released
+      // here rather than waiting for the notification sweep
+      const now = ic.time();
+      const pendingPayment = invoicePayments(invoice).find(
+        (payment) =>
+          !releaseLapsedReservation(payment, now) && "Pending" in payment.status
+      );
+
+      if (pendingPayment) {
+        return Err({
+          InvalidPayload: `Payment with id=${pendingPayment.id} is already pending for this invoice`,
+        });
+      }
+
+      // With an insurance claim, the patient pays only what the insurer does not
+      const claim = appointmentClaim(appointment);
+
+      if (claim && claimStatusName(claim) === "Submitted") {
+        return Err({
+          InvalidPayload: `Insurance claim with id=${claim.id} is waiting for the insurer's decision`,
+        });
+      }
+
+      // Partial payments add up to the balance left after insurance
+      const { outstanding } = invoiceBalance(invoice);
+      const amount = payload.amount.Some ?? outstanding;
+
+      if (amount === 0n || amount > outstanding) {
+        return Err({
+          InvalidPayload: `Amount must be between 1 and the ${outstanding} e8s still open on invoice id=${invoice.id}`,
+        });
+      }
+
+      const paymentId = uuidv4();
+      const createdAt = now;
+      const payment = {
+        id: paymentId,
+        appointment_id: invoice.appointment_id,
+        patient_id: invoice.patient_id,
+        payer: patientOpt.Some.owner,
+        amount,
+        refunded_amount: 0n,
+        status: PaymentStatuses.Pending,
+        memo: generateCorrelationId(paymentId),
+        refund_eligible: false,
+        block: None,
+        created_at: createdAt,
+        paid_at: None,
+        claim_id: claim ? Some(claim.id) : None,
+        invoice_id: Some(invoice.id),
+        payment_method: payload.payment_method,
+      };
+
+      Payments.insert(paymentId, payment);
+      addToIndex(PaymentsByPatient, payment.patient_id, paymentId);
+      // The notification sweep sends the pending notice and releases the
+      // reservation once it lapses
+      scheduleNotice(createdAt, "payment", paymentId);
+
+      return Ok({
+        payment_id: paymentId,
+        amount: payment.amount,
+        memo: payment.memo,
+        clinic_address: clinicAddress(),
+        expires_at: reservationExpiry(payment),
+      });
+    }
+  ),
+
+  // Settle a payment by checking its transfer on the ledger
+  completePayment: auditedUpdate(
+    "completePayment",
+    [text, nat64], // paymentId, ledger block index
+    Result(Payment, Message),
+    async (paymentId, block) => {
+      const paymentOpt = Payments.get(paymentId);
+
+      if ("None" in paymentOpt) {
+        return Err({ NotFound: `Payment with id=${paymentId} not found` });
+      }
+
+      const payment = paymentOpt.Some;
+
+      if (
+        !isCaller(payment.payer) &&
+        !callerOwnsPatient(payment.patient_id) &&
+        !callerHasRole("Admin", "Staff")
+      ) {
+        return unauthorized(`complete payment id=${paymentId}`);
+      }
+
+      const refusal = settlementRefusal(
+        paymentId,
+        paymentStatusName(payment),
+        block,
+        SettledBlocks
+      );
+
+      if (refusal !== undefined) {
+        return Err({ PaymentFailed: refusal });
+      }
+
+      const verified = await verifyLedgerTransfer(payment, block);
+
+      if (!verified) {
+        return Err({
+          PaymentFailed: `Ledger block ${block} does not hold a transfer of ${payment.amount} e8s with memo ${payment.memo} from the payer to the clinic`,
+        });
+      }
+
+      // Re-check state that may have changed while waiting for the ledger
+      const currentPaymentOpt = Payments.get(paymentId);
+
+      if (
+        "None" in currentPaymentOpt ||
+        settlementRefusal(
+          paymentId,
+          paymentStatusName(currentPaymentOpt.Some),
+          block,
+          SettledBlocks
+        ) !== undefined
+      ) {
+        return Err({
+          PaymentFailed: `Payment with id=${paymentId} was updated while verifying the transfer`,
+        });
+      }
+
+      const needed = transferStillNeeded(currentPaymentOpt.Some);
+      const completed = transitionPayment(currentPaymentOpt.Some, "Completed", {
+        block: Some(block),
+        paid_at: Some(ic.time()),
+        refund_eligible: !needed,
+      });
+
+      if ("Err" in completed) {
+        return Err({ PaymentFailed: completed.Err });
+      }
+
+      const completedPayment = completed.Ok;
+
+      SettledBlocks.insert(block, paymentId);
+
+      if (!needed) {
+        await refundUnneededTransfer(completedPayment);
+        return Ok(Payments.get(paymentId).Some!);
+      }
+
+      const invoiceOpt = Invoices.get(payment.invoice_id.Some ?? "");
+
+      if ("Some" in invoiceOpt) {
+        // The invoice is paid once its partial payments cover the balance
+        if (invoiceBalance(invoiceOpt.Some!).outstanding === 0n) {
+          settleInvoice(invoiceOpt.Some!);
+        }
+      } else {
+        const appointmentOpt = Appointments.get(payment.appointment_id);
+
+        if ("Some" in appointmentOpt) {
+          Appointments.insert(payment.appointment_id, {
+            ...appointmentOpt.Some!,
+            paid: true,
+          });
+        }
+      }
+
+      return Ok(completedPayment);
+    }
+  ),
+
+  // Function to get a Payment by ID
+  getPaymentById: query([text], Result(Payment, Message), (paymentId) => {
+    const paymentOpt = Payments.get(paymentId);
+
+    if ("None" in paymentOpt) {
+      return Err({ NotFound: `Payment with id=${paymentId} not found` });
+    }
+
+    if (!isCaller(paymentOpt.Some.payer) && !callerHasRole("Admin", "Staff")) {
+      return unauthorized(`read payment id=${paymentId}`);
+    }
+
+    return Ok(paymentOpt.Some);
   }),
 
-  // Get Doctor by Department
-  getDoctorByDepartment: query(
+  // Function to get a page of the Payments visible to the caller
+  getAllPayments: query(
+    [PageRequest],
+    Result(PaymentPage, Message),
+    (request) => {
+      const seesAll = callerHasRole("Admin", "Staff");
+
+      return paginate(
+        Payments,
+        request,
+        ["appointment_id", "patient_id", "status"],
+        (payment) => seesAll || isCaller(payment.payer)
+      );
+    }
+  ),
+
+  // Release a pending reservation by hand (admin or staff); completion needs
+  // the ledger transfer and refunds go through refund requests
+  updatePaymentStatus: auditedUpdate(
+    "updatePaymentStatus",
+    [text, PaymentStatus], // paymentId, newStatus
+    Result(Payment, Message),
+    (paymentId, newStatus) => {
+      if (!callerHasRole("Admin", "Staff")) {
+        return unauthorized("update payment status");
+      }
+
+      const paymentOpt = Payments.get(paymentId);
+
+      if ("None" in paymentOpt) {
+        return Err({ NotFound: `Payment with id=${paymentId} not found` });
+      }
+
+      if (!("Failed" in newStatus)) {
+        return Err({
+          InvalidPayload:
+            "Only Failed can be set by hand; use completePayment and refund requests for the other statuses",
+        });
+      }
+
+      const updated = transitionPayment(paymentOpt.Some, "Failed");
+
+      if ("Err" in updated) {
+        return Err({ InvalidPayload: updated.Err });
+      }
+
+      return Ok(updated.Ok);
+    }
+  ),
+
+  // Ask for part or all of a settled payment back
+  requestRefund: auditedUpdate(
+    "requestRefund",
+    [text, RequestRefundPayload], // paymentId, refund
+    Result(Refund, Message),
+    (paymentId, payload) => {
+      const invalidFields = validatePayload(payload, RequestRefundSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      const paymentOpt = Payments.get(paymentId);
+
+      if ("None" in paymentOpt) {
+        return Err({ NotFound: `Payment with id=${paymentId} not found` });
+      }
+
+      const payment = paymentOpt.Some;
+
+      if (
+        !isCaller(payment.payer) &&
+        !callerOwnsPatient(payment.patient_id) &&
+        !callerHasRole("Admin", "Staff")
+      ) {
+        return unauthorized(`request a refund of payment id=${paymentId}`);
+      }
+
+      const status = paymentStatusName(payment);
+
+      if (!isRefundableStatus(status)) {
+        return Err({
+          InvalidPayload: `Payment with id=${paymentId} is ${status} and cannot be refunded`,
+        });
+      }
+
+      const refundable = refundableAmount(
+        payment.amount,
+        payment.refunded_amount,
+        openRefundRequests(payment)
+      );
+
+      if (payload.amount > refundable) {
+        return Err({
+          InvalidPayload: `At most ${refundable} e8s of payment id=${paymentId} can still be refunded`,
+        });
+      }
+
+      const refundId = uuidv4();
+      const refund = {
+        ...payload,
+        id: refundId,
+        payment_id: paymentId,
+        patient_id: payment.patient_id,
+        memo: generateCorrelationId(refundId),
+        status: RefundStatuses.Requested,
+        requested_by: ic.caller(),
+        requested_at: ic.time(),
+        reviewed_by: None,
+        reviewed_at: None,
+        review_note: None,
+        block: None,
+      };
+
+      Refunds.insert(refundId, refund);
+      addToIndex(RefundsByPatient, refund.patient_id, refundId);
+      return Ok(refund);
+    }
+  ),
+
+  // Approve a refund request and send the amount back to the payer, or reject
+  // it (admin or staff)
+  reviewRefund: auditedUpdate(
+    "reviewRefund",
+    [text, ReviewRefundPayload], // refundId, decision
+    Result(Refund, Message),
+    async (refundId, payload) => {
+      if (!callerHasRole("Admin", "Staff")) {
+        return unauthorized("review refunds");
+      }
+
+      const invalidFields = validatePayload(payload, ReviewRefundSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      const refundOpt = Refunds.get(refundId);
+
+      if ("None" in refundOpt) {
+        return Err({ NotFound: `Refund with id=${refundId} not found` });
+      }
+
+      const refund = refundOpt.Some;
+
+      if (refundStatusName(refund) !== "Requested") {
+        return Err({
+          InvalidPayload: `Refund with id=${refundId} is ${refundStatusName(
+            refund
+          )}, not requested`,
+        });
+      }
+
+      const paymentOpt = Payments.get(refund.payment_id);
+
+      if ("None" in paymentOpt) {
+        return Err({
+          NotFound: `Payment with id=${refund.payment_id} not found`,
+        });
+      }
+
+      const reviewed = {
+        ...refund,
+        reviewed_by: Some(ic.caller()),
+        reviewed_at: Some(ic.time()),
+        review_note: Some(payload.note),
+      };
+
+      if (!payload.approve) {
+        const rejected = { ...reviewed, status: RefundStatuses.Rejected };
+
+        Refunds.insert(refundId, rejected);
+        return Ok(rejected);
+      }
+
+      const refunded = await payOutRefund(refund, reviewed);
+
+      if ("Err" in refunded) {
+        return Err({ PaymentFailed: refunded.Err });
+      }
+
+      return Ok(refunded.Ok);
+    }
+  ),
+
+  // Function to get the refund requests of a Patient
+  getRefundsByPatient: query(
     [text],
-    Result(Vec(Doctor), Message),
-    (departmentId) => {
-      const doctors = Doctors.values().filter(
-        (doctor) => doctor.department_id === departmentId
+    Result(Vec(Refund), Message),
+    (patientId) => {
+      if (!callerOwnsPatient(patientId) && !callerHasRole("Admin", "Staff")) {
+        return unauthorized(`read refunds of patient id=${patientId}`);
+      }
+
+      return Ok(lookupIndexed(Refunds, RefundsByPatient, patientId));
+    }
+  ),
+
+  // Compare recorded payments and refunds with the clinic's ledger transfers in
+  // a range of blocks (admin only). An update call, since only updates can
+  // call the ledger
+  reconcilePayments: auditedUpdate(
+    "reconcilePayments",
+    [nat64, nat64], // first block, block count
+    Result(ReconciliationReport, Message),
+    async (start, length) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("reconcile payments");
+      }
+
+      let response;
+
+      try {
+        response = await ic.call(icpCanister.query_blocks, {
+          args: [
+            {
+              start,
+              length:
+                length < MAX_RECONCILE_BLOCKS ? length : MAX_RECONCILE_BLOCKS,
+            },
+          ],
+        });
+      } catch (error) {
+        return Err({ PaymentFailed: `Ledger query failed: ${error}` });
+      }
+
+      const { matched, mismatches } = reconcileBlocks(
+        response.first_block_index,
+        response.blocks
+      );
+
+      return Ok({
+        first_block: response.first_block_index,
+        block_count: BigInt(response.blocks.length),
+        archived_blocks: response.archived_blocks.reduce(
+          (total, archived) => total + archived.length,
+          0n
+        ),
+        matched,
+        mismatches,
+      });
+    }
+  ),
+
+  // Register an insurance company (admin only)
+  createInsurer: auditedUpdate(
+    "createInsurer",
+    [CreateInsurerPayload],
+    Result(Insurer, Message),
+    (payload) => {
+      if (!callerHasRole("Admin")) {
+        return unauthorized("create insurers");
+      }
+
+      const invalidFields = validatePayload(payload, CreateInsurerSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      const insurer = { ...payload, id: uuidv4() };
+
+      Insurers.insert(insurer.id, insurer);
+      return Ok(insurer);
+    }
+  ),
+
+  // Function to get every Insurer
+  getInsurers: query([], Vec(Insurer), () => {
+    return Insurers.values();
+  }),
+
+  // Attach an insurance policy to a Patient
+  addInsurancePolicy: auditedUpdate(
+    "addInsurancePolicy",
+    [CreateInsurancePolicyPayload],
+    Result(InsurancePolicy, Message),
+    (payload) => {
+      const invalidFields = validatePayload(
+        payload,
+        CreateInsurancePolicySchema
+      );
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      if ("None" in livePatient(payload.patient_id)) {
+        return Err({
+          InvalidPayload: `Patient with id=${payload.patient_id} not found`,
+        });
+      }
+
+      if (
+        !callerOwnsPatient(payload.patient_id) &&
+        !callerHasRole("Admin", "Staff")
+      ) {
+        return unauthorized(
+          `add insurance policies for patient id=${payload.patient_id}`
+        );
+      }
+
+      if (!Insurers.containsKey(payload.insurer_id)) {
+        return Err({
+          InvalidPayload: `Insurer with id=${payload.insurer_id} not found`,
+        });
+      }
+
+      const unknownDepartment = payload.coverage.find(
+        (rule) =>
+          "Some" in rule.department_id &&
+          !Departments.containsKey(rule.department_id.Some!)
       );
 
-      if (doctors.length === 0) {
+      if (unknownDepartment) {
         return Err({
-          NotFound: `No doctors found for department id=${departmentId}`,
+          InvalidPayload: `Department with id=${unknownDepartment.department_id.Some} not found`,
         });
       }
 
-      return Ok(doctors);
+      if (payload.expires_at <= ic.time()) {
+        return Err({ InvalidPayload: "Policy expiry must be in the future" });
+      }
+
+      const policy = { ...payload, id: uuidv4(), created_at: ic.time() };
+
+      InsurancePolicies.insert(policy.id, policy);
+      addToIndex(PoliciesByPatient, policy.patient_id, policy.id);
+      return Ok(policy);
     }
   ),
 
-  // Function to get all Doctors
-  getAllDoctors: query([], Result(Vec(Doctor), Message), () => {
-    const doctors = Doctors.values();
+  // Function to get the insurance policies of a Patient
+  getInsurancePoliciesByPatient: query(
+    [text],
+    Result(Vec(InsurancePolicy), Message),
+    (patientId) => {
+      if (!callerOwnsPatient(patientId) && !callerHasRole("Admin", "Staff")) {
+        return unauthorized(
+          `read insurance policies of patient id=${patientId}`
+        );
+      }
 
-    if (doctors.length === 0) {
-      return Err({ NotFound: "No doctors found" });
+      return Ok(lookupIndexed(InsurancePolicies, PoliciesByPatient, patientId));
     }
+  ),
 
-    return Ok(doctors);
-  }),
-
-  // Create a Patient
-  createPatient: update(
-    [CreatePatientPayload],
-    Result(Patient, Message),
+  // Estimate what the Patient's policy covers of a bill today, given the
+  // deductible and coverage already used this year
+  estimateInsuranceCost: query(
+    [EstimateCostPayload],
+    Result(CostEstimate, Message),
     (payload) => {
-      // Validate the payload
-      if (!payload.name || payload.age === undefined) {
-        return Err({ InvalidPayload: "Missing required fields" });
+      const invalidFields = validatePayload(payload, EstimateCostSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
       }
 
-      // Assuming validation passes, proceed to create the patient profile
-      const patientId = uuidv4();
-      const patient = {
-        ...payload,
-        id: patientId,
-        owner: ic.caller(),
-      };
+      if (
+        !callerOwnsPatient(payload.patient_id) &&
+        !callerHasRole("Admin", "Staff")
+      ) {
+        return unauthorized(
+          `estimate costs for patient id=${payload.patient_id}`
+        );
+      }
 
-      Patients.insert(patientId, patient);
-      return Ok(patient); // Successfully return the created patient profile
+      if ("None" in livePatient(payload.patient_id)) {
+        return Err({
+          NotFound: `Patient with id=${payload.patient_id} not found`,
+        });
+      }
+
+      return Ok(
+        estimateCost(
+          payload.patient_id,
+          payload.department_id,
+          payload.service_code,
+          payload.billed_amount,
+          ic.time()
+        )
+      );
     }
   ),
 
-  // Function to get a Patient by ID
-  getPatientById: query([text], Result(Patient, Message), (patientId) => {
-    const patientOpt = Patients.get(patientId);
+  // Claim the cost of an appointment from the Patient's policy
+  submitInsuranceClaim: auditedUpdate(
+    "submitInsuranceClaim",
+    [SubmitClaimPayload],
+    Result(InsuranceClaim, Message),
+    (payload) => {
+      const invalidFields = validatePayload(payload, SubmitClaimSchema);
 
-    if ("None" in patientOpt) {
-      return Err({
-        NotFound: `Patient with id=${patientId} not found`,
-      });
-    }
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
 
-    return Ok(patientOpt.Some);
-  }),
+      const invoiceOpt = Invoices.get(payload.invoice_id);
 
-  // Function to get a Patient Profile by Owner Principal using filter
-  getPatientByOwner: query([], Result(Patient, Message), () => {
-    const patientProfiles = Patients.values().filter((patient) => {
-      return patient.owner.toText() === ic.caller().toText();
-    });
+      if ("None" in invoiceOpt) {
+        return Err({
+          InvalidPayload: `Invoice with id=${payload.invoice_id} not found`,
+        });
+      }
 
-    if (patientProfiles.length === 0) {
-      return Err({
-        NotFound: `Patient profile for owner=${ic.caller()} not found`,
-      });
-    }
+      const invoice = invoiceOpt.Some;
 
-    return Ok(patientProfiles[0]);
-  }),
+      if (
+        !callerOwnsPatient(invoice.patient_id) &&
+        !callerHasRole("Admin", "Staff")
+      ) {
+        return unauthorized(
+          `submit insurance claims for invoice id=${invoice.id}`
+        );
+      }
 
-  // Function to get all Patients
-  getAllPatients: query([], Result(Vec(Patient), Message), () => {
-    const patients = Patients.values();
+      if (invoiceStatusName(invoice) !== "Issued") {
+        return Err({
+          InvalidPayload: `Invoice with id=${invoice.id} is ${invoiceStatusName(
+            invoice
+          )} and cannot be claimed`,
+        });
+      }
 
-    if (patients.length === 0) {
-      return Err({ NotFound: "No patients found" });
-    }
+      const appointmentOpt = Appointments.get(invoice.appointment_id);
 
-    return Ok(patients);
-  }),
+      if ("None" in appointmentOpt) {
+        return Err({
+          InvalidPayload: `Appointment with id=${invoice.appointment_id} not found`,
+        });
+      }
 
-  // Create a Consultation
-  createConsultation: update(
-    [CreateConsultationPayload],
-    Result(Consultation, Message),
-    (payload) => {
-      // Validate the payload
-      if (!payload.patient_id || !payload.problem || !payload.department_id) {
-        return Err({ InvalidPayload: "Missing required fields" });
+      const appointment = appointmentOpt.Some;
+
+      // The insurer's share must be known before the patient pays any part
+      const payment = invoicePayments(invoice).find(
+        (payment) => !("Failed" in payment.status)
+      );
+
+      if (payment) {
+        return Err({
+          Conflict: `Payment with id=${payment.id} was already made against this invoice`,
+        });
       }
 
-      // Validate the patient
-      const patientOpt = Patients.get(payload.patient_id);
+      const existingClaim = appointmentClaim(appointment);
 
-      if ("None" in patientOpt) {
+      if (existingClaim) {
         return Err({
-          InvalidPayload: `Patient with id=${payload.patient_id} not found`,
+          Conflict: `Insurance claim with id=${existingClaim.id} already covers this appointment`,
         });
       }
 
-      // Validate the department
-      const departmentOpt = Departments.get(payload.department_id);
+      const policy = activePolicy(
+        appointment.patient_id,
+        appointment.appointment_time
+      );
 
-      if ("None" in departmentOpt) {
+      if (policy === undefined) {
         return Err({
-          InvalidPayload: `Department with id=${payload.department_id} not found`,
+          InvalidPayload: `Patient with id=${appointment.patient_id} has no insurance policy in force on the appointment date`,
         });
       }
 
-      // Assuming validation passes, proceed to create the consultation
-      const consultationId = uuidv4();
-      const consultation = {
-        ...payload,
-        id: consultationId,
+      // A claim names its service only when the invoice bills a single one
+      const codes = new Set(invoice.lines.map((line) => line.code));
+      const serviceCode = codes.size === 1 ? Some(invoice.lines[0].code) : None;
+      const claim = {
+        id: uuidv4(),
+        policy_id: policy.id,
+        patient_id: appointment.patient_id,
+        appointment_id: appointment.id,
+        invoice_id: Some(invoice.id),
+        service_code: serviceCode,
+        service_date: appointment.appointment_time,
+        billed_amount: invoice.total,
+        estimate: estimateInvoiceCost(invoice, appointment.appointment_time),
+        status: ClaimStatuses.Submitted,
+        approved_amount: None,
+        submitted_at: ic.time(),
+        decided_at: None,
+        decision_note: None,
       };
 
-      Consultations.insert(consultationId, consultation);
-      return Ok(consultation); // Successfully return the created consultation
+      InsuranceClaims.insert(claim.id, claim);
+      addToIndex(ClaimsByPatient, claim.patient_id, claim.id);
+      return Ok(claim);
     }
   ),
 
-  // Function to get a Consultation by ID
-  getConsultationById: query(
-    [text],
-    Result(Consultation, Message),
-    (consultationId) => {
-      const consultationOpt = Consultations.get(consultationId);
+  // Record the insurer's decision on a submitted claim (admin or staff)
+  reviewInsuranceClaim: auditedUpdate(
+    "reviewInsuranceClaim",
+    [text, ReviewClaimPayload], // claimId, decision
+    Result(InsuranceClaim, Message),
+    (claimId, payload) => {
+      if (!callerHasRole("Admin", "Staff")) {
+        return unauthorized("review insurance claims");
+      }
 
-      if ("None" in consultationOpt) {
+      const invalidFields = validatePayload(payload, ReviewClaimSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      const claimOpt = InsuranceClaims.get(claimId);
+
+      if ("None" in claimOpt) {
         return Err({
-          NotFound: `Consultation with id=${consultationId} not found`,
+          NotFound: `Insurance claim with id=${claimId} not found`,
         });
       }
 
-      return Ok(consultationOpt.Some);
+      const claim = claimOpt.Some;
+
+      if (claimStatusName(claim) !== "Submitted") {
+        return Err({
+          InvalidPayload: `Insurance claim with id=${claimId} was already decided`,
+        });
+      }
+
+      const decision = payload.decision;
+
+      if (
+        "PartiallyApproved" in decision &&
+        (decision.PartiallyApproved === 0n ||
+          decision.PartiallyApproved! >= claim.billed_amount)
+      ) {
+        return Err({
+          InvalidPayload:
+            "A partial approval must pay more than 0 and less than the billed amount",
+        });
+      }
+
+      // The estimate left the rest of the annual cap after its covered amount
+      const capLeft =
+        claim.estimate.covered_amount + claim.estimate.cap_remaining;
+
+      if (
+        "PartiallyApproved" in decision &&
+        decision.PartiallyApproved! > capLeft
+      ) {
+        return Err({
+          InvalidPayload: `A partial approval cannot pay more than the ${capLeft} e8s left under the policy's annual cap`,
+        });
+      }
+
+      const approvedAmount =
+        "Approved" in decision
+          ? claim.estimate.covered_amount
+          : "PartiallyApproved" in decision
+          ? decision.PartiallyApproved!
+          : 0n;
+      const decidedClaim = {
+        ...claim,
+        status: ClaimStatuses[Object.keys(decision)[0] as ClaimStatusName],
+        approved_amount: Some(approvedAmount),
+        decided_at: Some(ic.time()),
+        decision_note: Some(payload.note),
+      };
+
+      InsuranceClaims.insert(claimId, decidedClaim);
+
+      // Nothing is left for the patient to pay when the insurer covers it all
+      const invoiceOpt = Invoices.get(claim.invoice_id.Some ?? "");
+
+      if ("Some" in invoiceOpt && approvedAmount >= claim.billed_amount) {
+        settleInvoice(invoiceOpt.Some!);
+      }
+
+      return Ok(decidedClaim);
     }
   ),
 
-  // Function to get all Consultations
-  getAllConsultations: query([], Result(Vec(Consultation), Message), () => {
-    const consultations = Consultations.values();
+  // Function to get the insurance claims of a Patient
+  getInsuranceClaimsByPatient: query(
+    [text],
+    Result(Vec(InsuranceClaim), Message),
+    (patientId) => {
+      if (!callerOwnsPatient(patientId) && !callerHasRole("Admin", "Staff")) {
+        return unauthorized(`read insurance claims of patient id=${patientId}`);
+      }
 
-    if (consultations.length === 0) {
-      return Err({ NotFound: "No consultations found" });
+      return Ok(lookupIndexed(InsuranceClaims, ClaimsByPatient, patientId));
     }
+  ),
 
-    return Ok(consultations);
-  }),
+  // Medical Records and History Tracking
+  getMedicalRecordsByPatient: auditedUpdate(
+    "getMedicalRecordsByPatient",
+    [text], // patientId
+    Result(MedicalRecord, Message),
+    (patientId) => {
+      const scopes = callerAccessScopes(patientId);
 
-  // Create a Chat
-  createChat: update([CreateChatPayload], Result(Chat, Message), (payload) => {
-    // Validate the payload
-    if (
-      !payload.patient_id ||
-      !payload.doctor_id ||
-      !payload.message ||
-      !payload.timestamp
-    ) {
-      return Err({ InvalidPayload: "Missing required fields" });
+      const recordScopes: ConsentScopeName[] = [
+        "Medications",
+        "Labs",
+        "FullRecord",
+      ];
+
+      if (!recordScopes.some((scope) => scopes.includes(scope))) {
+        return unauthorized(`read medical records of patient id=${patientId}`);
+      }
+
+      const medicalRecordOpt = MedicalRecords.get(patientId);
+
+      if ("None" in medicalRecordOpt) {
+        return Err({
+          NotFound: `Medical records for patient id=${patientId} not found`,
+        });
+      }
+
+      return Ok(medicalRecordView(medicalRecordOpt.Some, scopes));
     }
+  ),
 
-    // Validate the patient
-    const patientOpt = Patients.get(payload.patient_id);
+  // Function to get every recorded version of a Patient's profile and medical record
+  getPatientHistory: auditedUpdate(
+    "getPatientHistory",
+    [text], // patientId
+    Result(PatientHistory, Message),
+    (patientId) => {
+      if ("None" in livePatient(patientId)) {
+        return Err({ NotFound: `Patient with id=${patientId} not found` });
+      }
 
-    if ("None" in patientOpt) {
-      return Err({
-        InvalidPayload: `Patient with id=${payload.patient_id} not found`,
+      // Diffs can touch any part of the record
+      if (!hasScope(callerAccessScopes(patientId), "FullRecord")) {
+        return unauthorized(`read the history of patient id=${patientId}`);
+      }
+
+      return Ok({
+        profile: recordedVersions(
+          PatientVersions,
+          PatientVersionHeads,
+          patientId
+        ),
+        medical_record: recordedVersions(
+          MedicalRecordVersions,
+          MedicalRecordVersionHeads,
+          patientId
+        ),
       });
     }
+  ),
 
-    // Validate the doctor
-    const doctorOpt = Doctors.get(payload.doctor_id);
+  // Function to get a Patient's profile and medical record as they were at a time
+  getPatientAsOf: auditedUpdate(
+    "getPatientAsOf",
+    [text, nat64], // patientId, time in nanoseconds
+    Result(PatientSnapshot, Message),
+    (patientId, time) => {
+      if ("None" in livePatient(patientId)) {
+        return Err({ NotFound: `Patient with id=${patientId} not found` });
+      }
 
-    if ("None" in doctorOpt) {
-      return Err({
-        InvalidPayload: `Doctor with id=${payload.doctor_id} not found`,
+      const scopes = callerAccessScopes(patientId);
+
+      if (scopes.length === 0) {
+        return unauthorized(`read patient id=${patientId}`);
+      }
+
+      const patient = snapshotAsOf(
+        PatientVersions,
+        PatientVersionHeads,
+        patientId,
+        time
+      );
+
+      if (!patient) {
+        return Err({
+          NotFound: `No profile of patient id=${patientId} was recorded at ${time}`,
+        });
+      }
+
+      const medicalRecord = snapshotAsOf(
+        MedicalRecordVersions,
+        MedicalRecordVersionHeads,
+        patientId,
+        time
+      );
+
+      return Ok({
+        patient: patientView(patient, scopes),
+        medical_record:
+          medicalRecord === undefined
+            ? None
+            : Some(medicalRecordView(medicalRecord, scopes)),
       });
     }
+  ),
 
-    // Assuming validation passes, proceed to create the chat
-    const chatId = uuidv4();
-    const chat = {
-      ...payload,
-      id: chatId,
-    };
+  // Append a clinical note to a Patient's Medical Record (doctors only)
+  addClinicalNote: auditedUpdate(
+    "addClinicalNote",
+    [text, CreateClinicalNotePayload], // patientId, note
+    Result(MedicalRecord, Message),
+    (patientId, payload) => {
+      const doctor = findCallerDoctor();
 
-    Chats.insert(chatId, chat);
-    return Ok(chat); // Successfully return the created chat
-  }),
+      if (!callerHasRole("Doctor") || !doctor) {
+        return unauthorized("write clinical notes");
+      }
 
-  // Function to get a Chat by ID
-  getChatById: query([text], Result(Chat, Message), (chatId) => {
-    const chatOpt = Chats.get(chatId);
+      const invalidFields = validatePayload(payload, CreateClinicalNoteSchema);
 
-    if ("None" in chatOpt) {
-      return Err({
-        NotFound: `Chat with id=${chatId} not found`,
-      });
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      if ("None" in livePatient(patientId)) {
+        return Err({ NotFound: `Patient with id=${patientId} not found` });
+      }
+
+      if (
+        "Some" in payload.encounter_id &&
+        !isEncounterOf(patientId, payload.encounter_id.Some!)
+      ) {
+        return Err({
+          InvalidPayload: `Encounter with id=${payload.encounter_id.Some} not found for this patient`,
+        });
+      }
+
+      const medicalRecord = getOrCreateMedicalRecord(patientId);
+
+      if (
+        !amendsExistingEntry(payload.amends.Some, medicalRecord.clinical_notes)
+      ) {
+        return Err({
+          InvalidPayload: "Amended clinical note not found in this record",
+        });
+      }
+
+      return Ok(
+        appendClinicalNote(patientId, doctor.id, payload, "addClinicalNote")
+      );
     }
+  ),
 
-    return Ok(chatOpt.Some);
-  }),
+  // Append a lab result to a Patient's Medical Record
+  addLabResult: auditedUpdate(
+    "addLabResult",
+    [text, CreateLabResultPayload], // patientId, lab result
+    Result(MedicalRecord, Message),
+    (patientId, payload) => {
+      if (!callerHasRole("Doctor", "Staff")) {
+        return unauthorized("record lab results");
+      }
+
+      const invalidFields = validatePayload(payload, CreateLabResultSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      const rangeProblem = referenceRangeProblem(
+        payload.reference_range.low.Some,
+        payload.reference_range.high.Some
+      );
+
+      if (rangeProblem) {
+        return Err({ InvalidPayload: rangeProblem });
+      }
+
+      if ("None" in livePatient(patientId)) {
+        return Err({ NotFound: `Patient with id=${patientId} not found` });
+      }
+
+      const medicalRecord = getOrCreateMedicalRecord(patientId);
+
+      if (
+        !amendsExistingEntry(payload.amends.Some, medicalRecord.lab_results)
+      ) {
+        return Err({
+          InvalidPayload: "Amended lab result not found in this record",
+        });
+      }
+
+      const updatedRecord = {
+        ...medicalRecord,
+        lab_results: [
+          ...medicalRecord.lab_results,
+          {
+            ...payload,
+            id: uuidv4(),
+            recorded_by: ic.caller(),
+            recorded_at: ic.time(),
+          },
+        ],
+      };
+
+      saveMedicalRecord(updatedRecord, "addLabResult");
+      return Ok(updatedRecord);
+    }
+  ),
+
+  // Append an immunization to a Patient's Medical Record
+  addImmunization: auditedUpdate(
+    "addImmunization",
+    [text, CreateImmunizationPayload], // patientId, immunization
+    Result(MedicalRecord, Message),
+    (patientId, payload) => {
+      if (!callerHasRole("Doctor", "Staff")) {
+        return unauthorized("record immunizations");
+      }
+
+      const invalidFields = validatePayload(payload, CreateImmunizationSchema);
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
+
+      if (payload.administered_at > ic.time()) {
+        return Err({
+          InvalidPayload: "Immunization date cannot be in the future",
+        });
+      }
+
+      if ("None" in livePatient(patientId)) {
+        return Err({ NotFound: `Patient with id=${patientId} not found` });
+      }
+
+      const medicalRecord = getOrCreateMedicalRecord(patientId);
+
+      if (
+        !amendsExistingEntry(payload.amends.Some, medicalRecord.immunizations)
+      ) {
+        return Err({
+          InvalidPayload: "Amended immunization not found in this record",
+        });
+      }
+
+      const updatedRecord = {
+        ...medicalRecord,
+        immunizations: [
+          ...medicalRecord.immunizations,
+          {
+            ...payload,
+            id: uuidv4(),
+            recorded_by: ic.caller(),
+            recorded_at: ic.time(),
+          },
+        ],
+      };
+
+      saveMedicalRecord(updatedRecord, "addImmunization");
+      return Ok(updatedRecord);
+    }
+  ),
+
+  // Grant a Doctor or Department scoped, time-limited access to a Patient's data
+  grantConsent: auditedUpdate(
+    "grantConsent",
+    [text, CreateConsentPayload], // patientId, grant
+    Result(ConsentGrant, Message),
+    (patientId, payload) => {
+      if ("None" in livePatient(patientId)) {
+        return Err({ NotFound: `Patient with id=${patientId} not found` });
+      }
+
+      if (!callerOwnsPatient(patientId)) {
+        return unauthorized(`grant access to patient id=${patientId}`);
+      }
+
+      const invalidFields = validatePayload(payload, CreateConsentSchema);
 
-  // Function to get all Chats
-  getAllChats: query([], Result(Vec(Chat), Message), () => {
-    const chats = Chats.values();
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
 
-    if (chats.length === 0) {
-      return Err({ NotFound: "No chats found" });
-    }
+      if (payload.expires_at <= ic.time()) {
+        return Err({ InvalidPayload: "Consent must expire in the future" });
+      }
 
-    return Ok(chats);
-  }),
+      const grantee = payload.grantee;
 
-  // Update Patient Profile
-  updatePatient: update(
-    [text, CreatePatientPayload],
-    Result(Patient, Message),
-    (patientId, payload) => {
-      const patientOpt = Patients.get(patientId);
+      if ("Doctor" in grantee && "None" in liveDoctor(grantee.Doctor!)) {
+        return Err({
+          InvalidPayload: `Doctor with id=${grantee.Doctor} not found`,
+        });
+      }
 
-      if ("None" in patientOpt) {
-        return Err({ NotFound: `Patient with id=${patientId} not found` });
+      if (
+        "Department" in grantee &&
+        !Departments.containsKey(grantee.Department!)
+      ) {
+        return Err({
+          InvalidPayload: `Department with id=${grantee.Department} not found`,
+        });
       }
 
-      const updatedPatient = {
-        ...patientOpt.Some,
+      const grantId = uuidv4();
+      const grant = {
         ...payload,
+        id: grantId,
+        patient_id: patientId,
+        granted_at: ic.time(),
+        revoked_at: None,
       };
-      Patients.insert(patientId, updatedPatient);
-      return Ok(updatedPatient);
+
+      ConsentGrants.insert(grantId, grant);
+      addToIndex(ConsentGrantsByPatient, patientId, grantId);
+      return Ok(grant);
     }
   ),
 
-  // Delete Patient Profile
-  deletePatient: update([text], Result(Message, Message), (patientId) => {
-    const patientOpt = Patients.get(patientId);
-
-    if ("None" in patientOpt) {
-      return Err({ NotFound: `Patient with id=${patientId} not found` });
-    }
+  // Revoke a consent grant
+  revokeConsent: auditedUpdate(
+    "revokeConsent",
+    [text],
+    Result(ConsentGrant, Message),
+    (grantId) => {
+      const grantOpt = ConsentGrants.get(grantId);
 
-    Patients.remove(patientId);
-    return Ok({ Success: `Patient with id=${patientId} deleted successfully` });
-  }),
+      if ("None" in grantOpt) {
+        return Err({ NotFound: `Consent with id=${grantId} not found` });
+      }
 
-  // Consultation History for a Patient
-  getConsultationHistoryByPatient: query(
-    [text],
-    Result(Vec(Consultation), Message),
-    (patientId) => {
-      const consultations = Consultations.values().filter(
-        (consultation) => consultation.patient_id === patientId
-      );
+      if (!callerOwnsPatient(grantOpt.Some.patient_id)) {
+        return unauthorized(`revoke consent id=${grantId}`);
+      }
 
-      if (consultations.length === 0) {
+      if ("Some" in grantOpt.Some.revoked_at) {
         return Err({
-          NotFound: `No consultations found for patient id=${patientId}`,
+          InvalidPayload: `Consent with id=${grantId} is already revoked`,
         });
       }
 
-      return Ok(consultations);
+      const revokedGrant = { ...grantOpt.Some, revoked_at: Some(ic.time()) };
+
+      ConsentGrants.insert(grantId, revokedGrant);
+      return Ok(revokedGrant);
     }
   ),
 
-  // Update Doctor Availability
-  updateDoctorAvailability: update(
-    [text, bool],
-    Result(Doctor, Message),
-    (doctorId, availability) => {
-      const doctorOpt = Doctors.get(doctorId);
-
-      if ("None" in doctorOpt) {
-        return Err({ NotFound: `Doctor with id=${doctorId} not found` });
+  // Function to get the active consent grants of a Patient
+  getActiveConsents: query(
+    [text],
+    Result(Vec(ConsentGrant), Message),
+    (patientId) => {
+      if (!callerOwnsPatient(patientId) && !callerHasRole("Admin")) {
+        return unauthorized(`list consents of patient id=${patientId}`);
       }
 
-      const updatedDoctor = {
-        ...doctorOpt.Some,
-        available: availability,
-      };
-      Doctors.insert(doctorId, updatedDoctor);
-      return Ok(updatedDoctor);
+      return Ok(
+        lookupIndexed(ConsentGrants, ConsentGrantsByPatient, patientId).filter(
+          (grant) => isActiveConsent(consentTerms(grant), ic.time())
+        )
+      );
     }
   ),
 
-  // Search Doctor by Name
-  searchDoctorByName: query([text], Result(Vec(Doctor), Message), (name) => {
-    const matchingDoctors = Doctors.values().filter((doctor) =>
-      doctor.name.toLowerCase().includes(name.toLowerCase())
-    );
-
-    if (matchingDoctors.length === 0) {
-      return Err({
-        NotFound: `No doctors found with name containing '${name}'`,
-      });
-    }
-
-    return Ok(matchingDoctors);
-  }),
+  // Emergency access to a Patient's full record without consent; always logged
+  breakGlassAccess: auditedUpdate(
+    "breakGlassAccess",
+    [text, text], // patientId, reason
+    Result(BreakGlassAccess, Message),
+    (patientId, reason) => {
+      const doctor = findCallerDoctor();
 
-  // Search Department by Name
-  searchDepartmentByName: query(
-    [text],
-    Result(Vec(Department), Message),
-    (name) => {
-      const matchingDepartments = Departments.values().filter((department) =>
-        department.name.toLowerCase().includes(name.toLowerCase())
-      );
+      if (!callerHasRole("Doctor") || !doctor) {
+        return unauthorized("use emergency access");
+      }
 
-      if (matchingDepartments.length === 0) {
+      if (!reason) {
         return Err({
-          NotFound: `No departments found with name containing '${name}'`,
+          InvalidPayload: "A reason is required for emergency access",
         });
       }
 
-      return Ok(matchingDepartments);
+      if ("None" in livePatient(patientId)) {
+        return Err({ NotFound: `Patient with id=${patientId} not found` });
+      }
+
+      const accessId = uuidv4();
+      const grantedAt = ic.time();
+      const access = {
+        id: accessId,
+        patient_id: patientId,
+        doctor_id: doctor.id,
+        accessed_by: ic.caller(),
+        reason,
+        granted_at: grantedAt,
+        expires_at: grantedAt + BREAK_GLASS_PERIOD,
+      };
+
+      BreakGlassLog.insert(accessId, access);
+      return Ok(access);
     }
   ),
 
-  // Update Doctor Profile
-  updateDoctor: update(
-    [text, CreateDoctorPayload],
-    Result(Doctor, Message),
-    (doctorId, payload) => {
-      const doctorOpt = Doctors.get(doctorId);
-
-      if ("None" in doctorOpt) {
-        return Err({ NotFound: `Doctor with id=${doctorId} not found` });
+  // Function to get every emergency access to a Patient's record
+  getBreakGlassLog: query(
+    [text],
+    Result(Vec(BreakGlassAccess), Message),
+    (patientId) => {
+      if (!callerOwnsPatient(patientId) && !callerHasRole("Admin")) {
+        return unauthorized(
+          `read emergency access log of patient id=${patientId}`
+        );
       }
 
-      const updatedDoctor = {
-        ...doctorOpt.Some,
-        ...payload,
-      };
-      Doctors.insert(doctorId, updatedDoctor);
-      return Ok(updatedDoctor);
+      return Ok(
+        BreakGlassLog.values().filter(
+          (access) => access.patient_id === patientId
+        )
+      );
     }
   ),
 
-  // Delete Doctor Profile
-  deleteDoctor: update([text], Result(Message, Message), (doctorId) => {
-    const doctorOpt = Doctors.get(doctorId);
+  // Calculate BMI from a weight and height in any supported unit
+  calculateBMI: query(
+    [Mass, Length], // weight, height
+    Result(BmiResult, Message),
+    (weight, height) => {
+      const invalidFields = validatePayload(
+        { weight, height },
+        BodyMeasurementsSchema
+      );
 
-    if ("None" in doctorOpt) {
-      return Err({ NotFound: `Doctor with id=${doctorId} not found` });
-    }
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
 
-    Doctors.remove(doctorId);
-    return Ok({ Success: `Doctor with id=${doctorId} deleted successfully` });
-  }),
+      const weightKg = kilograms(weight);
+      const heightCm = centimeters(height);
+      const implausible = implausibleValues({
+        weight: ["Weight", weightKg],
+        height: ["Height", heightCm],
+      });
 
-  // Delete Department
-  deleteDepartment: update([text], Result(Message, Message), (departmentId) => {
-    const departmentOpt = Departments.get(departmentId);
+      if (implausible.length > 0) {
+        return Err({ InvalidFields: implausible });
+      }
 
-    if ("None" in departmentOpt) {
-      return Err({ NotFound: `Department with id=${departmentId} not found` });
+      const value = bmi(weightKg, heightCm);
+
+      return Ok({ bmi: round(value), category: bmiCategory(value) });
     }
+  ),
 
-    Departments.remove(departmentId);
-    return Ok({
-      Success: `Department with id=${departmentId} deleted successfully`,
-    });
-  }),
+  // Calculate the body surface area in m² (Mosteller)
+  calculateBSA: query(
+    [Mass, Length], // weight, height
+    Result(float64, Message),
+    (weight, height) => {
+      const invalidFields = validatePayload(
+        { weight, height },
+        BodyMeasurementsSchema
+      );
 
-  // Appointment Scheduling
-  createAppointment: update(
-    [CreateAppointmentPayload],
-    Result(Appointment, Message),
-    (payload) => {
-      // Validate the payload
-      if (
-        !payload.patient_id ||
-        !payload.doctor_id ||
-        !payload.reason ||
-        !payload.appointment_time
-      ) {
-        return Err({ InvalidPayload: "Missing required fields" });
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
       }
 
-      // Validate the patient
-      const patientOpt = Patients.get(payload.patient_id);
+      const weightKg = kilograms(weight);
+      const heightCm = centimeters(height);
+      const implausible = implausibleValues({
+        weight: ["Weight", weightKg],
+        height: ["Height", heightCm],
+      });
 
-      if ("None" in patientOpt) {
-        return Err({
-          InvalidPayload: `Patient with id=${payload.patient_id} not found`,
-        });
+      if (implausible.length > 0) {
+        return Err({ InvalidFields: implausible });
       }
 
-      // Validate the doctor
-      const doctorOpt = Doctors.get(payload.doctor_id);
+      return Ok(round(bodySurfaceArea(weightKg, heightCm)));
+    }
+  ),
 
-      if ("None" in doctorOpt) {
-        return Err({
-          InvalidPayload: `Doctor with id=${payload.doctor_id} not found`,
-        });
-      }
+  // Estimate kidney function: eGFR (CKD-EPI 2021) and, given the weight,
+  // creatinine clearance (Cockcroft-Gault)
+  calculateKidneyFunction: query(
+    [KidneyFunctionPayload],
+    Result(KidneyFunctionResult, Message),
+    (payload) => {
+      const invalidFields = validatePayload(payload, KidneyFunctionSchema);
 
-      const appointmentId = uuidv4();
-      const appointment = {
-        ...payload,
-        id: appointmentId,
-        status: "scheduled",
-        video_link: None,
-      };
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
+      }
 
-      Appointments.insert(appointmentId, appointment);
-      return Ok(appointment);
-    }
-  ),
+      const creatinine = creatinineMgPerDl(payload.creatinine);
+      const weightKg =
+        "Some" in payload.weight ? kilograms(payload.weight.Some!) : undefined;
+      const implausible = implausibleValues({
+        creatinine: ["Creatinine", creatinine],
+        age: ["Age", payload.age],
+        weight: ["Weight", weightKg],
+      });
 
-  // Video Conferencing Integration (Update with Video Link)
-  updateAppointmentWithVideoLink: update(
-    [text, text], // appointmentId, videoLink
-    Result(Appointment, Message),
-    (appointmentId, videoLink) => {
-      // Validate the payload
-      if (!videoLink && videoLink.length === 0) {
-        return Err({ InvalidPayload: "Missing required fields" });
+      if (implausible.length > 0) {
+        return Err({ InvalidFields: implausible });
       }
-      const appointmentOpt = Appointments.get(appointmentId);
 
-      if ("None" in appointmentOpt) {
+      if (payload.age < 18) {
         return Err({
-          NotFound: `Appointment with id=${appointmentId} not found`,
+          InvalidPayload:
+            "The eGFR and creatinine clearance equations apply to adults only",
         });
       }
 
-      const updatedAppointment = {
-        ...appointmentOpt.Some,
-        video_link: Some(videoLink),
-      };
-      Appointments.insert(appointmentId, updatedAppointment);
-      return Ok(updatedAppointment);
+      const sex = variantName<SexName>(payload.sex);
+      const egfrValue = egfr(creatinine, payload.age, sex);
+
+      return Ok({
+        egfr: round(egfrValue),
+        stage: kidneyStage(egfrValue),
+        creatinine_clearance:
+          weightKg === undefined
+            ? None
+            : Some(
+                round(
+                  creatinineClearance(creatinine, payload.age, weightKg, sex)
+                )
+              ),
+      });
     }
   ),
 
-  // Prescription Management
-  createPrescription: update(
-    [CreatePrescriptionPayload],
-    Result(Prescription, Message),
+  // Calculate a weight-based medication dose, capped by the single and daily
+  // ceilings
+  calculateDosage: query(
+    [DosagePayload],
+    Result(DosageResult, Message),
     (payload) => {
-      // Validate the payload
-      if (
-        !payload.patient_id ||
-        !payload.doctor_id ||
-        !payload.medications ||
-        !payload.instructions
-      ) {
-        return Err({ InvalidPayload: "Missing required fields" });
-      }
+      const invalidFields = validatePayload(payload, DosageSchema);
 
-      // Validate the patient
-      const patientOpt = Patients.get(payload.patient_id);
-
-      if ("None" in patientOpt) {
-        return Err({
-          InvalidPayload: `Patient with id=${payload.patient_id} not found`,
-        });
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
       }
 
-      // Validate the doctor
-      const doctorOpt = Doctors.get(payload.doctor_id);
+      const weightKg = kilograms(payload.weight);
+      const implausible = implausibleValues({
+        weight: ["Weight", weightKg],
+      });
 
-      if ("None" in doctorOpt) {
-        return Err({
-          InvalidPayload: `Doctor with id=${payload.doctor_id} not found`,
-        });
+      if (implausible.length > 0) {
+        return Err({ InvalidFields: implausible });
       }
 
-      const prescriptionId = uuidv4();
-      const prescription = {
-        ...payload,
-        id: prescriptionId,
-        issued_at: new Date().toISOString(),
-      };
+      const dose = weightBasedDose(
+        weightKg,
+        payload.dose_per_kg,
+        payload.doses_per_day,
+        payload.max_single_dose.Some,
+        payload.max_daily_dose.Some
+      );
 
-      Prescriptions.insert(prescriptionId, prescription);
-      return Ok(prescription);
+      return Ok({
+        single_dose: round(dose.singleDose),
+        daily_dose: round(dose.dailyDose),
+        dose_unit: payload.dose_unit,
+        capped: dose.capped,
+      });
     }
   ),
 
-  // Billing and Payment Processing
-  initiatePayment: update(
-    [CreatePaymentPayload],
-    Result(Payment, Message),
-    (payload) => {
-      // Validate the payload
-      if (
-        !payload.patient_id ||
-        !payload.appointment_id ||
-        !payload.amount ||
-        !payload.payment_method
-      ) {
-        return Err({ InvalidPayload: "Missing required fields" });
-      }
+  // Classify a blood pressure reading (ACC/AHA 2017)
+  classifyBloodPressure: query(
+    [float64, float64], // systolic, diastolic (mmHg)
+    Result(BloodPressureCategory, Message),
+    (systolic, diastolic) => {
+      const implausible = implausibleValues({
+        systolic: ["SystolicPressure", systolic],
+        diastolic: ["DiastolicPressure", diastolic],
+      });
 
-      // Validate the patient
-      const patientOpt = Patients.get(payload.patient_id);
+      if (implausible.length > 0) {
+        return Err({ InvalidFields: implausible });
+      }
 
-      if ("None" in patientOpt) {
+      if (diastolic >= systolic) {
         return Err({
-          InvalidPayload: `Patient with id=${payload.patient_id} not found`,
+          InvalidPayload:
+            "Diastolic pressure must be below the systolic pressure",
         });
       }
 
-      // Validate the appointment
-      const appointmentOpt = Appointments.get(payload.appointment_id);
+      return Ok(
+        BloodPressureCategories[bloodPressureCategory(systolic, diastolic)]
+      );
+    }
+  ),
 
-      if ("None" in appointmentOpt) {
-        return Err({
-          InvalidPayload: `Appointment with id=${payload.appointment_id} not found`,
-        });
+  calculateHealthRiskScore: query(
+    [HealthRiskPayload],
+    Result(HealthRiskResult, Message),
+    (payload) => {
+      const invalidFields = [
+        ...validatePayload(payload, HealthRiskSchema),
+        ...implausibleValues({
+          age: ["Age", payload.age],
+          systolic: ["SystolicPressure", payload.systolic],
+        }),
+      ];
+
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
       }
 
-      const paymentId = uuidv4();
-      const payment = {
-        ...payload,
-        id: paymentId,
-        status: "pending",
-      };
+      const score = healthRiskScore(payload.age, payload.bmi, payload.systolic);
 
-      Payments.insert(paymentId, payment);
-      return Ok(payment);
+      return Ok({ score: round(score), level: healthRiskLevel(score) });
     }
   ),
 
-  updatePaymentStatus: update(
-    [text, text], // paymentId, newStatus
-    Result(Payment, Message),
-    (paymentId, newStatus) => {
-      const paymentOpt = Payments.get(paymentId);
+  // Record measurements of a Patient as timestamped vitals, with the BMI, body
+  // surface area and eGFR they allow
+  recordVitals: auditedUpdate(
+    "recordVitals",
+    [text, RecordVitalsPayload], // patientId, measurements
+    Result(Vec(Vital), Message),
+    (patientId, payload) => {
+      const invalidFields = validatePayload(payload, RecordVitalsSchema);
 
-      if ("None" in paymentOpt) {
-        return Err({ NotFound: `Payment with id=${paymentId} not found` });
+      if (invalidFields.length > 0) {
+        return Err({ InvalidFields: invalidFields });
       }
 
-      const updatedPayment = {
-        ...paymentOpt.Some,
-        status: newStatus,
-      };
-      Payments.insert(paymentId, updatedPayment);
-      return Ok(updatedPayment);
-    }
-  ),
-
-  // Medical Records and History Tracking
-  getMedicalRecordsByPatient: query(
-    [text], // patientId
-    Result(MedicalRecord, Message),
-    (patientId) => {
-      const medicalRecordOpt = MedicalRecords.get(patientId);
+      const patientOpt = livePatient(patientId);
 
-      if ("None" in medicalRecordOpt) {
-        return Err({
-          NotFound: `Medical records for patient id=${patientId} not found`,
-        });
+      if ("None" in patientOpt) {
+        return Err({ NotFound: `Patient with id=${patientId} not found` });
       }
 
-      return Ok(medicalRecordOpt.Some);
-    }
-  ),
+      // Vitals are lab data, so doctors need the same scope as to read them
+      if (!hasScope(callerAccessScopes(patientId), "Labs")) {
+        return unauthorized(`record vitals of patient id=${patientId}`);
+      }
 
-  updateMedicalRecords: update(
-    [text, MedicalRecord], // patientId, updatedRecords
-    Result(MedicalRecord, Message),
-    (patientId, updatedRecords) => {
-      MedicalRecords.insert(patientId, updatedRecords);
-      return Ok(updatedRecords);
-    }
-  ),
+      if (payload.measured_at > ic.time()) {
+        return Err({ InvalidPayload: "Measurement time is in the future" });
+      }
 
-  // Calculate BMI for a Patient
-  calculateBMI: query(
-    [nat64, nat64], // weight (kg), height (cm)
-    Result(text, Message),
-    (weight, height) => {
-      if (height === 0n) {
-        return Err({ Error: "Height cannot be zero." });
+      if ("Some" in payload.systolic !== "Some" in payload.diastolic) {
+        return Err({
+          InvalidPayload:
+            "Blood pressure needs both the systolic and diastolic reading",
+        });
       }
 
-      // Convert `bigint` to `number` before performing arithmetic
-      const weightInKg = Number(weight);
-      const heightInMeters = Number(height) / 100;
-      const bmi = weightInKg / (heightInMeters * heightInMeters);
+      const weightKg =
+        "Some" in payload.weight ? kilograms(payload.weight.Some!) : undefined;
+      const heightCm =
+        "Some" in payload.height
+          ? centimeters(payload.height.Some!)
+          : undefined;
+      const creatinine =
+        "Some" in payload.creatinine
+          ? creatinineMgPerDl(payload.creatinine.Some!)
+          : undefined;
+      const implausible = implausibleValues({
+        weight: ["Weight", weightKg],
+        height: ["Height", heightCm],
+        systolic: ["SystolicPressure", payload.systolic.Some],
+        diastolic: ["DiastolicPressure", payload.diastolic.Some],
+        creatinine: ["Creatinine", creatinine],
+      });
 
-      // Check for NaN or infinite values
-      if (!isFinite(bmi)) {
-        return Err({ Error: "Invalid BMI calculation." });
+      if (implausible.length > 0) {
+        return Err({ InvalidFields: implausible });
       }
 
-      // BMI Categories
-      let category;
-      if (bmi < 18.5) {
-        category = "Underweight";
-      } else if (bmi < 24.9) {
-        category = "Normal Weight";
-      } else if (bmi < 29.9) {
-        category = "Overweight";
-      } else {
-        category = "Obese";
+      const values: [VitalKindName, number | undefined][] = [
+        ["Weight", weightKg],
+        ["Height", heightCm],
+        ["SystolicPressure", payload.systolic.Some],
+        ["DiastolicPressure", payload.diastolic.Some],
+        ["Creatinine", creatinine],
+      ];
+
+      if (values.every(([, value]) => value === undefined)) {
+        return Err({ InvalidPayload: "No measurement to record" });
       }
 
-      return Ok(`BMI is ${bmi.toFixed(2)} - ${category}`);
-    }
-  ),
+      // A new weight is paired with the latest height on record
+      const bmiHeight = heightCm ?? latestVital(patientId, "Height")?.value;
 
-  // Calculate Medication Dosage based on Weight
-  calculateDosage: query(
-    [nat64, nat64], // patientWeight (kg), dosagePerKg
-    Result(nat64, Message),
-    (patientWeight, dosagePerKg) => {
-      const dosage = patientWeight * dosagePerKg;
-      return Ok(dosage);
-    }
-  ),
+      if (weightKg !== undefined && bmiHeight !== undefined) {
+        values.push(
+          ["Bmi", bmi(weightKg, bmiHeight)],
+          ["BodySurfaceArea", bodySurfaceArea(weightKg, bmiHeight)]
+        );
+      }
 
-  estimateInsuranceCost: query(
-    [nat64, bool], // baseCost, hasInsurance
-    Result(nat64, Message),
-    (baseCost, hasInsurance) => {
-      // Define the discount rate as a regular number and calculate the discount
-      const discountRate = hasInsurance ? 0.2 : 0.0;
-      const discountAmount = Number(baseCost) * discountRate;
+      // eGFR needs the sex the equation was fitted for, so it is left out for
+      // other genders
+      const patient = patientOpt.Some;
 
-      // Calculate the total cost after discount
-      const totalCost = Number(baseCost) - discountAmount;
+      if (
+        creatinine !== undefined &&
+        patient.age >= 18n &&
+        (patient.gender === "Female" || patient.gender === "Male")
+      ) {
+        values.push([
+          "Egfr",
+          egfr(creatinine, Number(patient.age), patient.gender),
+        ]);
+      }
 
-      // Convert the result back to BigInt
-      const totalCostBigInt = BigInt(Math.round(totalCost));
+      const recordedAt = ic.time();
+      const vitals = values
+        .filter(([, value]) => value !== undefined)
+        .map(([kind, value]) => ({
+          id: uuidv4(),
+          patient_id: patientId,
+          kind: VitalKinds[kind],
+          value: round(value!),
+          unit: VITAL_UNITS[kind],
+          measured_at: payload.measured_at,
+          recorded_by: ic.caller(),
+          recorded_at: recordedAt,
+        }));
+
+      for (const vital of vitals) {
+        Vitals.insert(vital.id, vital);
+        addToIndex(VitalsByPatient, patientId, vital.id);
+      }
 
-      return Ok(totalCostBigInt);
+      return Ok(vitals);
     }
   ),
 
-  calculateHealthRiskScore: query(
-    [nat64, nat64, nat64], // age, bmi, bloodPressure
-    Result(text, Message),
-    (age, bmi, bloodPressure) => {
-      // Weight factors as regular numbers
-      const ageFactor = 0.3;
-      const bmiFactor = 0.5;
-      const bpFactor = 0.2;
-
-      // Convert nat64 inputs to numbers for calculation
-      const ageNumber = Number(age);
-      const bmiNumber = Number(bmi);
-      const bpNumber = Number(bloodPressure);
-
-      // Calculate weighted score as a regular number
-      const riskScore =
-        ageNumber * ageFactor + bmiNumber * bmiFactor + bpNumber * bpFactor;
-
-      // Determine Risk Level
-      let riskLevel;
-      if (riskScore < 20) {
-        riskLevel = "Low Risk";
-      } else if (riskScore < 30) {
-        riskLevel = "Moderate Risk";
-      } else {
-        riskLevel = "High Risk";
+  // Readings of one vital of a Patient over time; doctors need the Labs scope
+  getVitalTrend: auditedUpdate(
+    "getVitalTrend",
+    [text, VitalTrendRequest], // patientId, request
+    Result(VitalTrend, Message),
+    (patientId, request) => {
+      if (!hasScope(callerAccessScopes(patientId), "Labs")) {
+        return unauthorized(`read vitals of patient id=${patientId}`);
       }
 
-      // Return the risk score and level as text
-      return Ok(`Health Risk Score: ${riskScore.toFixed(2)} - ${riskLevel}`);
+      if ("None" in livePatient(patientId)) {
+        return Err({ NotFound: `Patient with id=${patientId} not found` });
+      }
+
+      const kind = Object.keys(request.kind)[0] as VitalKindName;
+      const readings = patientVitals(patientId)
+        .filter(
+          (vital) =>
+            vitalKindName(vital) === kind &&
+            ("None" in request.from ||
+              vital.measured_at >= request.from.Some!) &&
+            ("None" in request.to || vital.measured_at <= request.to.Some!)
+        )
+        .sort((left, right) => (left.measured_at < right.measured_at ? -1 : 1));
+      const first = readings[0];
+      const latest = readings[readings.length - 1];
+
+      return Ok({
+        kind: request.kind,
+        unit: VITAL_UNITS[kind],
+        readings,
+        latest: latest ? Some(latest.value) : None,
+        change: latest ? Some(round(latest.value - first.value)) : None,
+      });
     }
   ),
 });
@@ -0,0 +1,52 @@
+// Secondary indexes: a key (owner, department, patient, ...) mapped to the ids of
+// the records filed under it, so lookups read those records instead of the map
+
+export type Optional<Value> = { Some: Value } | { None: null };
+
+export type IdIndexMap = {
+  get(key: string): Optional<string[]>;
+  insert(key: string, ids: string[]): unknown;
+  remove(key: string): unknown;
+};
+
+// Read through the present value only, which lets the record type be inferred
+// from either variant of the candid Opt
+export type RecordMap<Value> = {
+  get(id: string): { Some?: Value; None?: null };
+};
+
+export function indexedIds(index: IdIndexMap, key: string): string[] {
+  const idsOpt = index.get(key);
+
+  return "None" in idsOpt ? [] : idsOpt.Some;
+}
+
+export function addToIndex(index: IdIndexMap, key: string, id: string) {
+  const ids = indexedIds(index, key);
+
+  if (!ids.includes(id)) {
+    index.insert(key, [...ids, id]);
+  }
+}
+
+// Keys left without ids are dropped, so an empty index means nothing is filed
+export function removeFromIndex(index: IdIndexMap, key: string, id: string) {
+  const ids = indexedIds(index, key).filter((indexedId) => indexedId !== id);
+
+  if (ids.length === 0) {
+    index.remove(key);
+  } else {
+    index.insert(key, ids);
+  }
+}
+
+// Records for the ids held by the index under the key; ids of removed records are skipped
+export function lookupIndexed<Value>(
+  map: RecordMap<Value>,
+  index: IdIndexMap,
+  key: string
+): Value[] {
+  return indexedIds(index, key)
+    .map((id) => map.get(id))
+    .flatMap(({ Some: value }) => (value === undefined ? [] : [value]));
+}
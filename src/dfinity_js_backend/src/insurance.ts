@@ -0,0 +1,151 @@
+// Insurance cost split: how a bill divides between the insurer and the patient
+// under a policy's coverage rules, deductible and annual cap
+
+export type OptionalText = { Some: string } | { None: null };
+
+export type CoverageRuleTerms = {
+  department_id: OptionalText; // Any department when none
+  service_code: OptionalText; // Any service when none
+  percent: number;
+};
+
+export type PolicyTerms = {
+  id: string;
+  coverage: CoverageRuleTerms[];
+  default_percent: number;
+  deductible: bigint;
+  annual_cap: bigint;
+};
+
+// Deductible paid and amount covered so far in the policy year
+export type Usage = { deductible: bigint; covered: bigint };
+
+export type CostSplit = {
+  billed_amount: bigint;
+  policy_id: OptionalText;
+  coverage_percent: number;
+  deductible_applied: bigint;
+  covered_amount: bigint;
+  patient_amount: bigint;
+  deductible_remaining: bigint;
+  cap_remaining: bigint;
+};
+
+export type BilledLine = { code: string; total: bigint };
+
+// Coverage of the most specific rule matching the service
+export function coveragePercent(
+  policy: PolicyTerms,
+  departmentId: string,
+  serviceCode: string | undefined
+): number {
+  const specificity = (rule: CoverageRuleTerms) =>
+    ("Some" in rule.department_id ? 1 : 0) +
+    ("Some" in rule.service_code ? 2 : 0);
+  const rule = policy.coverage
+    .filter(
+      (rule) =>
+        ("None" in rule.department_id ||
+          rule.department_id.Some === departmentId) &&
+        ("None" in rule.service_code || rule.service_code.Some === serviceCode)
+    )
+    .sort((left, right) => specificity(right) - specificity(left))[0];
+
+  return rule === undefined ? policy.default_percent : rule.percent;
+}
+
+export function uninsuredCost(billedAmount: bigint): CostSplit {
+  return {
+    billed_amount: billedAmount,
+    policy_id: { None: null },
+    coverage_percent: 0,
+    deductible_applied: 0n,
+    covered_amount: 0n,
+    patient_amount: billedAmount,
+    deductible_remaining: 0n,
+    cap_remaining: 0n,
+  };
+}
+
+// Split a bill between the insurer and the patient: the patient pays the rest of
+// the deductible, the policy covers its percentage of the remainder up to the cap
+export function splitCost(
+  policy: PolicyTerms,
+  usage: Usage,
+  departmentId: string,
+  serviceCode: string | undefined,
+  billedAmount: bigint
+): CostSplit {
+  const deductibleLeft =
+    policy.deductible > usage.deductible
+      ? policy.deductible - usage.deductible
+      : 0n;
+  const capLeft =
+    policy.annual_cap > usage.covered ? policy.annual_cap - usage.covered : 0n;
+  const deductibleApplied =
+    billedAmount < deductibleLeft ? billedAmount : deductibleLeft;
+  const percent = coveragePercent(policy, departmentId, serviceCode);
+  const coverable =
+    ((billedAmount - deductibleApplied) * BigInt(percent)) / 100n;
+  const covered = coverable < capLeft ? coverable : capLeft;
+
+  return {
+    billed_amount: billedAmount,
+    policy_id: { Some: policy.id },
+    coverage_percent: percent,
+    deductible_applied: deductibleApplied,
+    covered_amount: covered,
+    patient_amount: billedAmount - covered,
+    deductible_remaining: deductibleLeft - deductibleApplied,
+    cap_remaining: capLeft - covered,
+  };
+}
+
+// Split each invoice line by the coverage of its service; the deductible and
+// the cap carry over from one line to the next. The coverage percentage is
+// the average of the lines, weighted by their amount after the deductible
+export function splitLines(
+  policy: PolicyTerms,
+  usage: Usage,
+  departmentId: string,
+  lines: BilledLine[]
+): CostSplit {
+  const used = { ...usage };
+  let estimate = {
+    ...splitCost(policy, used, departmentId, undefined, 0n),
+    coverage_percent: 0,
+  };
+  let weightedPercent = 0n;
+
+  for (const line of lines) {
+    const lineEstimate = splitCost(
+      policy,
+      used,
+      departmentId,
+      line.code,
+      line.total
+    );
+
+    used.deductible += lineEstimate.deductible_applied;
+    used.covered += lineEstimate.covered_amount;
+    weightedPercent +=
+      (line.total - lineEstimate.deductible_applied) *
+      BigInt(lineEstimate.coverage_percent);
+    estimate = {
+      ...lineEstimate,
+      billed_amount: estimate.billed_amount + lineEstimate.billed_amount,
+      deductible_applied:
+        estimate.deductible_applied + lineEstimate.deductible_applied,
+      covered_amount: estimate.covered_amount + lineEstimate.covered_amount,
+      patient_amount: estimate.patient_amount + lineEstimate.patient_amount,
+    };
+  }
+
+  const afterDeductible = estimate.billed_amount - estimate.deductible_applied;
+
+  return {
+    ...estimate,
+    coverage_percent:
+      afterDeductible === 0n ? 0 : Number(weightedPercent / afterDeductible),
+  };
+}
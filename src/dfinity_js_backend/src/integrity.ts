@@ -0,0 +1,11 @@
+// Referential integrity: what still points at an entity that is about to be deleted
+
+// Named counts of the records referring to an entity, e.g. ["doctors", 2]
+export type References = [name: string, count: number][];
+
+// Describe the references that prevent deleting an entity, e.g. "2 doctors"
+export function describeReferences(references: References): string[] {
+  return references
+    .filter(([, count]) => count > 0)
+    .map(([name, count]) => `${count} ${name}`);
+}
@@ -0,0 +1,426 @@
+// Clinic data interchange: import chunks and exports are CSV with a header row or
+// FHIR-style JSON bundles, and both formats are read into the same flat rows
+
+export type Format = "Csv" | "Json";
+
+// Column name -> cell text; list columns hold one string per item
+export type Row = { [column: string]: string | string[] };
+
+// Parsed JSON is unknown until narrowed by the readers below
+export type JsonObject = { [key: string]: unknown };
+
+export type Table = {
+  columns: string[];
+  listColumns: string[]; // Items are separated by ";" in CSV cells
+  resourceType: string;
+  toResource: (row: Row) => object;
+  fromResource: (resource: JsonObject) => Row;
+};
+
+const LIST_SEPARATOR = ";";
+
+// Identifier system of the principal that owns a profile
+const PRINCIPAL_SYSTEM = "urn:ic:principal";
+
+// FHIR genders and the genders of the canister
+const FHIR_GENDERS: { [gender: string]: string } = {
+  female: "Female",
+  male: "Male",
+  other: "Other",
+  unknown: "Undisclosed",
+};
+
+export function cell(row: Row, column: string): string {
+  const value = row[column];
+
+  return Array.isArray(value) ? value.join(LIST_SEPARATOR) : value ?? "";
+}
+
+export function cells(row: Row, column: string): string[] {
+  const value = row[column];
+
+  return Array.isArray(value) ? value : [];
+}
+
+// Read the rows of a chunk; a malformed chunk is rejected as a whole
+export function parseRows(
+  table: Table,
+  format: Format,
+  data: string
+): { Ok: Row[] } | { Err: string } {
+  return format === "Csv"
+    ? parseCsvRows(table, data)
+    : parseBundle(table, data);
+}
+
+export function formatRows(table: Table, format: Format, rows: Row[]): string {
+  if (format === "Json") {
+    return JSON.stringify({
+      resourceType: "Bundle",
+      type: "collection",
+      entry: rows.map((row) => ({ resource: table.toResource(row) })),
+    });
+  }
+
+  return [
+    table.columns,
+    ...rows.map((row) => table.columns.map((column) => cell(row, column))),
+  ]
+    .map((line) => line.map(quoteCsv).join(","))
+    .join("\r\n");
+}
+
+function parseCsvRows(
+  table: Table,
+  data: string
+): { Ok: Row[] } | { Err: string } {
+  const lines = parseCsv(data);
+
+  if ("Err" in lines) {
+    return lines;
+  }
+
+  const [header, ...records] = lines.Ok;
+  const missing = table.columns.filter(
+    (column) => column !== "id" && !(header ?? []).includes(column)
+  );
+
+  if (header === undefined || missing.length > 0) {
+    return { Err: `Missing CSV columns: ${missing.join(", ")}` };
+  }
+
+  const rows: Row[] = [];
+
+  for (const [index, record] of records.entries()) {
+    if (record.length !== header.length) {
+      return {
+        Err: `CSV row ${index + 1} has ${record.length} cells, expected ${
+          header.length
+        }`,
+      };
+    }
+
+    rows.push(
+      Object.fromEntries(
+        header.map((column, position) => [
+          column,
+          table.listColumns.includes(column)
+            ? record[position]
+                .split(LIST_SEPARATOR)
+                .map((item) => item.trim())
+                .filter((item) => item.length > 0)
+            : record[position],
+        ])
+      )
+    );
+  }
+
+  return { Ok: rows };
+}
+
+// RFC 4180 records: quoted cells may hold commas, quotes and line breaks
+function parseCsv(data: string): { Ok: string[][] } | { Err: string } {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let value = "";
+  let quoted = false;
+
+  for (let position = 0; position < data.length; position++) {
+    const char = data[position];
+
+    if (quoted) {
+      if (char === '"' && data[position + 1] === '"') {
+        value += '"';
+        position++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"' && value.length === 0) {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(value);
+      value = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && data[position + 1] === "\n") {
+        position++;
+      }
+
+      records.push([...record, value]);
+      record = [];
+      value = "";
+    } else {
+      value += char;
+    }
+  }
+
+  if (quoted) {
+    return { Err: "CSV data ends inside a quoted cell" };
+  }
+
+  if (record.length > 0 || value.length > 0) {
+    records.push([...record, value]);
+  }
+
+  // Blank lines carry no row
+  return {
+    Ok: records.filter((line) => line.length > 1 || line[0].trim().length > 0),
+  };
+}
+
+function quoteCsv(value: string): string {
+  return /[",\r\n]|^\s|\s$/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+function parseBundle(
+  table: Table,
+  data: string
+): { Ok: Row[] } | { Err: string } {
+  let bundle: unknown;
+
+  try {
+    bundle = JSON.parse(data);
+  } catch {
+    return { Err: "Data is not valid JSON" };
+  }
+
+  const entries = jsonAt(bundle, "entry");
+
+  if (jsonAt(bundle, "resourceType") !== "Bundle" || !Array.isArray(entries)) {
+    return { Err: "Data must be a Bundle with an entry list" };
+  }
+
+  const rows: Row[] = [];
+
+  for (const [index, entry] of entries.entries()) {
+    const resource = jsonAt(entry, "resource");
+
+    if (
+      !isJsonObject(resource) ||
+      resource.resourceType !== table.resourceType
+    ) {
+      return {
+        Err: `Bundle entry ${index + 1} is not a ${
+          table.resourceType
+        } resource`,
+      };
+    }
+
+    rows.push(table.fromResource(resource));
+  }
+
+  return { Ok: rows };
+}
+
+export function isJsonObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Value at a path of object keys and list positions; undefined where the path
+// leads nowhere, e.g. jsonAt(resource, "name", 0, "text")
+export function jsonAt(value: unknown, ...path: (string | number)[]): unknown {
+  let current = value;
+
+  for (const step of path) {
+    if (typeof step === "number") {
+      current = Array.isArray(current) ? current[step] : undefined;
+    } else {
+      current = isJsonObject(current) ? current[step] : undefined;
+    }
+  }
+
+  return current;
+}
+
+function jsonList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+// Text of a JSON scalar; missing values and structures read as empty text
+export function jsonText(value: unknown): string {
+  return typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+    ? String(value)
+    : "";
+}
+
+// Value of the first entry of the list whose system matches
+function systemValue(entries: unknown, system: string): string {
+  return jsonText(
+    jsonAt(
+      jsonList(entries).find((entry) => jsonAt(entry, "system") === system),
+      "value"
+    )
+  );
+}
+
+function identifierOf(resource: JsonObject): string {
+  return systemValue(resource.identifier, PRINCIPAL_SYSTEM);
+}
+
+function telecomOf(telecoms: unknown, system: string): string {
+  return systemValue(telecoms, system);
+}
+
+function extensionsOf(resource: JsonObject, url: string): unknown[] {
+  return jsonList(resource.extension).filter(
+    (extension) => jsonAt(extension, "url") === url
+  );
+}
+
+function extensionValue(
+  resource: JsonObject,
+  url: string,
+  key: string
+): string {
+  return jsonText(jsonAt(extensionsOf(resource, url)[0], key));
+}
+
+function extensionList(resource: JsonObject, url: string): string[] {
+  return extensionsOf(resource, url).map((extension) =>
+    jsonText(jsonAt(extension, "valueString"))
+  );
+}
+
+function withId(row: Row, resource: object): object {
+  const id = cell(row, "id");
+
+  return id.length > 0 ? { id, ...resource } : resource;
+}
+
+export const DEPARTMENT_TABLE: Table = {
+  columns: ["id", "name", "description"],
+  listColumns: [],
+  resourceType: "Organization",
+  toResource: (row) =>
+    withId(row, {
+      resourceType: "Organization",
+      name: cell(row, "name"),
+      description: cell(row, "description"),
+    }),
+  fromResource: (resource) => ({
+    id: jsonText(resource.id),
+    name: jsonText(resource.name),
+    description: jsonText(resource.description),
+  }),
+};
+
+// Departments are referenced as organizations; availability is an extension
+export const DOCTOR_TABLE: Table = {
+  columns: ["id", "owner", "name", "department_id", "image", "available"],
+  listColumns: [],
+  resourceType: "Practitioner",
+  toResource: (row) =>
+    withId(row, {
+      resourceType: "Practitioner",
+      identifier: [{ system: PRINCIPAL_SYSTEM, value: cell(row, "owner") }],
+      name: [{ text: cell(row, "name") }],
+      photo: [{ url: cell(row, "image") }],
+      organization: {
+        reference: `Organization/${cell(row, "department_id")}`,
+      },
+      extension: [
+        { url: "available", valueBoolean: cell(row, "available") === "true" },
+      ],
+    }),
+  fromResource: (resource) => ({
+    id: jsonText(resource.id),
+    owner: identifierOf(resource),
+    name: jsonText(jsonAt(resource, "name", 0, "text")),
+    department_id: jsonText(
+      jsonAt(resource, "organization", "reference")
+    ).replace(/^Organization\//, ""),
+    image: jsonText(jsonAt(resource, "photo", 0, "url")),
+    available: extensionValue(resource, "available", "valueBoolean"),
+  }),
+};
+
+// Age and the clinical lists have no FHIR Patient field, so they are extensions
+// with one entry per list item
+export const PATIENT_TABLE: Table = {
+  columns: [
+    "id",
+    "owner",
+    "name",
+    "age",
+    "gender",
+    "phone_number",
+    "email",
+    "address",
+    "emergency_contact_name",
+    "emergency_contact_phone_number",
+    "emergency_contact_relationship",
+    "allergies",
+    "current_medications",
+    "medical_history",
+  ],
+  listColumns: ["allergies", "current_medications", "medical_history"],
+  resourceType: "Patient",
+  toResource: (row) =>
+    withId(row, {
+      resourceType: "Patient",
+      identifier: [{ system: PRINCIPAL_SYSTEM, value: cell(row, "owner") }],
+      name: [{ text: cell(row, "name") }],
+      gender:
+        Object.keys(FHIR_GENDERS).find(
+          (gender) => FHIR_GENDERS[gender] === cell(row, "gender")
+        ) ?? cell(row, "gender"),
+      telecom: [
+        { system: "phone", value: cell(row, "phone_number") },
+        { system: "email", value: cell(row, "email") },
+      ],
+      address: [{ text: cell(row, "address") }],
+      contact: [
+        {
+          name: { text: cell(row, "emergency_contact_name") },
+          relationship: [{ text: cell(row, "emergency_contact_relationship") }],
+          telecom: [
+            {
+              system: "phone",
+              value: cell(row, "emergency_contact_phone_number"),
+            },
+          ],
+        },
+      ],
+      extension: [
+        { url: "age", valueInteger: Number(cell(row, "age")) },
+        ...["allergies", "current_medications", "medical_history"].flatMap(
+          (column) =>
+            cells(row, column).map((item) => ({
+              url: column,
+              valueString: item,
+            }))
+        ),
+      ],
+    }),
+  fromResource: (resource) => {
+    const contact = jsonAt(resource, "contact", 0);
+    const gender = jsonText(resource.gender);
+
+    return {
+      id: jsonText(resource.id),
+      owner: identifierOf(resource),
+      name: jsonText(jsonAt(resource, "name", 0, "text")),
+      age: extensionValue(resource, "age", "valueInteger"),
+      gender: FHIR_GENDERS[gender] ?? gender,
+      phone_number: telecomOf(resource.telecom, "phone"),
+      email: telecomOf(resource.telecom, "email"),
+      address: jsonText(jsonAt(resource, "address", 0, "text")),
+      emergency_contact_name: jsonText(jsonAt(contact, "name", "text")),
+      emergency_contact_phone_number: telecomOf(
+        jsonAt(contact, "telecom"),
+        "phone"
+      ),
+      emergency_contact_relationship: jsonText(
+        jsonAt(contact, "relationship", 0, "text")
+      ),
+      allergies: extensionList(resource, "allergies"),
+      current_medications: extensionList(resource, "current_medications"),
+      medical_history: extensionList(resource, "medical_history"),
+    };
+  },
+};
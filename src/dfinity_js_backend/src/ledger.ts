@@ -0,0 +1,75 @@
+// Ledger settlement rules: which transfer settles a payment, when its
+// reservation lapses and which ledger blocks may still settle one
+
+export type LedgerTransfer = {
+  from: Uint8Array;
+  to: Uint8Array;
+  amount: { e8s: bigint };
+};
+
+// What the payer was asked to send
+export type ExpectedTransfer = {
+  memo: bigint;
+  from: Uint8Array;
+  to: Uint8Array;
+  amount: bigint;
+};
+
+// Ledger blocks that already settled a payment
+export type SettledBlockMap = {
+  containsKey(block: bigint): boolean;
+};
+
+export function sameAddress(left: Uint8Array, right: Uint8Array): boolean {
+  return (
+    left.length === right.length &&
+    left.every((byte, index) => byte === right[index])
+  );
+}
+
+// The block's transfer is the one the payment asked for
+export function isExpectedTransfer(
+  memo: bigint,
+  transfer: LedgerTransfer | undefined,
+  expected: ExpectedTransfer
+): boolean {
+  return (
+    transfer !== undefined &&
+    memo === expected.memo &&
+    sameAddress(transfer.from, expected.from) &&
+    sameAddress(transfer.to, expected.to) &&
+    transfer.amount.e8s === expected.amount
+  );
+}
+
+// Payments whose transfer reached the clinic, including refunded ones
+export function isSettledStatus(status: string): boolean {
+  return status !== "Pending" && status !== "Failed";
+}
+
+export function reservationExpiresAt(
+  createdAt: bigint,
+  periodSeconds: bigint
+): bigint {
+  return createdAt + periodSeconds * 1_000_000_000n;
+}
+
+// Why the transfer in the block cannot settle the payment, if it cannot. A
+// failed payment is still settled by a transfer that arrived late, but no
+// payment is settled twice and no block settles two payments
+export function settlementRefusal(
+  paymentId: string,
+  status: string,
+  block: bigint,
+  settledBlocks: SettledBlockMap
+): string | undefined {
+  if (isSettledStatus(status)) {
+    return `Payment with id=${paymentId} is already ${status}`;
+  }
+
+  if (settledBlocks.containsKey(block)) {
+    return `Ledger block ${block} was already used to settle a payment`;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,146 @@
+// Status lifecycles: the legal status changes of each record, and the rules
+// that decide when a record may move on
+import { NANOS_PER_MINUTE } from "./scheduling";
+
+export type AppointmentStatusName =
+  | "Scheduled"
+  | "InProgress"
+  | "Completed"
+  | "Canceled"
+  | "NoShow";
+
+// Legal appointment status transitions
+export const APPOINTMENT_TRANSITIONS: {
+  [from in AppointmentStatusName]: AppointmentStatusName[];
+} = {
+  Scheduled: ["Scheduled", "InProgress", "Canceled", "NoShow"],
+  InProgress: ["Completed"],
+  Completed: [],
+  Canceled: [],
+  NoShow: [],
+};
+
+// Patients must cancel or reschedule at least this long before the appointment
+export const CANCELLATION_DEADLINE = 24n * 60n * NANOS_PER_MINUTE;
+
+// How early a doctor may start an appointment
+export const EARLY_START_WINDOW = 15n * NANOS_PER_MINUTE;
+
+// The patient may still cancel with a refund, or reschedule
+export function beforeCancellationDeadline(
+  appointmentTime: bigint,
+  now: bigint
+): boolean {
+  return appointmentTime - now >= CANCELLATION_DEADLINE;
+}
+
+export function canStartAppointment(
+  appointmentTime: bigint,
+  now: bigint
+): boolean {
+  return now + EARLY_START_WINDOW >= appointmentTime;
+}
+
+export type ConsultationStatusName =
+  | "Open"
+  | "Assigned"
+  | "InProgress"
+  | "Resolved";
+
+// Legal consultation status transitions; Assigned to Assigned is a reassignment
+export const CONSULTATION_TRANSITIONS: {
+  [from in ConsultationStatusName]: ConsultationStatusName[];
+} = {
+  Open: ["Assigned"],
+  Assigned: ["Assigned", "InProgress"],
+  InProgress: ["Resolved"],
+  Resolved: [],
+};
+
+export type PrescriptionStatusName =
+  | "Active"
+  | "PartiallyDispensed"
+  | "Dispensed"
+  | "Expired"
+  | "Canceled";
+
+export function isFillableStatus(status: PrescriptionStatusName): boolean {
+  return status === "Active" || status === "PartiallyDispensed";
+}
+
+// Prescriptions expire lazily: a fillable prescription past its expiry is Expired
+export function effectiveStatus(
+  status: PrescriptionStatusName,
+  expiresAt: bigint,
+  now: bigint
+): PrescriptionStatusName {
+  return isFillableStatus(status) && now >= expiresAt ? "Expired" : status;
+}
+
+// A fill in progress is PartiallyDispensed; once complete, the prescription is
+// Dispensed when no authorized fill is left and Active otherwise
+export function dispensedStatus(
+  fillComplete: boolean,
+  fillsCompleted: number,
+  fillsAuthorized: number
+): PrescriptionStatusName {
+  if (!fillComplete) {
+    return "PartiallyDispensed";
+  }
+
+  return fillsCompleted >= fillsAuthorized ? "Dispensed" : "Active";
+}
+
+// The original fill plus the refills a prescription may authorize
+export function refillLimitReached(
+  fillsAuthorized: number,
+  maxRefills: number
+): boolean {
+  return fillsAuthorized >= 1 + maxRefills;
+}
+
+export type PaymentStatusName =
+  | "Pending"
+  | "Completed"
+  | "Failed"
+  | "Refunded"
+  | "PartiallyRefunded";
+
+// Only the ledger settles a payment, also one whose reservation lapsed before
+// the transfer arrived; refunds move it on until nothing is left
+export const PAYMENT_TRANSITIONS: {
+  [from in PaymentStatusName]: PaymentStatusName[];
+} = {
+  Pending: ["Completed", "Failed"],
+  Completed: ["PartiallyRefunded", "Refunded"],
+  PartiallyRefunded: ["PartiallyRefunded", "Refunded"],
+  Failed: ["Completed"],
+  Refunded: [],
+};
+
+export function isRefundableStatus(status: PaymentStatusName): boolean {
+  return status === "Completed" || status === "PartiallyRefunded";
+}
+
+// Part of the payment not yet refunded or asked back by an open request
+export function refundableAmount(
+  amount: bigint,
+  refundedAmount: bigint,
+  openRequests: bigint[]
+): bigint {
+  const requested = openRequests.reduce(
+    (total, request) => total + request,
+    0n
+  );
+  const refundable = amount - refundedAmount;
+
+  return refundable > requested ? refundable - requested : 0n;
+}
+
+// Status of a payment once the given total has been sent back
+export function refundedStatus(
+  amount: bigint,
+  refundedAmount: bigint
+): PaymentStatusName {
+  return refundedAmount >= amount ? "Refunded" : "PartiallyRefunded";
+}
@@ -0,0 +1,175 @@
+import {
+  Record,
+  StableBTreeMap,
+  Opt,
+  Principal,
+  Vec,
+  nat8,
+  nat64,
+  text,
+} from "azle";
+
+// Stable storage migrations: each step brings the records of one map from the
+// shape they had at the previous schema version to the shape of its version
+
+type Codec = {
+  toBytes: (data: any) => Uint8Array;
+  fromBytes: (bytes: Uint8Array) => any;
+};
+
+export type Migration = {
+  version: number; // Schema version the storage is at once the step ran
+  description: string;
+  memoryId: nat8; // Map whose records the step rewrites
+  from: Codec; // Record shape before the step
+  to: Codec; // Record shape after the step
+  prepare?: () => void; // Runs once before the records are rewritten
+  upgrade: (record: any) => any;
+  finish?: () => void; // Runs once after the records were rewritten
+};
+
+// Keys and values are read as Candid bytes, so either shape can decode them
+const rawBytes: Codec = {
+  toBytes: (bytes) => bytes,
+  fromBytes: (bytes) => bytes,
+};
+
+const MIGRATION_BATCH = 50;
+
+function decodes(codec: Codec, bytes: Uint8Array): boolean {
+  try {
+    codec.fromBytes(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Visit the records of the step's map that do not decode in the new shape yet;
+// records already in the new shape are left alone
+function forEachOutdated(
+  migration: Migration,
+  visit: (key: Uint8Array, bytes: Uint8Array) => void
+): number {
+  const map = StableBTreeMap(migration.memoryId, rawBytes, rawBytes);
+  let outdated = 0;
+
+  for (let start = 0; ; start += MIGRATION_BATCH) {
+    const items = map.items(start, MIGRATION_BATCH);
+
+    for (const [key, bytes] of items) {
+      if (!decodes(migration.to, bytes)) {
+        visit(key, bytes);
+        outdated++;
+      }
+    }
+
+    if (items.length < MIGRATION_BATCH) {
+      return outdated;
+    }
+  }
+}
+
+// Number of records the step would rewrite
+export function countOutdated(migration: Migration): number {
+  return forEachOutdated(migration, () => {});
+}
+
+// Rewrite the outdated records of the step's map; a record that matches neither
+// shape throws, so the upgrade fails instead of losing data
+export function applyMigration(migration: Migration): number {
+  const map = StableBTreeMap(migration.memoryId, rawBytes, rawBytes);
+
+  return forEachOutdated(migration, (key, bytes) => {
+    let record;
+
+    try {
+      record = migration.from.fromBytes(bytes);
+    } catch (error) {
+      throw new Error(
+        `Migration to version ${migration.version} cannot decode a record of memory ${migration.memoryId}: ${error}`
+      );
+    }
+
+    map.insert(key, migration.to.toBytes(migration.upgrade(record)));
+  });
+}
+
+// Record shapes of schema version 0, before any migration
+export const DoctorV0 = Record({
+  id: text,
+  owner: Principal,
+  name: text,
+  department_id: text,
+  image: text,
+});
+
+export const PatientV0 = Record({
+  id: text,
+  owner: Principal,
+  name: text,
+  age: nat64,
+  gender: text,
+  phone_number: text,
+  email: text,
+  address: text,
+  emergency_contact: Record({
+    name: text,
+    phone_number: text,
+    relationship: text,
+  }),
+  allergies: Vec(text),
+  current_medications: Vec(text),
+  medical_history: Vec(text),
+});
+
+export const ConsultationV0 = Record({
+  id: text,
+  patient_id: text,
+  problem: text,
+  department_id: text,
+});
+
+export const ChatV0 = Record({
+  id: text,
+  patient_id: text,
+  doctor_id: text,
+  message: text,
+  timestamp: text,
+});
+
+export const AppointmentV0 = Record({
+  id: text,
+  patient_id: text,
+  doctor_id: text,
+  reason: text,
+  appointment_time: text,
+  status: text, // "scheduled", "canceled", "completed"
+  video_link: Opt(text),
+});
+
+export const PrescriptionV0 = Record({
+  id: text,
+  patient_id: text,
+  doctor_id: text,
+  medications: Vec(text), // Free-text medication names and dosages
+  instructions: text,
+  issued_at: text,
+});
+
+export const PaymentV0 = Record({
+  id: text,
+  appointment_id: text,
+  patient_id: text,
+  amount: nat64,
+  status: text, // "pending", "completed", "failed"
+  payment_method: text,
+});
+
+export const MedicalRecordV0 = Record({
+  patient_id: text,
+  consultation_notes: Vec(text),
+  prescriptions: Vec(PrescriptionV0),
+  lab_results: Vec(text),
+  immunizations: Vec(text),
+});
@@ -0,0 +1,51 @@
+// Notice schedule: the notification sweep reads due times in key order, each
+// key listing the "<kind>:<subject>" entries to look at once it has passed
+
+export type ScheduledKind =
+  | "appointment"
+  | "payment"
+  | "prescription"
+  | "forget";
+
+const KEY_DIGITS = 20; // Every nat64 fits
+
+// Time the given lead ahead of an event; events closer than the lead to the
+// start of time are looked at right away
+export function timeBefore(eventAt: bigint, lead: bigint): bigint {
+  return eventAt > lead ? eventAt - lead : 0n;
+}
+
+// Keys are zero-padded so that their order is the order of the due times;
+// past due times are due at once
+export function noticeScheduleKey(dueAt: bigint): string {
+  return (dueAt > 0n ? dueAt : 0n).toString().padStart(KEY_DIGITS, "0");
+}
+
+// Due time of a key, or undefined for a key that is not a padded time
+export function parseNoticeScheduleKey(key: string): bigint | undefined {
+  return /^\d+$/.test(key) ? BigInt(key) : undefined;
+}
+
+// Keys that cannot be read are due, so that they are cleared instead of
+// holding up the entries behind them
+export function isDueKey(key: string, now: bigint): boolean {
+  const dueAt = parseNoticeScheduleKey(key);
+
+  return dueAt === undefined || dueAt <= now;
+}
+
+export function scheduleEntry(kind: ScheduledKind, subject: string): string {
+  return `${kind}:${subject}`;
+}
+
+export function parseScheduleEntry(entry: string): {
+  kind: ScheduledKind;
+  subject: string;
+} {
+  const separator = entry.indexOf(":");
+
+  return {
+    kind: entry.slice(0, separator) as ScheduledKind,
+    subject: entry.slice(separator + 1),
+  };
+}
@@ -0,0 +1,101 @@
+// Cursor pagination over key-ordered maps: pages are read in batches from the
+// cursor onwards instead of loading the whole map
+
+// Largest page returned by the list queries, and how many entries they read at once
+export const MAX_LIST_PAGE_SIZE = 100;
+export const PAGE_SCAN_BATCH = 50;
+
+export type PageableMap<Value> = {
+  len(): bigint;
+  keys(startIndex?: number, length?: number): string[];
+  items(startIndex?: number, length?: number): [string, Value][];
+};
+
+export type PageOptions<Value> = {
+  limit: number;
+  descending: boolean;
+  cursor?: string; // Key of the last item of the previous page
+  matches: (value: Value) => boolean;
+};
+
+function keyAt<Value>(map: PageableMap<Value>, index: number): string {
+  return map.keys(index, 1)[0];
+}
+
+// Position of the first key after the cursor, reading one key per step.
+// Map keys are fixed-length uuids, so the map's key order matches string order
+export function firstKeyAfter<Value>(
+  map: PageableMap<Value>,
+  length: number,
+  cursor: string
+): number {
+  let low = 0;
+  let high = length;
+
+  while (low < high) {
+    const middle = (low + high) >> 1;
+
+    if (keyAt(map, middle) <= cursor) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  return low;
+}
+
+// The matching values after the cursor, up to the page size, and the cursor of
+// the next page when the map holds more entries
+export function readPage<Value>(
+  map: PageableMap<Value>,
+  options: PageOptions<Value>
+): { items: Value[]; nextCursor: string | undefined } {
+  const pageSize = Math.min(Math.max(options.limit, 1), MAX_LIST_PAGE_SIZE);
+  const descending = options.descending;
+  const length = Number(map.len());
+  let index = descending ? length - 1 : 0;
+
+  if (options.cursor !== undefined) {
+    const cursor = options.cursor;
+    const after = firstKeyAfter(map, length, cursor);
+    // Descending pages continue with the last key before the cursor
+    index = descending
+      ? after - (after > 0 && keyAt(map, after - 1) === cursor ? 2 : 1)
+      : after;
+  }
+
+  const items: Value[] = [];
+  let lastKey: string | undefined;
+
+  while (items.length < pageSize && index >= 0 && index < length) {
+    const batchStart = descending
+      ? Math.max(index - PAGE_SCAN_BATCH + 1, 0)
+      : index;
+    const batch = map.items(
+      batchStart,
+      descending ? index - batchStart + 1 : PAGE_SCAN_BATCH
+    );
+
+    if (descending) {
+      batch.reverse();
+    }
+
+    for (const [key, value] of batch) {
+      index += descending ? -1 : 1;
+
+      if (options.matches(value)) {
+        items.push(value);
+        lastKey = key;
+
+        if (items.length === pageSize) {
+          break;
+        }
+      }
+    }
+  }
+
+  const hasMore = index >= 0 && index < length;
+
+  return { items, nextCursor: hasMore ? lastKey : undefined };
+}
@@ -0,0 +1,54 @@
+import { FieldError } from "./validation";
+
+// Patch semantics of the profile updates: Opt fields change only when Some,
+// list fields take items to add and to remove
+
+export type ListPatch = {
+  add: string[];
+  remove: string[];
+};
+
+export type OptValue<T> = T extends { Some: infer Value } ? Value : never;
+export type PresentFields<Patch, Field extends keyof Patch> = {
+  [F in Field]?: OptValue<Patch[F]>;
+};
+
+// Values of the Opt fields of a patch that are Some, by field name
+export function presentFields<Patch, Field extends keyof Patch>(
+  patch: Patch,
+  fields: Field[]
+): PresentFields<Patch, Field> {
+  const changes: PresentFields<Patch, Field> = {};
+
+  for (const field of fields) {
+    const valueOpt = patch[field] as
+      | { Some: OptValue<Patch[typeof field]> }
+      | { None: null };
+
+    if ("Some" in valueOpt) {
+      changes[field] = valueOpt.Some;
+    }
+  }
+
+  return changes;
+}
+
+// Apply a list patch; removing an item that is not in the list is an error
+export function applyListPatch(
+  field: string,
+  items: string[],
+  patch: ListPatch
+): { items: string[]; errors: FieldError[] } {
+  const errors = patch.remove
+    .filter((item) => !items.includes(item))
+    .map((item) => ({
+      field: `${field}.remove`,
+      reason: `'${item}' is not in the list`,
+    }));
+  const kept = items.filter((item) => !patch.remove.includes(item));
+  const added = patch.add.filter(
+    (item, index) => !kept.includes(item) && patch.add.indexOf(item) === index
+  );
+
+  return { items: [...kept, ...added], errors };
+}
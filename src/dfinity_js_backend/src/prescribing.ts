@@ -0,0 +1,103 @@
+// Prescription safety: allergy and drug interaction conflicts of prescribing
+// catalog medications to a patient
+
+export type DrugFacts = {
+  id: string;
+  name: string;
+  active_ingredients: string[];
+  contraindication_classes: string[];
+};
+
+export type InteractionFacts = {
+  severity: string; // Minor, Moderate or Major
+  description: string;
+};
+
+export type SafetyFinding = {
+  blocking: boolean;
+  message: string;
+};
+
+export function normalizeTerm(term: string): string {
+  return term.trim().toLowerCase();
+}
+
+// Interactions are symmetric, so both orders share one key
+export function interactionKey(medicationId: string, otherId: string): string {
+  return [medicationId, otherId].sort().join(":");
+}
+
+// Allergies match a medication's name, active ingredients or contraindication
+// classes; an allergy conflict always blocks the prescription
+function allergyFindings(
+  allergies: string[],
+  medications: DrugFacts[]
+): SafetyFinding[] {
+  const allergyTerms = allergies.map(normalizeTerm).filter(Boolean);
+
+  return medications.flatMap((medication) => {
+    const terms = [
+      medication.name,
+      ...medication.active_ingredients,
+      ...medication.contraindication_classes,
+    ].map(normalizeTerm);
+    const allergy = allergyTerms.find((term) => terms.includes(term));
+
+    return allergy
+      ? [
+          {
+            blocking: true,
+            message: `${medication.name} conflicts with the patient's allergy to ${allergy}`,
+          },
+        ]
+      : [];
+  });
+}
+
+// Interactions among the prescribed medications and with those the patient
+// already takes, each pair checked once; major interactions block
+function interactionFindings(
+  medications: DrugFacts[],
+  currentMedications: DrugFacts[],
+  interactionOf: (key: string) => InteractionFacts | undefined
+): SafetyFinding[] {
+  const findings: SafetyFinding[] = [];
+  const checked = new Set<string>();
+
+  for (const [index, medication] of medications.entries()) {
+    const others = [...medications.slice(index + 1), ...currentMedications];
+
+    for (const other of others) {
+      const key = interactionKey(medication.id, other.id);
+
+      if (medication.id === other.id || checked.has(key)) {
+        continue;
+      }
+
+      checked.add(key);
+
+      const interaction = interactionOf(key);
+
+      if (interaction) {
+        findings.push({
+          blocking: interaction.severity === "Major",
+          message: `${interaction.severity} interaction between ${medication.name} and ${other.name}: ${interaction.description}`,
+        });
+      }
+    }
+  }
+
+  return findings;
+}
+
+export function prescriptionSafety(
+  allergies: string[],
+  medications: DrugFacts[],
+  currentMedications: DrugFacts[],
+  interactionOf: (key: string) => InteractionFacts | undefined
+): SafetyFinding[] {
+  return [
+    ...allergyFindings(allergies, medications),
+    ...interactionFindings(medications, currentMedications, interactionOf),
+  ];
+}
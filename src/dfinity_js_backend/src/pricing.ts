@@ -0,0 +1,114 @@
+// Invoice pricing: lines are priced from the fee schedule of the department
+// that provided the care, with the discount taken before tax
+
+export type ServiceTerms = {
+  id: string;
+  department_id: string;
+  code: string;
+  name: string;
+  price: bigint; // e8s per unit
+  tax_percent: number;
+  active: boolean;
+};
+
+export type LineRequest = {
+  service_id: string;
+  quantity: number;
+  discount_percent: number;
+};
+
+export type PricedLine = {
+  service_id: string;
+  code: string;
+  description: string;
+  quantity: number;
+  unit_price: bigint;
+  discount: bigint;
+  tax: bigint; // Charged on the discounted amount
+  total: bigint;
+};
+
+export type PricedInvoice = {
+  lines: PricedLine[];
+  subtotal: bigint;
+  discount_total: bigint;
+  tax_total: bigint;
+  total: bigint;
+};
+
+// Why the service cannot be billed by the department, if it cannot
+export function serviceProblem(
+  serviceId: string,
+  service: ServiceTerms | undefined,
+  departmentId: string
+): string | undefined {
+  if (service === undefined) {
+    return `Service with id=${serviceId} not found`;
+  }
+
+  if (service.department_id !== departmentId) {
+    return `Service with id=${serviceId} is not offered by department id=${departmentId}`;
+  }
+
+  if (!service.active) {
+    return `Service with id=${serviceId} is no longer offered`;
+  }
+
+  return undefined;
+}
+
+export function priceLine(
+  service: ServiceTerms,
+  line: LineRequest
+): PricedLine {
+  const amount = service.price * BigInt(line.quantity);
+  const discount = (amount * BigInt(line.discount_percent)) / 100n;
+  const tax = ((amount - discount) * BigInt(service.tax_percent)) / 100n;
+
+  return {
+    service_id: service.id,
+    code: service.code,
+    description: service.name,
+    quantity: line.quantity,
+    unit_price: service.price,
+    discount,
+    tax,
+    total: amount - discount + tax,
+  };
+}
+
+// Price every line; the first service that cannot be billed fails the invoice
+export function priceLines(
+  departmentId: string,
+  lines: LineRequest[],
+  serviceOf: (serviceId: string) => ServiceTerms | undefined
+): { Ok: PricedInvoice } | { Err: string } {
+  const pricedLines: PricedLine[] = [];
+
+  for (const line of lines) {
+    const service = serviceOf(line.service_id);
+    const problem = serviceProblem(line.service_id, service, departmentId);
+
+    if (problem !== undefined) {
+      return { Err: problem };
+    }
+
+    pricedLines.push(priceLine(service!, line));
+  }
+
+  const sum = (field: "discount" | "tax" | "total") =>
+    pricedLines.reduce((total, line) => total + line[field], 0n);
+
+  return {
+    Ok: {
+      lines: pricedLines,
+      subtotal: pricedLines.reduce(
+        (total, line) => total + line.unit_price * BigInt(line.quantity),
+        0n
+      ),
+      discount_total: sum("discount"),
+      tax_total: sum("tax"),
+      total: sum("total"),
+    },
+  };
+}
@@ -0,0 +1,21 @@
+// Medical record entries are append-only: a correction is a new entry whose
+// `amends` field points at the entry it replaces
+
+// An amendment must reference an entry of the same kind in the same record
+export function amendsExistingEntry(
+  amends: string | undefined,
+  entries: { id: string }[]
+): boolean {
+  return amends === undefined || entries.some((entry) => entry.id === amends);
+}
+
+// Why a lab reference range cannot be recorded, if it cannot; either bound
+// may be left open
+export function referenceRangeProblem(
+  low: number | undefined,
+  high: number | undefined
+): string | undefined {
+  return low !== undefined && high !== undefined && low > high
+    ? "Reference range low bound exceeds the high bound"
+    : undefined;
+}
@@ -0,0 +1,18 @@
+import { NANOS_PER_DAY } from "./scheduling";
+
+// Retention of deleted profiles: their data is kept for the configured number
+// of days after the delete, then purged or anonymized by the daily sweep
+
+// End of the retention period of data deleted at the given time; follows later
+// changes of the policy
+export function retainUntil(deletedAt: bigint, retentionDays: number): bigint {
+  return deletedAt + BigInt(retentionDays) * NANOS_PER_DAY;
+}
+
+export function retentionElapsed(
+  deletedAt: bigint,
+  retentionDays: number,
+  now: bigint
+): boolean {
+  return now >= retainUntil(deletedAt, retentionDays);
+}
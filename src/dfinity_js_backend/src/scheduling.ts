@@ -0,0 +1,135 @@
+// Calendar rules: weekly working hours, the slots they open and the bookings
+// that would conflict with them. Times are nanoseconds since the epoch (UTC)
+
+export const NANOS_PER_MINUTE = 60_000_000_000n;
+export const NANOS_PER_DAY = 1_440n * NANOS_PER_MINUTE;
+export const MINUTES_PER_DAY = 1_440;
+
+export type WorkingHours = {
+  day_of_week: number; // 0 = Sunday ... 6 = Saturday
+  start_minute: number; // Minutes since midnight
+  end_minute: number;
+};
+
+export type TimeRange = { start_time: bigint; end_time: bigint };
+
+export type WeeklySchedule = {
+  slot_duration_minutes: number;
+  working_hours: WorkingHours[];
+  time_off: TimeRange[];
+};
+
+export function overlaps(
+  start: bigint,
+  end: bigint,
+  otherStart: bigint,
+  otherEnd: bigint
+): boolean {
+  return start < otherEnd && otherStart < end;
+}
+
+// The range overlaps one of the booked ranges
+export function conflictsWithBooking(
+  start: bigint,
+  end: bigint,
+  booked: TimeRange[]
+): boolean {
+  return booked.some((range) =>
+    overlaps(start, end, range.start_time, range.end_time)
+  );
+}
+
+// Why the working hours cannot be used, if they cannot
+export function workingHoursProblem(
+  slotDurationMinutes: number,
+  workingHours: WorkingHours[]
+): string | undefined {
+  if (slotDurationMinutes < 5 || slotDurationMinutes > 480) {
+    return "Slot duration must be between 5 and 480 minutes";
+  }
+
+  for (const [index, hours] of workingHours.entries()) {
+    if (hours.day_of_week > 6) {
+      return "Day of week must be between 0 (Sunday) and 6 (Saturday)";
+    }
+
+    if (
+      hours.start_minute >= hours.end_minute ||
+      hours.end_minute > MINUTES_PER_DAY
+    ) {
+      return "Working hours must start before they end, within a single day";
+    }
+
+    if (hours.end_minute - hours.start_minute < slotDurationMinutes) {
+      return "Working hours must fit at least one slot";
+    }
+
+    const overlapping = workingHours.some(
+      (other, otherIndex) =>
+        otherIndex !== index &&
+        other.day_of_week === hours.day_of_week &&
+        hours.start_minute < other.end_minute &&
+        other.start_minute < hours.end_minute
+    );
+
+    if (overlapping) {
+      return "Working hours on the same day must not overlap";
+    }
+  }
+
+  return undefined;
+}
+
+// Future slots within [rangeStart, rangeEnd) that neither time off nor a
+// booking blocks, sorted by start time
+export function openSlots(
+  schedule: WeeklySchedule,
+  booked: TimeRange[],
+  rangeStart: bigint,
+  rangeEnd: bigint,
+  now: bigint
+): TimeRange[] {
+  const duration = BigInt(schedule.slot_duration_minutes) * NANOS_PER_MINUTE;
+  const slots: TimeRange[] = [];
+
+  for (
+    let dayStart = rangeStart - (rangeStart % NANOS_PER_DAY);
+    dayStart < rangeEnd;
+    dayStart += NANOS_PER_DAY
+  ) {
+    // 1970-01-01 was a Thursday
+    const dayOfWeek = Number((dayStart / NANOS_PER_DAY + 4n) % 7n);
+
+    for (const hours of schedule.working_hours) {
+      if (hours.day_of_week !== dayOfWeek) {
+        continue;
+      }
+
+      const hoursEnd = dayStart + BigInt(hours.end_minute) * NANOS_PER_MINUTE;
+
+      for (
+        let start = dayStart + BigInt(hours.start_minute) * NANOS_PER_MINUTE;
+        start + duration <= hoursEnd;
+        start += duration
+      ) {
+        const end = start + duration;
+
+        if (start < rangeStart || end > rangeEnd || start <= now) {
+          continue;
+        }
+
+        const unavailable =
+          conflictsWithBooking(start, end, schedule.time_off) ||
+          conflictsWithBooking(start, end, booked);
+
+        if (!unavailable) {
+          slots.push({ start_time: start, end_time: end });
+        }
+      }
+    }
+  }
+
+  return slots.sort((left, right) =>
+    left.start_time < right.start_time ? -1 : 1
+  );
+}
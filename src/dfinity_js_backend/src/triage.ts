@@ -0,0 +1,69 @@
+// Consultation triage: the order of a department's queue and the doctor its
+// assignment strategy hands the next consultation to
+
+export type UrgencyName = "Critical" | "High" | "Medium" | "Low";
+export type AssignmentStrategyName = "Manual" | "RoundRobin" | "LeastLoaded";
+
+// Queues list the most urgent consultations first
+export const URGENCY_RANKS: { [name in UrgencyName]: number } = {
+  Critical: 0,
+  High: 1,
+  Medium: 2,
+  Low: 3,
+};
+
+export type Queued = {
+  urgency: { [name in UrgencyName]?: null };
+  created_at: bigint;
+};
+
+function urgencyName(queued: Queued): UrgencyName {
+  return Object.keys(queued.urgency)[0] as UrgencyName;
+}
+
+// Most urgent first, then oldest first
+export function compareQueued(left: Queued, right: Queued): number {
+  const rankDifference =
+    URGENCY_RANKS[urgencyName(left)] - URGENCY_RANKS[urgencyName(right)];
+
+  if (rankDifference !== 0) {
+    return rankDifference;
+  }
+
+  return left.created_at < right.created_at ? -1 : 1;
+}
+
+export type Candidate<Doctor> = {
+  doctor: Doctor;
+  id: string;
+  load: number; // Active consultations
+};
+
+// Doctor the strategy picks among the available candidates; round robin takes
+// turns in id order after the last assigned doctor, manual picks nobody
+export function pickCandidate<Doctor>(
+  strategy: AssignmentStrategyName,
+  candidates: Candidate<Doctor>[],
+  lastAssignedId: string | undefined
+): Doctor | undefined {
+  const ordered = [...candidates].sort((left, right) =>
+    left.id < right.id ? -1 : 1
+  );
+
+  if (strategy === "RoundRobin") {
+    const lastId = lastAssignedId ?? "";
+
+    return (ordered.find((candidate) => candidate.id > lastId) ?? ordered[0])
+      ?.doctor;
+  }
+
+  if (strategy === "LeastLoaded") {
+    return ordered.reduce<Candidate<Doctor> | undefined>(
+      (least, candidate) =>
+        least === undefined || candidate.load < least.load ? candidate : least,
+      undefined
+    )?.doctor;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,234 @@
+import { validate as isUuid } from "uuid";
+
+// Shared payload validation: a schema maps each payload field to the rules it
+// must pass, and validatePayload reports every failing field with its reason
+
+export type FieldError = {
+  field: string;
+  reason: string;
+};
+
+// A rule returns why the value is invalid, or undefined when it is valid
+export type Rule = (value: unknown) => string | undefined;
+
+export type Schema = {
+  [field: string]: Rule[] | Schema | ListSchema;
+};
+
+// Validates a Vec of records: the rules apply to the list, the schema to each item
+class ListSchema {
+  constructor(readonly itemSchema: Schema, readonly rules: Rule[]) {}
+}
+
+export function listOf(itemSchema: Schema, ...rules: Rule[]): ListSchema {
+  return new ListSchema(itemSchema, rules);
+}
+
+export function validatePayload(
+  payload: unknown,
+  schema: Schema,
+  prefix = ""
+): FieldError[] {
+  return Object.entries(schema).flatMap(([field, fieldSchema]) => {
+    const path = `${prefix}${field}`;
+    const value = fieldValue(payload, field);
+
+    if (fieldSchema instanceof ListSchema) {
+      const listErrors = checkRules(path, value, fieldSchema.rules);
+
+      return listErrors.length > 0
+        ? listErrors
+        : items(value).flatMap((item, index) =>
+            validatePayload(item, fieldSchema.itemSchema, `${path}[${index}].`)
+          );
+    }
+
+    if (!Array.isArray(fieldSchema)) {
+      return validatePayload(value, fieldSchema, `${path}.`);
+    }
+
+    return checkRules(path, value, fieldSchema);
+  });
+}
+
+// Validates only the fields present in the changes of a patch
+export function validateChanges(
+  changes: { [field: string]: unknown },
+  schema: Schema
+): FieldError[] {
+  return validatePayload(
+    changes,
+    Object.fromEntries(
+      Object.entries(schema).filter(([field]) => field in changes)
+    )
+  );
+}
+
+// Report only the first failing rule of a field
+function checkRules(path: string, value: unknown, rules: Rule[]): FieldError[] {
+  for (const rule of rules) {
+    const reason = rule(value);
+
+    if (reason !== undefined) {
+      return [{ field: path, reason }];
+    }
+  }
+
+  return [];
+}
+
+// Field of a record value; anything else has no fields
+function fieldValue(record: unknown, field: string): unknown {
+  return typeof record === "object" && record !== null
+    ? (record as { [field: string]: unknown })[field]
+    : undefined;
+}
+
+function items(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+// Length of a text or Vec value
+function lengthOf(value: unknown): number {
+  return typeof value === "string" || Array.isArray(value) ? value.length : 0;
+}
+
+export const MAX_NAME_LENGTH = 100;
+export const MAX_TEXT_LENGTH = 2_000;
+export const MAX_LIST_LENGTH = 50;
+
+export const GENDERS = ["Female", "Male", "Other", "Undisclosed"];
+export const RELATIONSHIPS = [
+  "Parent",
+  "Spouse",
+  "Partner",
+  "Child",
+  "Sibling",
+  "Guardian",
+  "Relative",
+  "Friend",
+  "Other",
+];
+export const PAYMENT_METHODS = ["icp"];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const E164_PATTERN = /^\+[1-9]\d{1,14}$/;
+
+export const required: Rule = (value) =>
+  typeof value === "string" && value.trim().length === 0
+    ? "is required"
+    : undefined;
+
+export function maxLength(limit: number): Rule {
+  return (value) =>
+    lengthOf(value) > limit ? `must be at most ${limit} characters` : undefined;
+}
+
+export const email: Rule = (value) =>
+  typeof value === "string" && EMAIL_PATTERN.test(value)
+    ? undefined
+    : "must be a valid email address";
+
+export const phoneNumber: Rule = (value) =>
+  typeof value === "string" && E164_PATTERN.test(value)
+    ? undefined
+    : "must be an E.164 phone number, e.g. +254712345678";
+
+// Only https links are accepted for images and video calls
+export const httpsUrl: Rule = (value) => {
+  try {
+    return new URL(String(value)).protocol === "https:"
+      ? undefined
+      : "must be an https URL";
+  } catch {
+    return "must be a valid URL";
+  }
+};
+
+export const uuid: Rule = (value) =>
+  typeof value === "string" && isUuid(value) ? undefined : "must be a valid id";
+
+export function oneOf(allowed: string[]): Rule {
+  return (value) =>
+    typeof value === "string" && allowed.includes(value)
+      ? undefined
+      : `must be one of: ${allowed.join(", ")}`;
+}
+
+// Works for nat (bigint) and float fields alike
+export function between(min: number, max: number): Rule {
+  return (value) =>
+    Number.isFinite(Number(value)) &&
+    Number(value) >= min &&
+    Number(value) <= max
+      ? undefined
+      : `must be between ${min} and ${max}`;
+}
+
+// Works for nat (bigint) and float fields alike
+export const positive: Rule = (value) =>
+  Number.isFinite(Number(value)) && Number(value) > 0
+    ? undefined
+    : "must be a positive number";
+
+export const finite: Rule = (value) =>
+  Number.isFinite(value) ? undefined : "must be a finite number";
+
+export function maxItems(limit: number): Rule {
+  return (value) =>
+    lengthOf(value) > limit ? `must have at most ${limit} items` : undefined;
+}
+
+export const nonEmptyList: Rule = (value) =>
+  lengthOf(value) === 0 ? "must have at least one item" : undefined;
+
+// Applies the rules to every text item of a Vec
+export function eachItem(...rules: Rule[]): Rule {
+  return (value) => {
+    for (const [index, item] of items(value).entries()) {
+      for (const rule of rules) {
+        const reason = rule(item);
+
+        if (reason !== undefined) {
+          return `item ${index} ${reason}`;
+        }
+      }
+    }
+
+    return undefined;
+  };
+}
+
+// Applies the rules to the value of an Opt field when it is present
+export function optional(...rules: Rule[]): Rule {
+  return (value) => {
+    if (typeof value !== "object" || value === null || !("Some" in value)) {
+      return undefined;
+    }
+
+    for (const rule of rules) {
+      const reason = rule(value.Some);
+
+      if (reason !== undefined) {
+        return reason;
+      }
+    }
+
+    return undefined;
+  };
+}
+
+// Applies the rules to one field of a record value
+export function recordField(name: string, ...rules: Rule[]): Rule {
+  return (value) => {
+    for (const rule of rules) {
+      const reason = rule(fieldValue(value, name));
+
+      if (reason !== undefined) {
+        return `${name} ${reason}`;
+      }
+    }
+
+    return undefined;
+  };
+}
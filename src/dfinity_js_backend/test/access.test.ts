@@ -0,0 +1,156 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  ConsentTerms,
+  canReadConsultation,
+  canRevokeRole,
+  consentedScopes,
+  hasScope,
+  holdsRole,
+  inEmergency,
+  medicalRecordView,
+  patientView,
+  withRole,
+  withoutRole,
+} from "../src/access";
+
+describe("role checks", () => {
+  it("pass when any required role is held", () => {
+    assert.equal(holdsRole(["Patient", "Staff"], ["Admin", "Staff"]), true);
+  });
+
+  it("fail without a required role", () => {
+    assert.equal(holdsRole(["Patient"], ["Admin", "Doctor"]), false);
+    assert.equal(holdsRole([], ["Patient"]), false);
+  });
+});
+
+describe("role grants", () => {
+  it("add a role once", () => {
+    assert.deepEqual(withRole(["Patient"], "Doctor"), ["Patient", "Doctor"]);
+    assert.deepEqual(withRole(["Patient"], "Patient"), ["Patient"]);
+  });
+
+  it("remove only the revoked role", () => {
+    assert.deepEqual(withoutRole(["Admin", "Doctor"], "Admin"), ["Doctor"]);
+    assert.deepEqual(withoutRole(["Doctor"], "Staff"), ["Doctor"]);
+  });
+
+  it("keep the last admin", () => {
+    assert.equal(canRevokeRole("Admin", 1), false);
+    assert.equal(canRevokeRole("Admin", 2), true);
+    assert.equal(canRevokeRole("Doctor", 1), true);
+  });
+});
+
+describe("consent grants", () => {
+  const doctor = { id: "d1", department_id: "cardio" };
+  const grant: ConsentTerms = {
+    patient_id: "p1",
+    grantee: { Doctor: "d1" },
+    scopes: ["Labs"],
+    expires_at: 100n,
+    revoked: false,
+  };
+
+  it("give their scopes to the doctor or the doctor's department", () => {
+    assert.deepEqual(consentedScopes([grant], "p1", doctor, 50n), ["Labs"]);
+    assert.deepEqual(
+      consentedScopes(
+        [
+          {
+            ...grant,
+            grantee: { Department: "cardio" },
+            scopes: ["Medications"],
+          },
+        ],
+        "p1",
+        doctor,
+        50n
+      ),
+      ["Medications"]
+    );
+  });
+
+  it("give nothing once revoked or expired", () => {
+    assert.deepEqual(
+      consentedScopes([{ ...grant, revoked: true }], "p1", doctor, 50n),
+      []
+    );
+    assert.deepEqual(consentedScopes([grant], "p1", doctor, 100n), []);
+  });
+
+  it("give nothing to other doctors or for other patients", () => {
+    assert.deepEqual(
+      consentedScopes([grant], "p1", { id: "d2", department_id: "neuro" }, 50n),
+      []
+    );
+    assert.deepEqual(consentedScopes([grant], "p2", doctor, 50n), []);
+  });
+});
+
+describe("emergency access", () => {
+  const accesses = [{ patient_id: "p1", doctor_id: "d1", expires_at: 100n }];
+
+  it("lasts until it expires", () => {
+    assert.equal(inEmergency(accesses, "p1", "d1", 99n), true);
+    assert.equal(inEmergency(accesses, "p1", "d1", 100n), false);
+  });
+
+  it("covers only the doctor and patient it was granted for", () => {
+    assert.equal(inEmergency(accesses, "p1", "d2", 50n), false);
+    assert.equal(inEmergency(accesses, "p2", "d1", 50n), false);
+  });
+});
+
+describe("scoped views", () => {
+  const patient = {
+    id: "p1",
+    name: "Ada",
+    allergies: ["penicillin"],
+    current_medications: ["aspirin"],
+    medical_history: ["asthma"],
+  };
+  const medicalRecord = {
+    patient_id: "p1",
+    clinical_notes: ["note"],
+    prescriptions: ["prescription"],
+    lab_results: ["lab"],
+    immunizations: ["immunization"],
+  };
+
+  it("treat the full record as every scope", () => {
+    assert.equal(hasScope(["FullRecord"], "Labs"), true);
+    assert.equal(hasScope(["Demographics"], "Labs"), false);
+    assert.deepEqual(patientView(patient, ["FullRecord"]), patient);
+  });
+
+  it("show demographics only without other scopes", () => {
+    assert.deepEqual(patientView(patient, ["Demographics"]), {
+      ...patient,
+      allergies: [],
+      current_medications: [],
+      medical_history: [],
+    });
+  });
+
+  it("show the record parts the scopes cover", () => {
+    assert.deepEqual(
+      medicalRecordView(medicalRecord, ["Labs", "Medications"]),
+      {
+        ...medicalRecord,
+        clinical_notes: [],
+        immunizations: [],
+      }
+    );
+  });
+});
+
+describe("consultation reads", () => {
+  it("need the full record or the assignment", () => {
+    assert.equal(canReadConsultation(["FullRecord"], false), true);
+    assert.equal(canReadConsultation([], true), true);
+    assert.equal(canReadConsultation(["Labs", "Medications"], false), false);
+    assert.equal(canReadConsultation(["Demographics"], false), false);
+  });
+});
@@ -0,0 +1,80 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  AuditContent,
+  GENESIS_HASH,
+  auditHash,
+  auditOutcomeName,
+  firstBrokenLink,
+} from "../src/audit";
+
+// A valid chain of entries starting at sequence 0
+function chain(length: number) {
+  const entries: (AuditContent & { hash: string })[] = [];
+  let previousHash = GENESIS_HASH;
+
+  for (let sequence = 0n; sequence < BigInt(length); sequence++) {
+    const content: AuditContent = {
+      sequence,
+      caller: "2vxsx-fae",
+      method: "getPatientById",
+      target_ids: ["p1"],
+      outcome: "Success",
+      timestamp: 1_000n + sequence,
+      previous_hash: previousHash,
+    };
+
+    previousHash = auditHash(content);
+    entries.push({ ...content, hash: previousHash });
+  }
+
+  return entries;
+}
+
+describe("audit outcomes", () => {
+  it("tell denied calls from failed ones", () => {
+    assert.equal(auditOutcomeName({ Ok: 1 }), "Success");
+    assert.equal(auditOutcomeName(undefined), "Success");
+    assert.equal(auditOutcomeName({ Err: { Unauthorized: "no" } }), "Denied");
+    assert.equal(auditOutcomeName({ Err: { NotFound: "gone" } }), "Failed");
+  });
+});
+
+describe("audit chain", () => {
+  it("verifies an untouched chain", () => {
+    const entries = chain(3);
+
+    assert.equal(firstBrokenLink(entries, 0n, GENESIS_HASH), undefined);
+    assert.equal(
+      firstBrokenLink(entries.slice(1), 1n, entries[0].hash),
+      undefined
+    );
+  });
+
+  it("finds a changed entry", () => {
+    const entries = chain(3);
+
+    entries[1] = { ...entries[1], method: "deletePatient" };
+
+    assert.equal(firstBrokenLink(entries, 0n, GENESIS_HASH), 1n);
+  });
+
+  it("finds a removed entry", () => {
+    const entries = chain(3);
+
+    assert.equal(
+      firstBrokenLink([entries[0], entries[2]], 0n, GENESIS_HASH),
+      1n
+    );
+  });
+
+  it("finds an entry rehashed without its predecessor", () => {
+    const entries = chain(3);
+    const { hash, ...content } = { ...entries[2], previous_hash: GENESIS_HASH };
+
+    entries[2] = { ...content, hash: auditHash(content) };
+
+    assert.notEqual(hash, entries[2].hash);
+    assert.equal(firstBrokenLink(entries, 0n, GENESIS_HASH), 2n);
+  });
+});
@@ -0,0 +1,130 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  bloodPressureCategory,
+  bmi,
+  bmiCategory,
+  bodySurfaceArea,
+  creatinineClearance,
+  egfr,
+  healthRiskLevel,
+  healthRiskScore,
+  kidneyStage,
+  round,
+  toCentimeters,
+  toKilograms,
+  toMgPerDl,
+  weightBasedDose,
+} from "../src/calculators";
+
+describe("unit conversions", () => {
+  it("converts masses to kilograms", () => {
+    assert.equal(toKilograms(70, "Kg"), 70);
+    assert.equal(toKilograms(70_000, "G"), 70);
+    assert.equal(round(toKilograms(154.32, "Lb")), 70);
+  });
+
+  it("converts lengths to centimeters", () => {
+    assert.equal(toCentimeters(175, "Cm"), 175);
+    assert.equal(toCentimeters(1.75, "M"), 175);
+    assert.equal(toCentimeters(70, "In"), 177.8);
+  });
+
+  it("converts creatinine to mg/dL", () => {
+    assert.equal(toMgPerDl(1.2, "MgPerDl"), 1.2);
+    assert.equal(toMgPerDl(88.42, "UmolPerL"), 1);
+  });
+});
+
+describe("bmi", () => {
+  it("divides the weight by the squared height in meters", () => {
+    assert.equal(round(bmi(70, 175)), 22.86);
+  });
+
+  it("uses the WHO adult categories", () => {
+    assert.equal(bmiCategory(18.4), "Underweight");
+    assert.equal(bmiCategory(18.5), "Normal Weight");
+    assert.equal(bmiCategory(25), "Overweight");
+    assert.equal(bmiCategory(30), "Obese");
+  });
+});
+
+describe("bodySurfaceArea", () => {
+  it("follows the Mosteller formula", () => {
+    assert.equal(round(bodySurfaceArea(70, 175)), 1.84);
+  });
+});
+
+describe("kidney function", () => {
+  it("computes the CKD-EPI 2021 eGFR", () => {
+    assert.equal(round(egfr(1, 50, "Male")), 91.69);
+    assert.equal(round(egfr(0.8, 50, "Female")), 89.71);
+  });
+
+  it("uses the KDIGO GFR categories", () => {
+    assert.equal(kidneyStage(90), "G1");
+    assert.equal(kidneyStage(89.9), "G2");
+    assert.equal(kidneyStage(45), "G3a");
+    assert.equal(kidneyStage(44.9), "G3b");
+    assert.equal(kidneyStage(15), "G4");
+    assert.equal(kidneyStage(14.9), "G5");
+  });
+
+  it("computes the Cockcroft-Gault creatinine clearance", () => {
+    assert.equal(round(creatinineClearance(1, 40, 70, "Male")), 97.22);
+    assert.equal(round(creatinineClearance(1, 40, 70, "Female")), 82.64);
+  });
+});
+
+describe("bloodPressureCategory", () => {
+  it("uses the ACC/AHA 2017 categories", () => {
+    assert.equal(bloodPressureCategory(119, 79), "Normal");
+    assert.equal(bloodPressureCategory(125, 79), "Elevated");
+    assert.equal(bloodPressureCategory(130, 70), "Hypertension1");
+    assert.equal(bloodPressureCategory(140, 70), "Hypertension2");
+    assert.equal(bloodPressureCategory(181, 70), "HypertensiveCrisis");
+  });
+
+  it("takes the higher category of the two readings", () => {
+    assert.equal(bloodPressureCategory(115, 85), "Hypertension1");
+    assert.equal(bloodPressureCategory(125, 121), "HypertensiveCrisis");
+  });
+});
+
+describe("weightBasedDose", () => {
+  it("multiplies the weight by the dose per kg", () => {
+    assert.deepEqual(weightBasedDose(20, 10, 3, undefined, undefined), {
+      singleDose: 200,
+      dailyDose: 600,
+      capped: false,
+    });
+  });
+
+  it("lowers the dose to the single-dose ceiling", () => {
+    assert.deepEqual(weightBasedDose(20, 15, 2, 250, undefined), {
+      singleDose: 250,
+      dailyDose: 500,
+      capped: true,
+    });
+  });
+
+  it("lowers the dose so that a day stays within the daily ceiling", () => {
+    assert.deepEqual(weightBasedDose(20, 15, 3, 250, 600), {
+      singleDose: 200,
+      dailyDose: 600,
+      capped: true,
+    });
+  });
+});
+
+describe("health risk", () => {
+  it("weights age, BMI and systolic pressure", () => {
+    assert.equal(round(healthRiskScore(40, 25, 120)), 48.5);
+  });
+
+  it("maps the score to a level", () => {
+    assert.equal(healthRiskLevel(19.9), "Low Risk");
+    assert.equal(healthRiskLevel(20), "Moderate Risk");
+    assert.equal(healthRiskLevel(30), "High Risk");
+  });
+});
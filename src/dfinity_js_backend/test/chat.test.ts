@@ -0,0 +1,59 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  countDeleted,
+  countRead,
+  countSent,
+  unreadReceived,
+} from "../src/chat";
+
+const conversation = {
+  id: "c1",
+  patient_unread_count: 2,
+  doctor_unread_count: 1,
+};
+
+describe("unread counts", () => {
+  it("grow for the recipient of a message", () => {
+    assert.deepEqual(countSent(conversation, "Doctor"), {
+      ...conversation,
+      patient_unread_count: 3,
+    });
+    assert.deepEqual(countSent(conversation, "Patient"), {
+      ...conversation,
+      doctor_unread_count: 2,
+    });
+  });
+
+  it("clear for the reader only", () => {
+    assert.deepEqual(countRead(conversation, "Patient"), {
+      ...conversation,
+      patient_unread_count: 0,
+    });
+  });
+
+  it("drop when an unread message is deleted, never below zero", () => {
+    assert.equal(countDeleted(conversation, "Doctor").patient_unread_count, 1);
+
+    const read = countRead(conversation, "Doctor");
+
+    assert.equal(countDeleted(read, "Patient").doctor_unread_count, 0);
+  });
+});
+
+describe("read receipts", () => {
+  const messages = [
+    { from_doctor: true, read: true },
+    { from_doctor: false, read: false },
+    { from_doctor: true, read: false },
+    { from_doctor: true, read: false },
+  ];
+
+  it("mark the received messages after the last read one", () => {
+    assert.deepEqual(unreadReceived(messages, "Patient"), [3, 2]);
+  });
+
+  it("skip the reader's own messages", () => {
+    assert.deepEqual(unreadReceived(messages, "Doctor"), [1]);
+  });
+});
@@ -0,0 +1,52 @@
+import { Principal } from "@dfinity/principal";
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { describeValue, fieldDiffs } from "../src/history";
+
+describe("stored values", () => {
+  it("describe nat64 values and principals as text", () => {
+    assert.equal(
+      describeValue({ age: 42n, owner: Principal.anonymous() }),
+      '{"age":"42","owner":"2vxsx-fae"}'
+    );
+  });
+});
+
+describe("field diffs", () => {
+  it("list every field of the first version", () => {
+    assert.deepEqual(fieldDiffs(undefined, { name: "Ada", age: 42n }), [
+      { field: "name", before: "", after: '"Ada"' },
+      { field: "age", before: "", after: '"42"' },
+    ]);
+  });
+
+  it("list only the fields that changed", () => {
+    assert.deepEqual(
+      fieldDiffs(
+        { name: "Ada", allergies: ["latex"] },
+        { name: "Ada", allergies: ["latex", "pollen"] }
+      ),
+      [
+        {
+          field: "allergies",
+          before: '["latex"]',
+          after: '["latex","pollen"]',
+        },
+      ]
+    );
+  });
+
+  it("compare lists of entries per entry id", () => {
+    const before = { lab_results: [{ id: "a", value: 1 }] };
+    const after = {
+      lab_results: [
+        { id: "a", value: 1 },
+        { id: "b", value: 2 },
+      ],
+    };
+
+    assert.deepEqual(fieldDiffs(before, after), [
+      { field: "lab_results[b]", before: "", after: '{"id":"b","value":2}' },
+    ]);
+  });
+});
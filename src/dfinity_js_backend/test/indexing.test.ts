@@ -0,0 +1,60 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  IdIndexMap,
+  Optional,
+  addToIndex,
+  indexedIds,
+  lookupIndexed,
+  removeFromIndex,
+} from "../src/indexing";
+
+function memoryMap<Value>() {
+  const entries = new Map<string, Value>();
+
+  return {
+    entries,
+    get: (key: string): Optional<Value> =>
+      entries.has(key) ? { Some: entries.get(key)! } : { None: null },
+    insert: (key: string, value: Value) => entries.set(key, value),
+    remove: (key: string) => entries.delete(key),
+  };
+}
+
+describe("id indexes", () => {
+  it("file each id once under its key", () => {
+    const index: IdIndexMap = memoryMap<string[]>();
+
+    addToIndex(index, "patient-1", "a");
+    addToIndex(index, "patient-1", "b");
+    addToIndex(index, "patient-1", "a");
+
+    assert.deepEqual(indexedIds(index, "patient-1"), ["a", "b"]);
+    assert.deepEqual(indexedIds(index, "patient-2"), []);
+  });
+
+  it("drop keys once their last id is removed", () => {
+    const index = memoryMap<string[]>();
+
+    addToIndex(index, "department-1", "a");
+    addToIndex(index, "department-1", "b");
+    removeFromIndex(index, "department-1", "a");
+
+    assert.deepEqual(indexedIds(index, "department-1"), ["b"]);
+
+    removeFromIndex(index, "department-1", "b");
+
+    assert.equal(index.entries.has("department-1"), false);
+  });
+
+  it("look up the records that still exist", () => {
+    const index = memoryMap<string[]>();
+    const records = memoryMap<{ id: string }>();
+
+    records.insert("a", { id: "a" });
+    addToIndex(index, "patient-1", "a");
+    addToIndex(index, "patient-1", "gone");
+
+    assert.deepEqual(lookupIndexed(records, index, "patient-1"), [{ id: "a" }]);
+  });
+});
@@ -0,0 +1,118 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  PolicyTerms,
+  coveragePercent,
+  splitCost,
+  splitLines,
+  uninsuredCost,
+} from "../src/insurance";
+
+const none = { None: null } as const;
+
+const policy: PolicyTerms = {
+  id: "policy",
+  default_percent: 50,
+  deductible: 100n,
+  annual_cap: 1_000n,
+  coverage: [
+    { department_id: { Some: "cardiology" }, service_code: none, percent: 70 },
+    { department_id: none, service_code: { Some: "XRAY" }, percent: 80 },
+    {
+      department_id: { Some: "cardiology" },
+      service_code: { Some: "ECG" },
+      percent: 90,
+    },
+  ],
+};
+
+const unused = { deductible: 0n, covered: 0n };
+
+describe("coverage", () => {
+  it("applies the most specific matching rule", () => {
+    assert.equal(coveragePercent(policy, "cardiology", "ECG"), 90);
+    assert.equal(coveragePercent(policy, "cardiology", "XRAY"), 80);
+    assert.equal(coveragePercent(policy, "cardiology", undefined), 70);
+  });
+
+  it("falls back to the default percentage", () => {
+    assert.equal(coveragePercent(policy, "dermatology", "ECG"), 50);
+  });
+});
+
+describe("cost split", () => {
+  it("charges the deductible first and covers a share of the rest", () => {
+    assert.deepEqual(
+      splitCost(policy, unused, "dermatology", undefined, 300n),
+      {
+        billed_amount: 300n,
+        policy_id: { Some: "policy" },
+        coverage_percent: 50,
+        deductible_applied: 100n,
+        covered_amount: 100n,
+        patient_amount: 200n,
+        deductible_remaining: 0n,
+        cap_remaining: 900n,
+      }
+    );
+  });
+
+  it("leaves the deductible partly open on small bills", () => {
+    const split = splitCost(policy, unused, "dermatology", undefined, 40n);
+
+    assert.equal(split.deductible_applied, 40n);
+    assert.equal(split.covered_amount, 0n);
+    assert.equal(split.deductible_remaining, 60n);
+  });
+
+  it("covers no more than what is left of the annual cap", () => {
+    const split = splitCost(
+      policy,
+      { deductible: 100n, covered: 950n },
+      "dermatology",
+      undefined,
+      1_000n
+    );
+
+    assert.equal(split.covered_amount, 50n);
+    assert.equal(split.patient_amount, 950n);
+    assert.equal(split.cap_remaining, 0n);
+  });
+
+  it("charges the patient in full without a policy", () => {
+    assert.deepEqual(uninsuredCost(500n), {
+      billed_amount: 500n,
+      policy_id: none,
+      coverage_percent: 0,
+      deductible_applied: 0n,
+      covered_amount: 0n,
+      patient_amount: 500n,
+      deductible_remaining: 0n,
+      cap_remaining: 0n,
+    });
+  });
+});
+
+describe("invoice split", () => {
+  it("carries the deductible over and weights the coverage by line", () => {
+    const split = splitLines(policy, unused, "cardiology", [
+      { code: "CONSULT", total: 200n },
+      { code: "ECG", total: 100n },
+    ]);
+
+    // 100 deductible on the first line, then 70% of 100 and 90% of 100
+    assert.equal(split.deductible_applied, 100n);
+    assert.equal(split.covered_amount, 160n);
+    assert.equal(split.patient_amount, 140n);
+    assert.equal(split.coverage_percent, 80);
+    assert.equal(split.cap_remaining, 840n);
+  });
+
+  it("leaves the usage it started from untouched", () => {
+    const usage = { deductible: 0n, covered: 0n };
+
+    splitLines(policy, usage, "cardiology", [{ code: "ECG", total: 500n }]);
+
+    assert.deepEqual(usage, { deductible: 0n, covered: 0n });
+  });
+});
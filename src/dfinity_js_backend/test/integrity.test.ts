@@ -0,0 +1,26 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { describeReferences } from "../src/integrity";
+
+describe("references", () => {
+  it("name each kind of record still referring to the entity", () => {
+    assert.deepEqual(
+      describeReferences([
+        ["doctors", 2],
+        ["consultations", 0],
+        ["services", 1],
+      ]),
+      ["2 doctors", "1 services"]
+    );
+  });
+
+  it("allow the delete once nothing refers to the entity", () => {
+    assert.deepEqual(
+      describeReferences([
+        ["active appointments", 0],
+        ["pending payments", 0],
+      ]),
+      []
+    );
+  });
+});
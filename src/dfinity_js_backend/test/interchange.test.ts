@@ -0,0 +1,218 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  DEPARTMENT_TABLE,
+  DOCTOR_TABLE,
+  PATIENT_TABLE,
+  Row,
+  formatRows,
+  jsonAt,
+  jsonText,
+  parseRows,
+} from "../src/interchange";
+
+const patientRow: Row = {
+  id: "5f1b1c52-4b8e-4d4c-9a52-3c6f1f4f1e2a",
+  owner: "2vxsx-fae",
+  name: 'Amina "Mina" Odhiambo',
+  age: "34",
+  gender: "Undisclosed",
+  phone_number: "+254712345678",
+  email: "amina@example.com",
+  address: "12 Moi Avenue,\nNairobi",
+  emergency_contact_name: "Omar",
+  emergency_contact_phone_number: "+254712345679",
+  emergency_contact_relationship: "Sibling",
+  allergies: ["Penicillin", "Peanuts"],
+  current_medications: [],
+  medical_history: ["Asthma"],
+};
+
+const doctorRow: Row = {
+  id: "0b6a3c1e-9d5f-4a8b-8c2e-7f4d1a3b5c6d",
+  owner: "2vxsx-fae",
+  name: "Dr. Wanjiru",
+  department_id: "9c2e7f4d-1a3b-4c6d-8b6a-3c1e9d5f4a8b",
+  image: "https://example.com/wanjiru.png",
+  available: "true",
+};
+
+describe("CSV", () => {
+  it("reads back the rows it wrote", () => {
+    const data = formatRows(PATIENT_TABLE, "Csv", [patientRow]);
+
+    assert.deepEqual(parseRows(PATIENT_TABLE, "Csv", data), {
+      Ok: [patientRow],
+    });
+  });
+
+  it("quotes cells with commas, quotes, line breaks and edge spaces", () => {
+    const data = formatRows(DEPARTMENT_TABLE, "Csv", [
+      { id: "", name: " Cardiology", description: 'Heart, "vessels"' },
+    ]);
+
+    assert.equal(
+      data,
+      'id,name,description\r\n," Cardiology","Heart, ""vessels"""'
+    );
+  });
+
+  it("accepts any column order, blank lines and a missing id column", () => {
+    const data = "description,name\n\nHeart care,Cardiology\r\n";
+
+    assert.deepEqual(parseRows(DEPARTMENT_TABLE, "Csv", data), {
+      Ok: [{ description: "Heart care", name: "Cardiology" }],
+    });
+  });
+
+  it("splits list columns on semicolons", () => {
+    const header = PATIENT_TABLE.columns.join(",");
+    const values = PATIENT_TABLE.columns.map((column) =>
+      column === "allergies" ? " Dust ; ;Pollen" : ""
+    );
+    const result = parseRows(
+      PATIENT_TABLE,
+      "Csv",
+      `${header}\n${values.join(",")}`
+    );
+
+    assert.ok("Ok" in result);
+    assert.deepEqual(result.Ok[0].allergies, ["Dust", "Pollen"]);
+    assert.deepEqual(result.Ok[0].medical_history, []);
+  });
+
+  it("rejects chunks with missing columns", () => {
+    assert.deepEqual(parseRows(DEPARTMENT_TABLE, "Csv", "name\nCardiology"), {
+      Err: "Missing CSV columns: description",
+    });
+  });
+
+  it("rejects rows with the wrong number of cells", () => {
+    assert.deepEqual(
+      parseRows(DEPARTMENT_TABLE, "Csv", "name,description\nCardiology"),
+      { Err: "CSV row 1 has 1 cells, expected 2" }
+    );
+  });
+
+  it("rejects data that ends inside a quoted cell", () => {
+    assert.deepEqual(
+      parseRows(DEPARTMENT_TABLE, "Csv", 'name,description\nCardiology,"Heart'),
+      { Err: "CSV data ends inside a quoted cell" }
+    );
+  });
+});
+
+describe("FHIR bundles", () => {
+  it("reads back the patients it wrote", () => {
+    const data = formatRows(PATIENT_TABLE, "Json", [patientRow]);
+
+    assert.deepEqual(parseRows(PATIENT_TABLE, "Json", data), {
+      Ok: [patientRow],
+    });
+  });
+
+  it("writes genders as FHIR codes", () => {
+    const bundle = JSON.parse(formatRows(PATIENT_TABLE, "Json", [patientRow]));
+
+    assert.equal(bundle.entry[0].resource.gender, "unknown");
+  });
+
+  it("reads back the doctors it wrote", () => {
+    const data = formatRows(DOCTOR_TABLE, "Json", [doctorRow]);
+    const bundle = JSON.parse(data);
+
+    assert.equal(
+      bundle.entry[0].resource.organization.reference,
+      `Organization/${doctorRow.department_id}`
+    );
+    assert.deepEqual(parseRows(DOCTOR_TABLE, "Json", data), {
+      Ok: [doctorRow],
+    });
+  });
+
+  it("leaves out the id of rows without one", () => {
+    const data = formatRows(DEPARTMENT_TABLE, "Json", [
+      { id: "", name: "Cardiology", description: "Heart care" },
+    ]);
+
+    assert.equal("id" in JSON.parse(data).entry[0].resource, false);
+  });
+
+  it("rejects data that is not a bundle", () => {
+    assert.deepEqual(parseRows(DEPARTMENT_TABLE, "Json", "{"), {
+      Err: "Data is not valid JSON",
+    });
+    assert.deepEqual(
+      parseRows(DEPARTMENT_TABLE, "Json", '{"resourceType":"Patient"}'),
+      { Err: "Data must be a Bundle with an entry list" }
+    );
+  });
+
+  it("rejects entries of another resource type", () => {
+    const data = formatRows(PATIENT_TABLE, "Json", [patientRow]);
+
+    assert.deepEqual(parseRows(DEPARTMENT_TABLE, "Json", data), {
+      Err: "Bundle entry 1 is not a Organization resource",
+    });
+  });
+
+  it("reads fields of unexpected types as empty text", () => {
+    const data = JSON.stringify({
+      resourceType: "Bundle",
+      entry: [
+        {
+          resource: {
+            resourceType: "Practitioner",
+            id: { nested: true },
+            name: "not a list",
+            identifier: [null, { system: "urn:ic:principal", value: 7 }],
+            extension: "not a list",
+          },
+        },
+      ],
+    });
+
+    assert.deepEqual(parseRows(DOCTOR_TABLE, "Json", data), {
+      Ok: [
+        {
+          id: "",
+          owner: "7",
+          name: "",
+          department_id: "",
+          image: "",
+          available: "",
+        },
+      ],
+    });
+  });
+
+  it("rejects entries without a resource object", () => {
+    assert.deepEqual(
+      parseRows(
+        DEPARTMENT_TABLE,
+        "Json",
+        '{"resourceType":"Bundle","entry":[{"resource":[]}]}'
+      ),
+      { Err: "Bundle entry 1 is not a Organization resource" }
+    );
+  });
+});
+
+describe("JSON values", () => {
+  it("follow paths of keys and list positions", () => {
+    const resource = { name: [{ text: "Ada" }] };
+
+    assert.equal(jsonAt(resource, "name", 0, "text"), "Ada");
+    assert.equal(jsonAt(resource, "name", "text"), undefined);
+    assert.equal(jsonAt(resource, "name", 1, "text"), undefined);
+    assert.equal(jsonAt(null, "name"), undefined);
+  });
+
+  it("read scalars as text", () => {
+    assert.equal(jsonText("a"), "a");
+    assert.equal(jsonText(3), "3");
+    assert.equal(jsonText(false), "false");
+    assert.equal(jsonText(null), "");
+    assert.equal(jsonText({ text: "a" }), "");
+  });
+});
@@ -0,0 +1,90 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  isExpectedTransfer,
+  isSettledStatus,
+  reservationExpiresAt,
+  sameAddress,
+  settlementRefusal,
+} from "../src/ledger";
+
+const payer = Uint8Array.from([1, 2, 3]);
+const clinic = Uint8Array.from([9, 8, 7]);
+const expected = { memo: 42n, from: payer, to: clinic, amount: 500n };
+
+function settledBlocks(...blocks: bigint[]) {
+  return { containsKey: (block: bigint) => blocks.includes(block) };
+}
+
+describe("ledger transfer matching", () => {
+  it("accepts the requested transfer", () => {
+    const transfer = { from: payer, to: clinic, amount: { e8s: 500n } };
+
+    assert.equal(isExpectedTransfer(42n, transfer, expected), true);
+  });
+
+  it("rejects another memo, sender, receiver or amount", () => {
+    const transfer = { from: payer, to: clinic, amount: { e8s: 500n } };
+
+    assert.equal(isExpectedTransfer(43n, transfer, expected), false);
+    assert.equal(
+      isExpectedTransfer(42n, { ...transfer, from: clinic }, expected),
+      false
+    );
+    assert.equal(
+      isExpectedTransfer(42n, { ...transfer, to: payer }, expected),
+      false
+    );
+    assert.equal(
+      isExpectedTransfer(42n, { ...transfer, amount: { e8s: 499n } }, expected),
+      false
+    );
+  });
+
+  it("rejects blocks without a transfer", () => {
+    assert.equal(isExpectedTransfer(42n, undefined, expected), false);
+  });
+
+  it("compares addresses byte by byte", () => {
+    assert.equal(sameAddress(payer, Uint8Array.from([1, 2, 3])), true);
+    assert.equal(sameAddress(payer, Uint8Array.from([1, 2])), false);
+  });
+});
+
+describe("payment settlement", () => {
+  it("settles pending and lapsed payments", () => {
+    assert.equal(
+      settlementRefusal("p1", "Pending", 7n, settledBlocks()),
+      undefined
+    );
+    assert.equal(
+      settlementRefusal("p1", "Failed", 7n, settledBlocks()),
+      undefined
+    );
+  });
+
+  it("does not settle a payment twice", () => {
+    for (const status of ["Completed", "PartiallyRefunded", "Refunded"]) {
+      assert.equal(isSettledStatus(status), true);
+      assert.equal(
+        settlementRefusal("p1", status, 7n, settledBlocks()),
+        `Payment with id=p1 is already ${status}`
+      );
+    }
+  });
+
+  it("does not spend a ledger block twice", () => {
+    assert.equal(
+      settlementRefusal("p2", "Pending", 7n, settledBlocks(7n)),
+      "Ledger block 7 was already used to settle a payment"
+    );
+    assert.equal(
+      settlementRefusal("p2", "Pending", 8n, settledBlocks(7n)),
+      undefined
+    );
+  });
+
+  it("lapses reservations after their period", () => {
+    assert.equal(reservationExpiresAt(1_000n, 600n), 600_000_001_000n);
+  });
+});
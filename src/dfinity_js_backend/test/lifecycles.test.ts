@@ -0,0 +1,161 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { NANOS_PER_MINUTE } from "../src/scheduling";
+import {
+  APPOINTMENT_TRANSITIONS,
+  beforeCancellationDeadline,
+  canStartAppointment,
+  CONSULTATION_TRANSITIONS,
+  dispensedStatus,
+  effectiveStatus,
+  isFillableStatus,
+  isRefundableStatus,
+  PAYMENT_TRANSITIONS,
+  refillLimitReached,
+  refundableAmount,
+  refundedStatus,
+} from "../src/lifecycles";
+
+const HOUR = 60n * NANOS_PER_MINUTE;
+
+// Statuses no transition leads away from
+function terminalStatuses(transitions: { [from: string]: string[] }) {
+  return Object.keys(transitions).filter(
+    (status) => transitions[status].length === 0
+  );
+}
+
+// Statuses no transition leads to
+function entryStatuses(transitions: { [from: string]: string[] }) {
+  const reached = new Set(Object.values(transitions).flat());
+
+  return Object.keys(transitions).filter((status) => !reached.has(status));
+}
+
+describe("appointment lifecycle", () => {
+  it("ends completed, canceled or as a no-show", () => {
+    assert.deepEqual(terminalStatuses(APPOINTMENT_TRANSITIONS), [
+      "Completed",
+      "Canceled",
+      "NoShow",
+    ]);
+  });
+
+  it("reschedules only scheduled appointments", () => {
+    assert.ok(APPOINTMENT_TRANSITIONS.Scheduled.includes("Scheduled"));
+    assert.ok(!APPOINTMENT_TRANSITIONS.InProgress.includes("Scheduled"));
+  });
+
+  it("completes only appointments in progress", () => {
+    assert.ok(!APPOINTMENT_TRANSITIONS.Scheduled.includes("Completed"));
+    assert.deepEqual(APPOINTMENT_TRANSITIONS.InProgress, ["Completed"]);
+  });
+
+  it("lets patients cancel up to 24 hours ahead", () => {
+    const appointmentTime = 100n * HOUR;
+
+    assert.ok(beforeCancellationDeadline(appointmentTime, 76n * HOUR));
+    assert.ok(!beforeCancellationDeadline(appointmentTime, 76n * HOUR + 1n));
+    assert.ok(!beforeCancellationDeadline(appointmentTime, 101n * HOUR));
+  });
+
+  it("starts at most 15 minutes early", () => {
+    const appointmentTime = 100n * HOUR;
+
+    assert.ok(canStartAppointment(appointmentTime, appointmentTime));
+    assert.ok(
+      canStartAppointment(
+        appointmentTime,
+        appointmentTime - 15n * NANOS_PER_MINUTE
+      )
+    );
+    assert.ok(
+      !canStartAppointment(
+        appointmentTime,
+        appointmentTime - 16n * NANOS_PER_MINUTE
+      )
+    );
+  });
+});
+
+describe("consultation lifecycle", () => {
+  it("moves from the queue through a doctor to resolution", () => {
+    assert.deepEqual(entryStatuses(CONSULTATION_TRANSITIONS), ["Open"]);
+    assert.deepEqual(terminalStatuses(CONSULTATION_TRANSITIONS), ["Resolved"]);
+    assert.deepEqual(CONSULTATION_TRANSITIONS.Open, ["Assigned"]);
+    assert.deepEqual(CONSULTATION_TRANSITIONS.InProgress, ["Resolved"]);
+  });
+
+  it("reassigns only consultations not started yet", () => {
+    assert.ok(CONSULTATION_TRANSITIONS.Assigned.includes("Assigned"));
+    assert.ok(!CONSULTATION_TRANSITIONS.InProgress.includes("Assigned"));
+  });
+});
+
+describe("prescription lifecycle", () => {
+  it("fills only active and partially dispensed prescriptions", () => {
+    assert.ok(isFillableStatus("Active"));
+    assert.ok(isFillableStatus("PartiallyDispensed"));
+    assert.ok(!isFillableStatus("Dispensed"));
+    assert.ok(!isFillableStatus("Expired"));
+    assert.ok(!isFillableStatus("Canceled"));
+  });
+
+  it("expires fillable prescriptions once the expiry time is reached", () => {
+    assert.equal(effectiveStatus("Active", 100n, 99n), "Active");
+    assert.equal(effectiveStatus("Active", 100n, 100n), "Expired");
+    assert.equal(effectiveStatus("PartiallyDispensed", 100n, 200n), "Expired");
+  });
+
+  it("keeps the status of prescriptions that cannot be filled", () => {
+    assert.equal(effectiveStatus("Dispensed", 100n, 200n), "Dispensed");
+    assert.equal(effectiveStatus("Canceled", 100n, 200n), "Canceled");
+  });
+
+  it("follows the fills of a dispensing", () => {
+    assert.equal(dispensedStatus(false, 0, 1), "PartiallyDispensed");
+    assert.equal(dispensedStatus(true, 1, 3), "Active");
+    assert.equal(dispensedStatus(true, 3, 3), "Dispensed");
+  });
+
+  it("caps the refills at the limit", () => {
+    assert.ok(!refillLimitReached(12, 12));
+    assert.ok(refillLimitReached(13, 12));
+  });
+});
+
+describe("payment lifecycle", () => {
+  it("starts pending and ends refunded", () => {
+    assert.deepEqual(entryStatuses(PAYMENT_TRANSITIONS), ["Pending"]);
+    assert.deepEqual(terminalStatuses(PAYMENT_TRANSITIONS), ["Refunded"]);
+  });
+
+  it("settles a payment whose reservation lapsed", () => {
+    assert.deepEqual(PAYMENT_TRANSITIONS.Failed, ["Completed"]);
+  });
+
+  it("refunds only settled payments with something left", () => {
+    assert.ok(isRefundableStatus("Completed"));
+    assert.ok(isRefundableStatus("PartiallyRefunded"));
+    assert.ok(!isRefundableStatus("Pending"));
+    assert.ok(!isRefundableStatus("Failed"));
+    assert.ok(!isRefundableStatus("Refunded"));
+  });
+
+  it("is refunded once the whole amount went back", () => {
+    assert.equal(refundedStatus(1_000n, 400n), "PartiallyRefunded");
+    assert.equal(refundedStatus(1_000n, 1_000n), "Refunded");
+  });
+});
+
+describe("refund cap", () => {
+  it("leaves what was neither refunded nor asked back", () => {
+    assert.equal(refundableAmount(1_000n, 0n, []), 1_000n);
+    assert.equal(refundableAmount(1_000n, 300n, [200n, 100n]), 400n);
+  });
+
+  it("allows nothing more once open requests cover the rest", () => {
+    assert.equal(refundableAmount(1_000n, 300n, [700n]), 0n);
+    assert.equal(refundableAmount(1_000n, 300n, [500n, 500n]), 0n);
+  });
+});
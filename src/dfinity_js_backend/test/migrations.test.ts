@@ -0,0 +1,155 @@
+import * as assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { Record, StableBTreeMap, Variant, Null, nat64, text } from "azle";
+import {
+  Migration,
+  PaymentV0,
+  applyMigration,
+  countOutdated,
+} from "../src/migrations";
+
+// Stable maps in memory, keyed like the canister's: by the bytes of the key
+type Entries = Map<string, [ArrayBuffer, ArrayBuffer]>;
+
+function useMemoryStableMaps() {
+  const memories = new Map<string, Entries>();
+  const memory = (memoryId: string) => {
+    if (!memories.has(memoryId)) {
+      memories.set(memoryId, new Map());
+    }
+
+    return memories.get(memoryId)!;
+  };
+  const hex = (bytes: ArrayBuffer) => Buffer.from(bytes).toString("hex");
+  const sorted = (memoryId: string, start: string, length: string) => {
+    const entries = [...memory(memoryId).entries()]
+      .sort(([left], [right]) => (left < right ? -1 : 1))
+      .map(([, entry]) => entry);
+
+    return length === "NOT_SET"
+      ? entries.slice(Number(start))
+      : entries.slice(Number(start), Number(start) + Number(length));
+  };
+
+  globalThis._azleIc = {
+    stableBTreeMapInit: (memoryId: string) => memory(memoryId),
+    stableBTreeMapInsert: (
+      memoryId: string,
+      key: ArrayBuffer,
+      value: ArrayBuffer
+    ) => {
+      const previous = memory(memoryId).get(hex(key));
+
+      memory(memoryId).set(hex(key), [key, value]);
+      return previous?.[1];
+    },
+    stableBTreeMapGet: (memoryId: string, key: ArrayBuffer) =>
+      memory(memoryId).get(hex(key))?.[1],
+    stableBTreeMapItems: sorted,
+    stableBTreeMapValues: (memoryId: string, start: string, length: string) =>
+      sorted(memoryId, start, length).map(([, value]) => value),
+  } as unknown as typeof globalThis._azleIc;
+
+  return () => memories.clear();
+}
+
+const PaymentStatusV1 = Variant({
+  Pending: Null,
+  Completed: Null,
+  Failed: Null,
+});
+
+const PaymentWithStatus = Record({
+  id: text,
+  appointment_id: text,
+  patient_id: text,
+  amount: nat64,
+  status: PaymentStatusV1,
+  payment_method: text,
+});
+
+const PAYMENTS_MEMORY = 7;
+
+const paymentStatus: Migration = {
+  version: 1,
+  description: "Payments: a status variant in place of the status text",
+  memoryId: PAYMENTS_MEMORY,
+  from: PaymentV0,
+  to: PaymentWithStatus,
+  upgrade: (payment: typeof PaymentV0.tsType) => ({
+    ...payment,
+    status:
+      payment.status === "completed" ? { Completed: null } : { Pending: null },
+  }),
+};
+
+function paymentV0(id: string, status: string): typeof PaymentV0.tsType {
+  return {
+    id,
+    appointment_id: `appointment-${id}`,
+    patient_id: "patient",
+    amount: 1_000n,
+    status,
+    payment_method: "icp",
+  };
+}
+
+describe("migrations", () => {
+  const clearMemories = useMemoryStableMaps();
+
+  beforeEach(() => clearMemories());
+
+  it("counts the records that are not in the new shape yet", () => {
+    StableBTreeMap(PAYMENTS_MEMORY, text, PaymentV0).insert(
+      "a",
+      paymentV0("a", "pending")
+    );
+    StableBTreeMap(PAYMENTS_MEMORY, text, PaymentWithStatus).insert("b", {
+      ...paymentV0("b", ""),
+      status: { Failed: null },
+    });
+
+    assert.equal(countOutdated(paymentStatus), 1);
+  });
+
+  it("rewrites outdated records and leaves migrated ones alone", () => {
+    StableBTreeMap(PAYMENTS_MEMORY, text, PaymentV0).insert(
+      "a",
+      paymentV0("a", "completed")
+    );
+    StableBTreeMap(PAYMENTS_MEMORY, text, PaymentWithStatus).insert("b", {
+      ...paymentV0("b", ""),
+      status: { Failed: null },
+    });
+
+    assert.equal(applyMigration(paymentStatus), 1);
+    assert.equal(countOutdated(paymentStatus), 0);
+
+    const payments = StableBTreeMap(PAYMENTS_MEMORY, text, PaymentWithStatus);
+
+    assert.deepEqual(payments.get("a").Some?.status, { Completed: null });
+    assert.deepEqual(payments.get("b").Some?.status, { Failed: null });
+  });
+
+  it("rewrites every record across batches", () => {
+    const legacy = StableBTreeMap(PAYMENTS_MEMORY, text, PaymentV0);
+
+    for (let index = 0; index < 120; index++) {
+      const id = index.toString().padStart(3, "0");
+
+      legacy.insert(id, paymentV0(id, "pending"));
+    }
+
+    assert.equal(applyMigration(paymentStatus), 120);
+    assert.equal(countOutdated(paymentStatus), 0);
+  });
+
+  it("fails on records that match neither shape", () => {
+    StableBTreeMap(PAYMENTS_MEMORY, text, text).insert("a", "not a payment");
+
+    assert.throws(
+      () => applyMigration(paymentStatus),
+      /Migration to version 1 cannot decode a record of memory 7/
+    );
+  });
+});
@@ -0,0 +1,75 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  isDueKey,
+  noticeScheduleKey,
+  parseNoticeScheduleKey,
+  parseScheduleEntry,
+  scheduleEntry,
+  timeBefore,
+} from "../src/notices";
+import { NANOS_PER_DAY } from "../src/scheduling";
+
+const WEEK = 7n * NANOS_PER_DAY;
+
+describe("notice schedule keys", () => {
+  it("sort in the order of their due times", () => {
+    const times = [10n ** 18n, 5n, 123_456n];
+    const keys = times.map(noticeScheduleKey).sort();
+
+    assert.deepEqual(keys.map(parseNoticeScheduleKey), [
+      5n,
+      123_456n,
+      10n ** 18n,
+    ]);
+  });
+
+  it("hold past due times as due at once", () => {
+    assert.equal(noticeScheduleKey(-WEEK), "00000000000000000000");
+    assert.equal(parseNoticeScheduleKey(noticeScheduleKey(-WEEK)), 0n);
+  });
+
+  it("leave keys that are not padded times unparsed", () => {
+    assert.equal(parseNoticeScheduleKey("0000-604800000000000"), undefined);
+    assert.equal(parseNoticeScheduleKey(""), undefined);
+  });
+});
+
+describe("due keys", () => {
+  it("come due once their time has passed", () => {
+    const now = 1_000n;
+
+    assert.equal(isDueKey(noticeScheduleKey(999n), now), true);
+    assert.equal(isDueKey(noticeScheduleKey(1_000n), now), true);
+    assert.equal(isDueKey(noticeScheduleKey(1_001n), now), false);
+  });
+
+  it("include keys that cannot be read, so the sweep clears them", () => {
+    assert.equal(isDueKey("0000-604800000000000", 0n), true);
+  });
+});
+
+describe("appointments at time zero", () => {
+  it("are looked at by the next sweep", () => {
+    const firstLook = timeBefore(0n, WEEK);
+
+    assert.equal(firstLook, 0n);
+    assert.equal(isDueKey(noticeScheduleKey(firstLook), 0n), true);
+  });
+
+  it("keep the full lead for later events", () => {
+    assert.equal(timeBefore(3n * WEEK, WEEK), 2n * WEEK);
+    assert.equal(timeBefore(WEEK, WEEK), 0n);
+  });
+});
+
+describe("schedule entries", () => {
+  it("read back their kind and subject", () => {
+    const entry = scheduleEntry("forget", "reminder:a:b:60");
+
+    assert.deepEqual(parseScheduleEntry(entry), {
+      kind: "forget",
+      subject: "reminder:a:b:60",
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  MAX_LIST_PAGE_SIZE,
+  PageableMap,
+  firstKeyAfter,
+  readPage,
+} from "../src/pagination";
+
+// Map of n entries with fixed-length keys k000, k001, ... holding their number
+function numbers(count: number): PageableMap<number> {
+  const entries: [string, number][] = Array.from({ length: count }, (_, n) => [
+    `k${String(n).padStart(3, "0")}`,
+    n,
+  ]);
+
+  return {
+    len: () => BigInt(entries.length),
+    keys: (start = 0, length = entries.length) =>
+      entries.slice(start, start + length).map(([key]) => key),
+    items: (start = 0, length = entries.length) =>
+      entries.slice(start, start + length),
+  };
+}
+
+const all = () => true;
+
+describe("cursor search", () => {
+  it("finds the first key after the cursor", () => {
+    const map = numbers(10);
+
+    assert.equal(firstKeyAfter(map, 10, "k004"), 5);
+    assert.equal(firstKeyAfter(map, 10, "k0045"), 5);
+    assert.equal(firstKeyAfter(map, 10, "a"), 0);
+    assert.equal(firstKeyAfter(map, 10, "k009"), 10);
+  });
+});
+
+describe("pages", () => {
+  it("continue after the cursor of the previous page", () => {
+    const map = numbers(5);
+    const first = readPage(map, { limit: 2, descending: false, matches: all });
+
+    assert.deepEqual(first, { items: [0, 1], nextCursor: "k001" });
+
+    const second = readPage(map, {
+      limit: 2,
+      descending: false,
+      cursor: first.nextCursor,
+      matches: all,
+    });
+
+    assert.deepEqual(second, { items: [2, 3], nextCursor: "k003" });
+    assert.deepEqual(
+      readPage(map, {
+        limit: 2,
+        descending: false,
+        cursor: "k003",
+        matches: all,
+      }),
+      { items: [4], nextCursor: undefined }
+    );
+  });
+
+  it("run backwards when descending", () => {
+    const map = numbers(5);
+
+    assert.deepEqual(
+      readPage(map, { limit: 2, descending: true, matches: all }),
+      {
+        items: [4, 3],
+        nextCursor: "k003",
+      }
+    );
+    assert.deepEqual(
+      readPage(map, {
+        limit: 2,
+        descending: true,
+        cursor: "k003",
+        matches: all,
+      }),
+      { items: [2, 1], nextCursor: "k001" }
+    );
+  });
+
+  it("skip values that do not match across batches", () => {
+    const map = numbers(200);
+    const page = readPage(map, {
+      limit: 3,
+      descending: false,
+      matches: (value) => value % 60 === 0,
+    });
+
+    assert.deepEqual(page, { items: [0, 60, 120], nextCursor: "k120" });
+  });
+
+  it("keep the page size within bounds", () => {
+    const map = numbers(300);
+
+    assert.equal(
+      readPage(map, { limit: 1_000, descending: false, matches: all }).items
+        .length,
+      MAX_LIST_PAGE_SIZE
+    );
+    assert.equal(
+      readPage(map, { limit: 0, descending: false, matches: all }).items.length,
+      1
+    );
+  });
+});
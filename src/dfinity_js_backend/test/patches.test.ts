@@ -0,0 +1,59 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyListPatch, presentFields } from "../src/patches";
+
+describe("patch fields", () => {
+  it("change only the fields that are Some", () => {
+    const patch = {
+      expected_version: 3,
+      name: { Some: "Ada" },
+      email: { None: null },
+      age: { Some: 0n },
+    };
+
+    assert.deepEqual(presentFields(patch, ["name", "email", "age"]), {
+      name: "Ada",
+      age: 0n,
+    });
+  });
+});
+
+describe("list patches", () => {
+  it("remove listed items and append new ones once", () => {
+    assert.deepEqual(
+      applyListPatch("allergies", ["penicillin", "latex"], {
+        add: ["pollen", "pollen", "latex"],
+        remove: ["penicillin"],
+      }),
+      { items: ["latex", "pollen"], errors: [] }
+    );
+  });
+
+  it("reject removing items that are not in the list", () => {
+    assert.deepEqual(
+      applyListPatch("current_medications", ["aspirin"], {
+        add: [],
+        remove: ["ibuprofen"],
+      }),
+      {
+        items: ["aspirin"],
+        errors: [
+          {
+            field: "current_medications.remove",
+            reason: "'ibuprofen' is not in the list",
+          },
+        ],
+      }
+    );
+  });
+
+  it("re-add an item removed in the same patch", () => {
+    assert.deepEqual(
+      applyListPatch("allergies", ["latex"], {
+        add: ["latex"],
+        remove: ["latex"],
+      }).items,
+      ["latex"]
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  interactionKey,
+  normalizeTerm,
+  prescriptionSafety,
+} from "../src/prescribing";
+
+function drug(id: string, name: string, ingredients: string[] = []) {
+  return {
+    id,
+    name,
+    active_ingredients: ingredients,
+    contraindication_classes: [],
+  };
+}
+
+const warfarin = drug("m1", "Warfarin");
+const aspirin = drug("m2", "Aspirin", ["acetylsalicylic acid"]);
+const amoxicillin = {
+  ...drug("m3", "Amoxil"),
+  contraindication_classes: ["Penicillins"],
+};
+
+const interactions: {
+  [key: string]: { severity: string; description: string };
+} = {
+  [interactionKey("m1", "m2")]: { severity: "Major", description: "bleeding" },
+  [interactionKey("m2", "m3")]: { severity: "Minor", description: "mild" },
+};
+const interactionOf = (key: string) => interactions[key];
+
+describe("safety terms", () => {
+  it("compare case and whitespace insensitively", () => {
+    assert.equal(normalizeTerm("  Penicillins "), "penicillins");
+  });
+
+  it("share one key for both orders of a pair", () => {
+    assert.equal(interactionKey("m2", "m1"), interactionKey("m1", "m2"));
+  });
+});
+
+describe("prescription safety", () => {
+  it("blocks medications the patient is allergic to", () => {
+    assert.deepEqual(
+      prescriptionSafety(["penicillins"], [amoxicillin], [], interactionOf),
+      [
+        {
+          blocking: true,
+          message: "Amoxil conflicts with the patient's allergy to penicillins",
+        },
+      ]
+    );
+  });
+
+  it("matches allergies to active ingredients", () => {
+    const findings = prescriptionSafety(
+      ["Acetylsalicylic Acid"],
+      [aspirin],
+      [],
+      interactionOf
+    );
+
+    assert.equal(findings.length, 1);
+    assert.equal(findings[0].blocking, true);
+  });
+
+  it("blocks major interactions with current medications", () => {
+    assert.deepEqual(
+      prescriptionSafety([], [aspirin], [warfarin], interactionOf),
+      [
+        {
+          blocking: true,
+          message: "Major interaction between Aspirin and Warfarin: bleeding",
+        },
+      ]
+    );
+  });
+
+  it("warns about minor interactions within the prescription", () => {
+    assert.deepEqual(
+      prescriptionSafety([], [aspirin, amoxicillin], [], interactionOf),
+      [
+        {
+          blocking: false,
+          message: "Minor interaction between Aspirin and Amoxil: mild",
+        },
+      ]
+    );
+  });
+
+  it("reports each pair once and ignores repeats of the same medication", () => {
+    const findings = prescriptionSafety(
+      [],
+      [warfarin, aspirin],
+      [aspirin, warfarin],
+      interactionOf
+    );
+
+    assert.equal(findings.length, 1);
+  });
+});
@@ -0,0 +1,103 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  ServiceTerms,
+  priceLine,
+  priceLines,
+  serviceProblem,
+} from "../src/pricing";
+
+const consult: ServiceTerms = {
+  id: "consult",
+  department_id: "cardiology",
+  code: "CONSULT",
+  name: "Consultation",
+  price: 1_000n,
+  tax_percent: 10,
+  active: true,
+};
+
+const ecg: ServiceTerms = {
+  ...consult,
+  id: "ecg",
+  code: "ECG",
+  name: "Electrocardiogram",
+  price: 500n,
+  tax_percent: 0,
+};
+
+const catalog = new Map([consult, ecg].map((service) => [service.id, service]));
+const serviceOf = (serviceId: string) => catalog.get(serviceId);
+
+describe("billable services", () => {
+  it("must exist, belong to the department and be active", () => {
+    assert.equal(serviceProblem("consult", consult, "cardiology"), undefined);
+    assert.equal(
+      serviceProblem("gone", undefined, "cardiology"),
+      "Service with id=gone not found"
+    );
+    assert.equal(
+      serviceProblem("consult", consult, "dermatology"),
+      "Service with id=consult is not offered by department id=dermatology"
+    );
+    assert.equal(
+      serviceProblem("consult", { ...consult, active: false }, "cardiology"),
+      "Service with id=consult is no longer offered"
+    );
+  });
+});
+
+describe("line prices", () => {
+  it("take the discount before tax", () => {
+    assert.deepEqual(
+      priceLine(consult, {
+        service_id: "consult",
+        quantity: 2,
+        discount_percent: 25,
+      }),
+      {
+        service_id: "consult",
+        code: "CONSULT",
+        description: "Consultation",
+        quantity: 2,
+        unit_price: 1_000n,
+        discount: 500n,
+        tax: 150n,
+        total: 1_650n,
+      }
+    );
+  });
+});
+
+describe("invoice prices", () => {
+  it("add up the lines", () => {
+    const priced = priceLines(
+      "cardiology",
+      [
+        { service_id: "consult", quantity: 1, discount_percent: 0 },
+        { service_id: "ecg", quantity: 2, discount_percent: 10 },
+      ],
+      serviceOf
+    );
+
+    assert.ok("Ok" in priced);
+    assert.equal(priced.Ok.subtotal, 2_000n);
+    assert.equal(priced.Ok.discount_total, 100n);
+    assert.equal(priced.Ok.tax_total, 100n);
+    assert.equal(priced.Ok.total, 2_000n);
+  });
+
+  it("fail on the first service that cannot be billed", () => {
+    assert.deepEqual(
+      priceLines(
+        "cardiology",
+        [
+          { service_id: "consult", quantity: 1, discount_percent: 0 },
+          { service_id: "removed", quantity: 1, discount_percent: 0 },
+        ],
+        serviceOf
+      ),
+      { Err: "Service with id=removed not found" }
+    );
+  });
+});
@@ -0,0 +1,32 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { amendsExistingEntry, referenceRangeProblem } from "../src/records";
+
+describe("record amendments", () => {
+  const entries = [{ id: "n1" }, { id: "n2" }];
+
+  it("accept new entries and corrections of recorded ones", () => {
+    assert.equal(amendsExistingEntry(undefined, entries), true);
+    assert.equal(amendsExistingEntry("n2", entries), true);
+  });
+
+  it("reject corrections of entries the record does not hold", () => {
+    assert.equal(amendsExistingEntry("n3", entries), false);
+    assert.equal(amendsExistingEntry("n1", []), false);
+  });
+});
+
+describe("lab reference ranges", () => {
+  it("allow open and ordered bounds", () => {
+    assert.equal(referenceRangeProblem(undefined, 5), undefined);
+    assert.equal(referenceRangeProblem(1, undefined), undefined);
+    assert.equal(referenceRangeProblem(1, 1), undefined);
+  });
+
+  it("reject a low bound above the high bound", () => {
+    assert.equal(
+      referenceRangeProblem(6, 5),
+      "Reference range low bound exceeds the high bound"
+    );
+  });
+});
@@ -0,0 +1,26 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { retainUntil, retentionElapsed } from "../src/retention";
+import { NANOS_PER_DAY } from "../src/scheduling";
+
+describe("retention period", () => {
+  it("runs the configured number of days from the delete", () => {
+    assert.equal(retainUntil(5n, 30), 5n + 30n * NANOS_PER_DAY);
+    assert.equal(retainUntil(5n, 0), 5n);
+  });
+
+  it("elapses once its end is reached", () => {
+    const deletedAt = 1_000n;
+    const end = retainUntil(deletedAt, 7);
+
+    assert.equal(retentionElapsed(deletedAt, 7, end - 1n), false);
+    assert.equal(retentionElapsed(deletedAt, 7, end), true);
+  });
+
+  it("follows a shortened policy for data already deleted", () => {
+    const now = 10n * NANOS_PER_DAY;
+
+    assert.equal(retentionElapsed(0n, 30, now), false);
+    assert.equal(retentionElapsed(0n, 10, now), true);
+  });
+});
@@ -0,0 +1,113 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  NANOS_PER_DAY,
+  NANOS_PER_MINUTE,
+  conflictsWithBooking,
+  openSlots,
+  workingHoursProblem,
+} from "../src/scheduling";
+
+// Monday, 2024-01-01 00:00 UTC
+const MONDAY = BigInt(Date.UTC(2024, 0, 1)) * 1_000_000n;
+
+function at(day: bigint, minute: number): bigint {
+  return day + BigInt(minute) * NANOS_PER_MINUTE;
+}
+
+const schedule = {
+  slot_duration_minutes: 30,
+  working_hours: [{ day_of_week: 1, start_minute: 540, end_minute: 660 }],
+  time_off: [],
+};
+
+function starts(slots: { start_time: bigint }[]): bigint[] {
+  return slots.map((slot) => slot.start_time);
+}
+
+describe("working hours", () => {
+  it("accept non-overlapping hours that fit a slot", () => {
+    assert.equal(workingHoursProblem(30, schedule.working_hours), undefined);
+  });
+
+  it("reject overlapping hours on the same day", () => {
+    assert.equal(
+      workingHoursProblem(30, [
+        { day_of_week: 1, start_minute: 540, end_minute: 660 },
+        { day_of_week: 1, start_minute: 600, end_minute: 720 },
+      ]),
+      "Working hours on the same day must not overlap"
+    );
+  });
+
+  it("reject hours shorter than a slot or past midnight", () => {
+    assert.equal(
+      workingHoursProblem(60, [
+        { day_of_week: 2, start_minute: 540, end_minute: 570 },
+      ]),
+      "Working hours must fit at least one slot"
+    );
+    assert.equal(
+      workingHoursProblem(30, [
+        { day_of_week: 2, start_minute: 1_400, end_minute: 1_500 },
+      ]),
+      "Working hours must start before they end, within a single day"
+    );
+  });
+});
+
+describe("open slots", () => {
+  it("split the working hours of matching weekdays", () => {
+    const slots = openSlots(
+      schedule,
+      [],
+      MONDAY,
+      MONDAY + 7n * NANOS_PER_DAY,
+      0n
+    );
+
+    assert.deepEqual(starts(slots), [
+      at(MONDAY, 540),
+      at(MONDAY, 570),
+      at(MONDAY, 600),
+      at(MONDAY, 630),
+    ]);
+  });
+
+  it("leave out booked, blocked and past slots", () => {
+    const slots = openSlots(
+      {
+        ...schedule,
+        time_off: [{ start_time: at(MONDAY, 630), end_time: at(MONDAY, 700) }],
+      },
+      [{ start_time: at(MONDAY, 600), end_time: at(MONDAY, 630) }],
+      MONDAY,
+      MONDAY + NANOS_PER_DAY,
+      at(MONDAY, 540)
+    );
+
+    assert.deepEqual(starts(slots), [at(MONDAY, 570)]);
+  });
+});
+
+describe("booking conflicts", () => {
+  const booked = [{ start_time: at(MONDAY, 540), end_time: at(MONDAY, 570) }];
+
+  it("detect overlapping bookings", () => {
+    assert.equal(
+      conflictsWithBooking(at(MONDAY, 555), at(MONDAY, 585), booked),
+      true
+    );
+  });
+
+  it("allow back-to-back bookings", () => {
+    assert.equal(
+      conflictsWithBooking(at(MONDAY, 570), at(MONDAY, 600), booked),
+      false
+    );
+    assert.equal(
+      conflictsWithBooking(at(MONDAY, 510), at(MONDAY, 540), booked),
+      false
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { compareQueued, pickCandidate } from "../src/triage";
+
+describe("consultation queue", () => {
+  it("lists the most urgent consultations first, oldest first within a level", () => {
+    const queue = [
+      { id: "low", urgency: { Low: null }, created_at: 1n },
+      { id: "high-new", urgency: { High: null }, created_at: 5n },
+      { id: "critical", urgency: { Critical: null }, created_at: 9n },
+      { id: "high-old", urgency: { High: null }, created_at: 2n },
+    ];
+
+    assert.deepEqual(
+      queue.sort(compareQueued).map((consultation) => consultation.id),
+      ["critical", "high-old", "high-new", "low"]
+    );
+  });
+});
+
+describe("doctor assignment", () => {
+  const candidates = [
+    { doctor: "carol", id: "c", load: 0 },
+    { doctor: "alice", id: "a", load: 2 },
+    { doctor: "bob", id: "b", load: 1 },
+  ];
+
+  it("leaves consultations in the queue under manual routing", () => {
+    assert.equal(pickCandidate("Manual", candidates, undefined), undefined);
+  });
+
+  it("takes turns in id order and wraps around", () => {
+    assert.equal(pickCandidate("RoundRobin", candidates, undefined), "alice");
+    assert.equal(pickCandidate("RoundRobin", candidates, "a"), "bob");
+    assert.equal(pickCandidate("RoundRobin", candidates, "c"), "alice");
+    assert.equal(pickCandidate("RoundRobin", [], "a"), undefined);
+  });
+
+  it("skips a last assigned doctor who is no longer a candidate", () => {
+    assert.equal(pickCandidate("RoundRobin", candidates, "aa"), "bob");
+  });
+
+  it("picks the least loaded doctor, the lowest id on a tie", () => {
+    assert.equal(pickCandidate("LeastLoaded", candidates, undefined), "carol");
+    assert.equal(
+      pickCandidate(
+        "LeastLoaded",
+        [
+          { doctor: "bob", id: "b", load: 1 },
+          { doctor: "alice", id: "a", load: 1 },
+        ],
+        undefined
+      ),
+      "alice"
+    );
+  });
+});
@@ -0,0 +1,188 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  Schema,
+  between,
+  eachItem,
+  email,
+  httpsUrl,
+  listOf,
+  maxItems,
+  maxLength,
+  nonEmptyList,
+  oneOf,
+  optional,
+  phoneNumber,
+  positive,
+  recordField,
+  required,
+  uuid,
+  validateChanges,
+  validatePayload,
+} from "../src/validation";
+
+const ContactSchema: Schema = {
+  name: [required, maxLength(10)],
+  phone_number: [phoneNumber],
+};
+
+const PatientSchema: Schema = {
+  name: [required, maxLength(10)],
+  email: [email],
+  age: [between(0, 150)],
+  emergency_contact: ContactSchema,
+  allergies: [maxItems(2), eachItem(required)],
+  contacts: listOf(ContactSchema, nonEmptyList),
+};
+
+const validPatient = {
+  name: "Amina",
+  email: "amina@example.com",
+  age: 34n,
+  emergency_contact: { name: "Omar", phone_number: "+254712345678" },
+  allergies: ["Penicillin"],
+  contacts: [{ name: "Omar", phone_number: "+254712345678" }],
+};
+
+describe("validatePayload", () => {
+  it("accepts a valid payload", () => {
+    assert.deepEqual(validatePayload(validPatient, PatientSchema), []);
+  });
+
+  it("reports every failing field, but only its first failing rule", () => {
+    assert.deepEqual(
+      validatePayload(
+        { ...validPatient, name: " ", email: "amina", age: 200n },
+        PatientSchema
+      ),
+      [
+        { field: "name", reason: "is required" },
+        { field: "email", reason: "must be a valid email address" },
+        { field: "age", reason: "must be between 0 and 150" },
+      ]
+    );
+  });
+
+  it("names the fields of nested records by their path", () => {
+    assert.deepEqual(
+      validatePayload(
+        {
+          ...validPatient,
+          emergency_contact: { name: "Omar", phone_number: "0712" },
+        },
+        PatientSchema
+      ),
+      [
+        {
+          field: "emergency_contact.phone_number",
+          reason: "must be an E.164 phone number, e.g. +254712345678",
+        },
+      ]
+    );
+  });
+
+  it("checks the list rules before the items of a list", () => {
+    assert.deepEqual(
+      validatePayload({ ...validPatient, contacts: [] }, PatientSchema),
+      [{ field: "contacts", reason: "must have at least one item" }]
+    );
+    assert.deepEqual(
+      validatePayload(
+        {
+          ...validPatient,
+          contacts: [
+            { name: "Omar", phone_number: "+254712345678" },
+            { name: "", phone_number: "+254712345678" },
+          ],
+        },
+        PatientSchema
+      ),
+      [{ field: "contacts[1].name", reason: "is required" }]
+    );
+  });
+
+  it("reports the failing item of a text list", () => {
+    assert.deepEqual(
+      validatePayload(
+        { ...validPatient, allergies: ["Dust", ""] },
+        PatientSchema
+      ),
+      [{ field: "allergies", reason: "item 1 is required" }]
+    );
+  });
+
+  it("treats a missing record as having no fields", () => {
+    assert.deepEqual(
+      validatePayload(
+        { ...validPatient, emergency_contact: undefined },
+        {
+          emergency_contact: ContactSchema,
+        }
+      ),
+      [
+        {
+          field: "emergency_contact.phone_number",
+          reason: "must be an E.164 phone number, e.g. +254712345678",
+        },
+      ]
+    );
+  });
+});
+
+describe("validateChanges", () => {
+  it("validates only the fields present in the changes", () => {
+    assert.deepEqual(validateChanges({ email: "amina" }, PatientSchema), [
+      { field: "email", reason: "must be a valid email address" },
+    ]);
+    assert.deepEqual(validateChanges({ age: 40n }, PatientSchema), []);
+  });
+});
+
+describe("rules", () => {
+  it("accepts only https URLs", () => {
+    assert.equal(httpsUrl("https://example.com/photo.png"), undefined);
+    assert.equal(httpsUrl("http://example.com"), "must be an https URL");
+    assert.equal(httpsUrl("not a url"), "must be a valid URL");
+  });
+
+  it("accepts only UUIDs as ids", () => {
+    assert.equal(uuid("5f1b1c52-4b8e-4d4c-9a52-3c6f1f4f1e2a"), undefined);
+    assert.equal(uuid("42"), "must be a valid id");
+  });
+
+  it("accepts only the allowed values", () => {
+    assert.equal(oneOf(["Female", "Male"])("Male"), undefined);
+    assert.equal(
+      oneOf(["Female", "Male"])("male"),
+      "must be one of: Female, Male"
+    );
+  });
+
+  it("compares nat and float values alike", () => {
+    assert.equal(between(1, 12)(12n), undefined);
+    assert.equal(between(1, 12)(0.5), "must be between 1 and 12");
+    assert.equal(positive(1n), undefined);
+    assert.equal(positive(0), "must be a positive number");
+    assert.equal(positive(Number.NaN), "must be a positive number");
+  });
+
+  it("applies optional rules only when the value is present", () => {
+    assert.equal(optional(positive)({ None: null }), undefined);
+    assert.equal(optional(positive)({ Some: 2 }), undefined);
+    assert.equal(optional(positive)({ Some: -2 }), "must be a positive number");
+  });
+
+  it("prefixes the reasons of a record field with its name", () => {
+    const measurement = recordField("value", positive);
+
+    assert.equal(measurement({ value: 70, unit: { Kg: null } }), undefined);
+    assert.equal(
+      measurement({ value: 0, unit: { Kg: null } }),
+      "value must be a positive number"
+    );
+    assert.equal(
+      optional(measurement)({ Some: { value: -1 } }),
+      "value must be a positive number"
+    );
+  });
+});